@@ -1,48 +1,318 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import Sidebar from './components/Sidebar';
 import Editor from './components/Editor';
 import Chat from './components/Chat';
 import TtsPlayer from './components/TtsPlayer';
 import QuickActions from './components/QuickActions';
-import { Note, ChatMessage, TtsState, TtsVoice } from './types';
-import { sendMessageToGemini } from './services/gemini';
+import QuickActionsEditor from './components/QuickActionsEditor';
+import QuizPanel from './components/QuizPanel';
+import LecturePanel from './components/LecturePanel';
+import FlashcardReview from './components/FlashcardReview';
+import PaperBuilder from './components/PaperBuilder';
+import GradingPanel from './components/GradingPanel';
+import HistoryPanel from './components/HistoryPanel';
+import UndoToast from './components/UndoToast';
+import BackupDialog from './components/BackupDialog';
+import SettingsDialog from './components/SettingsDialog';
+import TemplatePicker from './components/TemplatePicker';
+import ReplacePreviewDialog from './components/ReplacePreviewDialog';
+import SyncConflictDialog, { SyncConflictChoice } from './components/SyncConflictDialog';
+import { Note, Folder, NoteVersion, ChatMessage, ChatThread, QuickAction, Flashcard, TtsState, EditorSelectionRequest, AiSettings } from './types';
+import { streamChat, loadAiSettings, saveAiSettings, describeProvider } from './services/ai';
+import { toAiError } from './services/aiErrors';
+import { splitHistory, summarizeMessages, buildChatRequest } from './services/chatContext';
+import {
+  loadNotes,
+  scheduleNoteSave,
+  onNoteSaveStatus,
+  deleteNote,
+  getAllFolders,
+  putFolders,
+  deleteFolder,
+  getChatThreadsForNote,
+  putChatThread,
+  deleteChatThread,
+  getAllFlashcards,
+  putFlashcards,
+  deleteFlashcards
+} from './services/storage';
+import { canMoveFolder } from './services/folders';
+import { createSearchIndex, TextRange } from './services/search';
+import { recordEdit, saveSnapshot } from './services/history';
+import { ImportResult } from './services/backup';
+import { linkTitle, findNoteByTitle, rewriteLinks, getBacklinks } from './services/links';
+import { subscribe, markNotesSynced, forgetNotes, classifyIncomingNote, broadcastNoteChanges, broadcastFolderChanges, SyncPayload } from './services/tabSync';
+import { isTrashed, isExpired, loadTrashRetentionDays, saveTrashRetentionDays } from './services/trash';
+import { downloadBlob } from './services/fileUtils';
+import { loadQuickActions, saveQuickActions, expandPrompt, usesVariable } from './services/quickActions';
+import { isMostlyBangla, loadGrade } from './services/rewrite';
+import { AnswerInsertMode, NoteEdit, insertAtCursor, appendUnderHeading, replaceRange, changedRegion, revertRegion } from './services/noteEdits';
+import { syncNoteCards, countDueByNote } from './services/flashcards';
+import {
+  DictationLanguage,
+  RecognitionLanguage,
+  loadDictationLanguage,
+  saveDictationLanguage,
+  otherRecognitionLanguage,
+  parseUtterance,
+  applyUtterance,
+  DictationSession
+} from './services/dictation';
+import { UNDO_TOAST_MS, QUIZ_QUICK_ACTION_ID, NOTE_SAVE_DEBOUNCE_MS, AUTO_SWITCH_CONFIDENCE, MAX_DICTATION_UNDO } from './constants';
+
+const titleFromContent = (content: string) => content.split('\n')[0].substring(0, 30) || 'Untitled';
+
+interface ChatSendOptions {
+  includeNote?: boolean;
+  actionLabel?: string;
+  historyText?: string;
+  isRetry?: boolean;
+}
+
+// The last reply that failed for a reason worth retrying, with what is needed to send it again
+interface FailedChatRequest {
+  questionId: string;
+  replyId: string;
+  text: string;
+  image?: string;
+  options: ChatSendOptions;
+}
 
 const App: React.FC = () => {
   // State: Notes
-  const [notes, setNotes] = useState<Note[]>(() => {
-    const saved = localStorage.getItem('smart_notes');
-    return saved ? JSON.parse(saved) : [];
-  });
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [isNotesLoaded, setIsNotesLoaded] = useState(false);
+  const persistedNotesRef = useRef<Map<string, Note>>(new Map());
+  const notesRef = useRef<Note[]>(notes);
+  notesRef.current = notes;
   const [currentNoteId, setCurrentNoteId] = useState<string | null>(null);
+
+  const activeNotes = useMemo(() => notes.filter(n => !isTrashed(n)), [notes]);
+  const trashedNotes = useMemo(() => notes.filter(isTrashed), [notes]);
+
+  // State: Trash
+  const [trashRetentionDays, setTrashRetentionDays] = useState(loadTrashRetentionDays);
+  const [toast, setToast] = useState<{ message: string; onUndo: () => void; canUndo?: () => boolean } | null>(null);
+  const toastTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // State: Saving
+  const [noteSaveFailed, setNoteSaveFailed] = useState(false);
+
+  // State: Tab Sync
+  const [syncConflicts, setSyncConflicts] = useState<{ local: Note; remote: Note }[]>([]);
+
+  // State: Folders
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null);
   
+  // State: Search
+  const [searchQuery, setSearchQuery] = useState('');
+  const searchIndexRef = useRef(createSearchIndex());
+  const [selectionRequest, setSelectionRequest] = useState<EditorSelectionRequest | null>(null);
+
+  // State: Editor selection (last caret/selection reported by the editor)
+  const [editorSelection, setEditorSelection] = useState<TextRange | null>(null);
+  const [pendingReplace, setPendingReplace] = useState<{ noteId: string; range: TextRange; replacement: string } | null>(null);
+
   // State: UI
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isChatOpen, setIsChatOpen] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isTemplatePickerOpen, setIsTemplatePickerOpen] = useState(false);
+  const [isQuickActionsEditorOpen, setIsQuickActionsEditorOpen] = useState(false);
+  const [quizPanel, setQuizPanel] = useState<{ generateOnOpen: boolean } | null>(null);
+  const [isPaperBuilderOpen, setIsPaperBuilderOpen] = useState(false);
+  const [isGradingOpen, setIsGradingOpen] = useState(false);
+  const [isLecturePanelOpen, setIsLecturePanelOpen] = useState(false);
   const [darkMode, setDarkMode] = useState(false); // Could detect sys pref
 
-  // State: Recording
+  // State: Dictation
   const [isRecording, setIsRecording] = useState(false);
-  const recognitionRef = useRef<any>(null);
+  const [dictationLanguage, setDictationLanguage] = useState<DictationLanguage>(loadDictationLanguage);
+  const dictationLanguageRef = useRef(dictationLanguage);
+  dictationLanguageRef.current = dictationLanguage;
+  const [interimTranscript, setInterimTranscript] = useState('');
+  const dictationRef = useRef<DictationSession | null>(null);
+  const dictationUndoRef = useRef<{ noteId: string; before: string; after: string; caret: number }[]>([]);
 
-  // State: Chat
-  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  // State: Chat (threads belong to the current note)
+  const [chatThreads, setChatThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const chatNoteIdRef = useRef<string | null>(currentNoteId);
   const [isChatLoading, setIsChatLoading] = useState(false);
+  const [failedChatRequest, setFailedChatRequest] = useState<FailedChatRequest | null>(null);
+  const chatAbortRef = useRef<AbortController | null>(null);
+  const [quickActions, setQuickActions] = useState<QuickAction[]>(loadQuickActions);
+  const [aiSettings, setAiSettings] = useState<AiSettings>(loadAiSettings);
+
+  // State: Flashcards
+  const [flashcards, setFlashcards] = useState<Flashcard[]>([]);
+  const [isFlashcardsLoaded, setIsFlashcardsLoaded] = useState(false);
+  const flashcardsRef = useRef<Flashcard[]>(flashcards);
+  flashcardsRef.current = flashcards;
+  const syncedCardContentRef = useRef<Map<string, string>>(new Map());
+  const [flashcardReview, setFlashcardReview] = useState<{ noteId: string | null } | null>(null);
+  const [dueClock, setDueClock] = useState(Date.now);
 
   // State: TTS
   const [ttsState, setTtsState] = useState<TtsState>({
     isPlaying: false,
     isLoading: false,
     speed: 1.0,
-    voice: TtsVoice.Kore,
+    voice: aiSettings.defaultVoice,
     textToRead: ''
   });
 
   // Effects
   useEffect(() => {
-    localStorage.setItem('smart_notes', JSON.stringify(notes));
-  }, [notes]);
+    loadNotes()
+      .then(loaded => {
+        persistedNotesRef.current = new Map(loaded.map(n => [n.id, n]));
+        markNotesSynced(loaded);
+        // Keep anything created while the store was still opening
+        setNotes(prev => [...prev.filter(n => !persistedNotesRef.current.has(n.id)), ...loaded]);
+      })
+      .catch(err => console.error("Failed to load notes", err))
+      .finally(() => setIsNotesLoaded(true));
+
+    getAllFolders()
+      .then(setFolders)
+      .catch(err => console.error("Failed to load folders", err));
+
+    getAllFlashcards()
+      .then(setFlashcards)
+      .catch(err => console.error("Failed to load flashcards", err))
+      .finally(() => setIsFlashcardsLoaded(true));
+  }, []);
+
+  // Persist only the notes that changed since the last render
+  useEffect(() => {
+    if (!isNotesLoaded) return;
+    const persisted = persistedNotesRef.current;
+    const next = new Map(notes.map(n => [n.id, n]));
+    const changed = notes.filter(note => persisted.get(note.id) !== note);
+    const deletedIds = Array.from(persisted.keys()).filter(id => !next.has(id));
+
+    changed.forEach(scheduleNoteSave);
+    deletedIds.forEach(id => {
+      deleteNote(id).catch(err => console.error("Failed to delete note", err));
+    });
+    broadcastNoteChanges(changed, deletedIds);
+
+    persistedNotesRef.current = next;
+  }, [notes, isNotesLoaded]);
+
+  useEffect(() => onNoteSaveStatus(setNoteSaveFailed), []);
+
+  // Live sync with other open tabs
+  useEffect(() => {
+    const handleSync = (payload: SyncPayload) => {
+      if (payload.type === 'folders') {
+        const deleted = new Set(payload.deletes);
+        const upserts = new Map(payload.upserts.map(f => [f.id, f]));
+        setFolders(prev => [
+          ...prev.filter(f => !deleted.has(f.id) && !upserts.has(f.id)),
+          ...payload.upserts
+        ]);
+        return;
+      }
+
+      const localById = new Map(notesRef.current.map(n => [n.id, n]));
+      const applied: Note[] = [];
+      payload.upserts.forEach(incoming => {
+        const local = localById.get(incoming.note.id);
+        const action = classifyIncomingNote(local, incoming);
+        if (action === 'apply') {
+          applied.push(incoming.note);
+        } else if (action === 'conflict') {
+          setSyncConflicts(prev => [
+            ...prev.filter(c => c.remote.id !== incoming.note.id),
+            { local: local!, remote: incoming.note }
+          ]);
+        }
+      });
+
+      markNotesSynced(applied);
+      forgetNotes(payload.deletes);
+      const appliedById = new Map(applied.map(n => [n.id, n]));
+      const deleted = new Set(payload.deletes);
+      setNotes(prev => [
+        ...applied.filter(n => !localById.has(n.id)),
+        ...prev.filter(n => !deleted.has(n.id)).map(n => appliedById.get(n.id) || n)
+      ]);
+      if (currentNoteId && deleted.has(currentNoteId)) setCurrentNoteId(null);
+    };
+
+    return subscribe(handleSync);
+  }, [currentNoteId]);
+
+  // Restore the chat threads of the note being opened
+  useEffect(() => {
+    chatNoteIdRef.current = currentNoteId;
+    setEditorSelection(null);
+    setChatThreads([]);
+    setActiveThreadId(null);
+    if (!currentNoteId) return;
+
+    let cancelled = false;
+    getChatThreadsForNote(currentNoteId)
+      .then(threads => {
+        if (cancelled) return;
+        setChatThreads(threads);
+        setActiveThreadId(threads[0]?.id ?? null);
+      })
+      .catch(err => console.error("Failed to load chat threads", err));
+    return () => {
+      cancelled = true;
+      chatAbortRef.current?.abort();
+    };
+  }, [currentNoteId]);
+
+  // Purge notes that have been in Trash longer than the retention period
+  useEffect(() => {
+    if (!isNotesLoaded) return;
+    const purge = () => setNotes(prev => {
+      const kept = prev.filter(n => !isExpired(n, trashRetentionDays));
+      return kept.length === prev.length ? prev : kept;
+    });
+    purge();
+    const interval = setInterval(purge, 60 * 60 * 1000);
+    return () => clearInterval(interval);
+  }, [isNotesLoaded, trashRetentionDays]);
+
+  // Keep "Q:: A" cards in step with the text of notes that changed, once typing pauses
+  useEffect(() => {
+    if (!isNotesLoaded || !isFlashcardsLoaded) return;
+    const timer = setTimeout(() => {
+      const synced = syncedCardContentRef.current;
+      const upserts: Flashcard[] = [];
+      const deletes: string[] = [];
+      notes.forEach(note => {
+        if (synced.get(note.id) === note.content) return;
+        const changes = syncNoteCards(note, flashcardsRef.current);
+        upserts.push(...changes.upserts);
+        deletes.push(...changes.deletes);
+      });
+      syncedCardContentRef.current = new Map(notes.map(n => [n.id, n.content]));
+
+      // Cards of deleted notes are removed from the store along with the note
+      const noteIds = new Set(notes.map(n => n.id));
+      const orphaned = flashcardsRef.current.filter(c => !noteIds.has(c.noteId)).map(c => c.id);
+      if (orphaned.length > 0) setFlashcards(prev => prev.filter(c => noteIds.has(c.noteId)));
+      applyFlashcardChanges(upserts, deletes);
+    }, NOTE_SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [notes, isNotesLoaded, isFlashcardsLoaded]);
+
+  // Due counts move on as time passes, not only when cards change
+  useEffect(() => {
+    const interval = setInterval(() => setDueClock(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
 
   useEffect(() => {
     if (darkMode) {
@@ -52,116 +322,631 @@ const App: React.FC = () => {
     }
   }, [darkMode]);
 
+  // The index is built lazily on the first search, then kept in sync incrementally
+  const searchResults = useMemo(() => {
+    if (!searchQuery.trim()) return [];
+    searchIndexRef.current.sync(activeNotes);
+    return searchIndexRef.current.search(searchQuery);
+  }, [activeNotes, searchQuery]);
+
+  const dueCounts = useMemo(() => {
+    const activeIds = new Set(activeNotes.map(n => n.id));
+    return countDueByNote(flashcards.filter(c => activeIds.has(c.noteId)), dueClock);
+  }, [flashcards, activeNotes, dueClock]);
+
   // Handlers: Note Management
   const getCurrentNote = () => notes.find(n => n.id === currentNoteId);
 
   const handleUpdateNote = (content: string) => {
     if (!currentNoteId) return;
-    setNotes(prev => prev.map(n => 
-      n.id === currentNoteId ? { ...n, content, title: content.split('\n')[0].substring(0, 30) || 'Untitled', updatedAt: Date.now() } : n
+    const title = titleFromContent(content);
+    const note = getCurrentNote();
+    if (note) recordEdit(note, { ...note, content, title });
+
+    // Renaming a note (editing its first line) keeps [[links]] to it pointing at the new title
+    const oldLinkTitle = note ? linkTitle(note) : '';
+    const newLinkTitle = linkTitle({ title });
+    const renameLinks = !!note && oldLinkTitle !== newLinkTitle && newLinkTitle !== 'Untitled' &&
+      findNoteByTitle(activeNotes, oldLinkTitle)?.id === note.id;
+
+    setNotes(prev => prev.map(n => {
+      if (n.id === currentNoteId) return { ...n, content, title, updatedAt: Date.now() };
+      if (!renameLinks) return n;
+      const rewritten = rewriteLinks(n.content, oldLinkTitle, newLinkTitle);
+      return rewritten === n.content ? n : { ...n, content: rewritten, title: titleFromContent(rewritten), updatedAt: Date.now() };
+    }));
+  };
+
+  // Following a [[link]] to a note that does not exist yet offers to create it
+  const handleOpenLink = (title: string) => {
+    const target = findNoteByTitle(activeNotes, title);
+    if (target) {
+      setCurrentNoteId(target.id);
+    } else if (window.confirm(`There is no note called "${title}". Create it?`)) {
+      handleNewNote(`# ${title}\n\n`);
+    }
+  };
+
+  const backlinks = useMemo(() => {
+    const note = notes.find(n => n.id === currentNoteId);
+    return note && !isTrashed(note) ? getBacklinks(note, activeNotes) : [];
+  }, [notes, activeNotes, currentNoteId]);
+
+  // Restoring first snapshots the current text, so a restore can itself be undone
+  const handleRestoreVersion = async (version: NoteVersion) => {
+    const note = getCurrentNote();
+    if (!note) return;
+    await saveSnapshot(note, 'restore');
+    setNotes(prev => prev.map(n =>
+      n.id === note.id ? { ...n, content: version.content, title: version.title, updatedAt: Date.now() } : n
     ));
   };
 
-  const handleNewNote = () => {
+  const handleUpdateTags = (tags: string[]) => {
+    if (!currentNoteId) return;
+    setNotes(prev => prev.map(n => n.id === currentNoteId ? { ...n, tags, updatedAt: Date.now() } : n));
+  };
+
+  const handleNewNote = (content = '') => {
     const newNote: Note = {
       id: uuidv4(),
-      title: 'Untitled Note',
-      content: '',
-      updatedAt: Date.now()
+      title: content ? titleFromContent(content) : 'Untitled Note',
+      content,
+      updatedAt: Date.now(),
+      folderId: selectedFolderId,
+      tags: [],
+      deletedAt: null
     };
     setNotes([newNote, ...notes]);
     setCurrentNoteId(newNote.id);
     if (window.innerWidth < 1024) setIsSidebarOpen(false);
   };
 
+  const showUndoToast = (message: string, onUndo: () => void, canUndo?: () => boolean) => {
+    if (toastTimerRef.current) clearTimeout(toastTimerRef.current);
+    setToast({ message, onUndo, canUndo });
+    toastTimerRef.current = setTimeout(() => setToast(null), UNDO_TOAST_MS);
+  };
+
+  const dismissToast = () => {
+    if (toastTimerRef.current) clearTimeout(toastTimerRef.current);
+    setToast(null);
+  };
+
+  const setDeletedAt = (id: string, deletedAt: number | null) => {
+    setNotes(prev => prev.map(n => n.id === id ? { ...n, deletedAt, updatedAt: Date.now() } : n));
+  };
+
+  // Deleting moves the note to Trash; it is only removed for good from there
   const handleDeleteNote = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    setNotes(prev => prev.filter(n => n.id !== id));
+    const note = notes.find(n => n.id === id);
+    setDeletedAt(id, Date.now());
     if (currentNoteId === id) setCurrentNoteId(null);
+
+    showUndoToast(`"${note?.title || 'Untitled Note'}" moved to Trash`, () => {
+      setDeletedAt(id, null);
+      setCurrentNoteId(id);
+      dismissToast();
+    });
+  };
+
+  const handleRestoreNote = (id: string) => {
+    setDeletedAt(id, null);
+  };
+
+  const handleDeleteNoteForever = (id: string) => {
+    if (!window.confirm("Delete this note forever? This cannot be undone.")) return;
+    setNotes(prev => prev.filter(n => n.id !== id));
+  };
+
+  const handleEmptyTrash = () => {
+    if (!window.confirm(`Permanently delete ${trashedNotes.length} note(s) in Trash? This cannot be undone.`)) return;
+    setNotes(prev => prev.filter(n => !isTrashed(n)));
+  };
+
+  const handleTrashRetentionChange = (days: number) => {
+    setTrashRetentionDays(days);
+    saveTrashRetentionDays(days);
+  };
+
+  const handleMoveNote = (noteId: string, folderId: string | null) => {
+    setNotes(prev => prev.map(n =>
+      n.id === noteId && n.folderId !== folderId ? { ...n, folderId, updatedAt: Date.now() } : n
+    ));
+  };
+
+  const handleOpenSearchResult = (noteId: string, range: TextRange | null) => {
+    setCurrentNoteId(noteId);
+    if (range) {
+      setShowPreview(false);
+      setSelectionRequest({ start: range[0], end: range[1], requestId: Date.now() });
+    }
+    if (window.innerWidth < 1024) setIsSidebarOpen(false);
+  };
+
+  // Handlers: Folder Management
+  const saveFolders = (changed: Folder[]) => {
+    putFolders(changed).catch(err => console.error("Failed to save folders", err));
+    broadcastFolderChanges(changed);
+  };
+
+  const handleCreateFolder = (parentId: string | null) => {
+    const name = window.prompt(parentId ? "Subfolder name (e.g. Chapter 3):" : "Folder name (e.g. Class 8 or Physics):");
+    if (!name?.trim()) return;
+    const folder: Folder = { id: uuidv4(), name: name.trim(), parentId, createdAt: Date.now() };
+    setFolders(prev => [...prev, folder]);
+    saveFolders([folder]);
+  };
+
+  const handleRenameFolder = (id: string) => {
+    const folder = folders.find(f => f.id === id);
+    if (!folder) return;
+    const name = window.prompt("Rename folder:", folder.name);
+    if (!name?.trim() || name.trim() === folder.name) return;
+    const renamed = { ...folder, name: name.trim() };
+    setFolders(prev => prev.map(f => f.id === id ? renamed : f));
+    saveFolders([renamed]);
+  };
+
+  const handleMoveFolder = (id: string, parentId: string | null) => {
+    const folder = folders.find(f => f.id === id);
+    if (!folder || folder.parentId === parentId || !canMoveFolder(folders, id, parentId)) return;
+    const moved = { ...folder, parentId };
+    setFolders(prev => prev.map(f => f.id === id ? moved : f));
+    saveFolders([moved]);
+  };
+
+  // Deleting a folder keeps its contents: notes and subfolders move up one level
+  const handleDeleteFolder = (id: string) => {
+    const folder = folders.find(f => f.id === id);
+    if (!folder) return;
+    if (!window.confirm(`Delete folder "${folder.name}"? Its notes and subfolders will be moved up one level.`)) return;
+
+    const children = folders.filter(f => f.parentId === id).map(f => ({ ...f, parentId: folder.parentId }));
+    setFolders(prev => prev
+      .filter(f => f.id !== id)
+      .map(f => children.find(c => c.id === f.id) || f)
+    );
+    saveFolders(children);
+    deleteFolder(id).catch(err => console.error("Failed to delete folder", err));
+    broadcastFolderChanges([], [id]);
+
+    setNotes(prev => prev.map(n => n.folderId === id ? { ...n, folderId: folder.parentId, updatedAt: Date.now() } : n));
+    if (selectedFolderId === id) setSelectedFolderId(folder.parentId);
+  };
+
+  // Handlers: Tab Sync
+  // Whichever side is discarded is kept in the note's history
+  const handleResolveSyncConflict = (choice: SyncConflictChoice) => {
+    const [conflict, ...rest] = syncConflicts;
+    setSyncConflicts(rest);
+    if (!conflict) return;
+
+    const { remote } = conflict;
+    const local = notesRef.current.find(n => n.id === remote.id) || conflict.local;
+    // Everything past this point is treated as a new edit on top of the other tab's version
+    markNotesSynced([remote]);
+
+    if (choice === 'theirs') {
+      saveSnapshot(local, 'sync').catch(err => console.error("Failed to save note snapshot", err));
+      setNotes(prev => prev.map(n => n.id === remote.id ? remote : n));
+      return;
+    }
+
+    if (choice === 'mine') {
+      saveSnapshot(remote, 'sync').catch(err => console.error("Failed to save note snapshot", err));
+    }
+    const copies: Note[] = choice === 'both'
+      ? [{ ...remote, id: uuidv4(), title: `${remote.title} (other tab)`, updatedAt: Date.now() }]
+      : [];
+    setNotes(prev => [
+      ...copies,
+      ...prev.map(n => n.id === local.id ? { ...local, updatedAt: Math.max(Date.now(), remote.updatedAt + 1) } : n)
+    ]);
+  };
+
+  // Handlers: Backup
+  const handleImported = ({ notes: imported, folders: newFolders, flashcards: newCards }: ImportResult) => {
+    const importedById = new Map(imported.map(n => [n.id, n]));
+    setNotes(prev => [
+      ...imported.filter(n => !prev.some(p => p.id === n.id)),
+      ...prev.map(n => importedById.get(n.id) || n)
+    ]);
+    setFolders(prev => [...prev, ...newFolders]);
+    saveFolders(newFolders);
+    const cardIds = new Set(newCards.map(c => c.id));
+    setFlashcards(prev => [...prev.filter(c => !cardIds.has(c.id)), ...newCards]);
   };
 
   // Handlers: Dictation
+  // Dictated text goes in at the caret; "undo that" takes back the last utterance if nothing else changed since
+  const applyDictation = (transcript: string, language: RecognitionLanguage) => {
+    const note = getCurrentNote();
+    if (!note) return;
+    const parts = parseUtterance(transcript);
+    if (parts.length === 1 && 'command' in parts[0] && parts[0].command === 'undo') {
+      const last = dictationUndoRef.current.pop();
+      if (last && last.noteId === note.id && last.after === note.content) {
+        handleUpdateNote(last.before);
+        setEditorSelection([last.caret, last.caret]);
+        setSelectionRequest({ start: last.caret, end: last.caret, requestId: Date.now(), keepScroll: true });
+      }
+      return;
+    }
+
+    const caret = editorSelection && editorSelection[1] <= note.content.length ? editorSelection[1] : note.content.length;
+    const edit = applyUtterance(note.content, caret, parts, language);
+    if (edit.content === note.content) return;
+    dictationUndoRef.current = [...dictationUndoRef.current, { noteId: note.id, before: note.content, after: edit.content, caret }].slice(-MAX_DICTATION_UNDO);
+    handleUpdateNote(edit.content);
+    setEditorSelection([edit.caret, edit.caret]);
+    setSelectionRequest({ start: edit.caret, end: edit.caret, requestId: Date.now(), keepScroll: true });
+  };
+
+  // Recognition callbacks outlive the render that created them
+  const handleDictationResultRef = useRef<(event: any, session: DictationSession) => void>(() => {});
+  handleDictationResultRef.current = (event, session) => {
+    let finalTranscript = '';
+    let interim = '';
+    for (let i = event.resultIndex; i < event.results.length; ++i) {
+      const result = event.results[i];
+      if (result.isFinal) {
+        finalTranscript += result[0].transcript + ' ';
+        // Some browsers report 0 when they don't measure confidence at all
+        const confidence = result[0].confidence;
+        session.heard = !confidence || confidence >= AUTO_SWITCH_CONFIDENCE;
+      } else {
+        interim += result[0].transcript;
+      }
+    }
+    setInterimTranscript(interim);
+    if (finalTranscript.trim()) applyDictation(finalTranscript, session.language);
+  };
+
+  const stopDictation = () => {
+    const session = dictationRef.current;
+    dictationRef.current = null;
+    session?.recognition.stop();
+    setIsRecording(false);
+    setInterimTranscript('');
+  };
+
+  // Recognition ends by itself after a pause, so it is restarted until dictation is stopped. In auto mode
+  // each utterance gets its own session, and the language flips when the last one wasn't understood.
+  const startRecognition = (language: RecognitionLanguage) => {
+    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+    const recognition = new SpeechRecognition();
+    const session: DictationSession = { recognition, language, heard: false };
+    recognition.continuous = dictationLanguageRef.current !== 'auto';
+    recognition.interimResults = true;
+    recognition.lang = language;
+
+    recognition.onresult = (event: any) => handleDictationResultRef.current(event, session);
+    recognition.onerror = (event: any) => {
+      if (event.error === 'no-speech' || event.error === 'aborted') return;
+      if (dictationRef.current !== session) return;
+      stopDictation();
+      if (event.error === 'not-allowed' || event.error === 'service-not-allowed') {
+        alert("Microphone access is blocked. Allow it in your browser's site settings to dictate.");
+      } else if (event.error === 'language-not-supported') {
+        alert("This browser can't recognise the selected dictation language.");
+      }
+    };
+    recognition.onend = () => {
+      if (dictationRef.current !== session) return;
+      setInterimTranscript('');
+      const selected = dictationLanguageRef.current;
+      startRecognition(selected !== 'auto' ? selected : session.heard ? language : otherRecognitionLanguage(language));
+    };
+
+    dictationRef.current = session;
+    recognition.start();
+  };
+
   const toggleRecording = () => {
     if (isRecording) {
-      recognitionRef.current?.stop();
-      setIsRecording(false);
+      stopDictation();
     } else {
-      if (!('webkitSpeechRecognition' in window)) {
+      if (!('SpeechRecognition' in window) && !('webkitSpeechRecognition' in window)) {
         alert("Web Speech API not supported in this browser.");
         return;
       }
-      const SpeechRecognition = (window as any).webkitSpeechRecognition;
-      const recognition = new SpeechRecognition();
-      recognition.continuous = true;
-      recognition.interimResults = true;
-      recognition.lang = 'en-US'; // Could toggle Bangla
-
-      recognition.onresult = (event: any) => {
-        let finalTranscript = '';
-        for (let i = event.resultIndex; i < event.results.length; ++i) {
-          if (event.results[i].isFinal) {
-            finalTranscript += event.results[i][0].transcript + ' ';
-          }
-        }
-        if (finalTranscript && currentNoteId) {
-          const note = getCurrentNote();
-          if (note) {
-             handleUpdateNote(note.content + finalTranscript);
-          }
-        }
-      };
-
-      recognition.onerror = () => setIsRecording(false);
-      recognition.start();
-      recognitionRef.current = recognition;
+      const note = getCurrentNote();
+      startRecognition(dictationLanguage !== 'auto' ? dictationLanguage : note && isMostlyBangla(note.content) ? 'bn-BD' : 'en-US');
       setIsRecording(true);
     }
   };
 
+  // A running session picks up the new language when it restarts
+  const handleDictationLanguageChange = (language: DictationLanguage) => {
+    setDictationLanguage(language);
+    saveDictationLanguage(language);
+    dictationLanguageRef.current = language;
+    dictationRef.current?.recognition.stop();
+  };
+
   // Handlers: Chat
-  const handleSendMessage = async (text: string, image?: string) => {
+  const handleSaveAiSettings = (settings: AiSettings) => {
+    saveAiSettings(settings);
+    if (settings.defaultVoice !== aiSettings.defaultVoice) {
+      setTtsState(prev => ({ ...prev, voice: settings.defaultVoice }));
+    }
+    setAiSettings(settings);
+    setIsSettingsOpen(false);
+  };
+
+  const chatMessages = chatThreads.find(t => t.id === activeThreadId)?.messages || [];
+
+  // Threads started without an open note live only in memory
+  const saveChatThread = (thread: ChatThread) => {
+    if ((thread.noteId || null) === chatNoteIdRef.current) {
+      setChatThreads(prev => [thread, ...prev.filter(t => t.id !== thread.id)].sort((a, b) => b.updatedAt - a.updatedAt));
+    }
+    if (thread.noteId) {
+      putChatThread({ ...thread, messages: thread.messages.filter(m => !m.isLoading) })
+        .catch(err => console.error("Failed to save chat thread", err));
+    }
+  };
+
+  const updateChatMessage = (threadId: string, messageId: string, changes: Partial<ChatMessage>) => {
+    setChatThreads(prev => prev.map(t => t.id !== threadId ? t : {
+      ...t,
+      messages: t.messages.map(m => m.id === messageId ? { ...m, ...changes } : m)
+    }));
+  };
+
+  const handleSendMessage = async (text: string, image?: string, options: ChatSendOptions = {}) => {
+    if (chatAbortRef.current) return; // One reply streams at a time
+    const { includeNote = true, actionLabel, historyText } = options;
     const newMessage: ChatMessage = {
       id: uuidv4(),
       role: 'user',
       text,
       image,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      actionLabel,
+      historyText
     };
-    setChatMessages(prev => [...prev, newMessage]);
+    // Placeholder the streamed reply is written into
+    const botMessage: ChatMessage = {
+      id: uuidv4(),
+      role: 'model',
+      text: '',
+      timestamp: Date.now(),
+      isLoading: true
+    };
+
+    // A retry replaces the failed question and reply instead of adding to them
+    const active = chatThreads.find(t => t.id === activeThreadId);
+    const failedIds = [failedChatRequest?.questionId, failedChatRequest?.replyId];
+    const previous = active && options.isRetry
+      ? { ...active, messages: active.messages.filter(m => !failedIds.includes(m.id)) }
+      : active;
+    setFailedChatRequest(null);
+    const thread: ChatThread = previous
+      ? { ...previous, messages: [...previous.messages, newMessage, botMessage], updatedAt: Date.now() }
+      : {
+          id: uuidv4(),
+          noteId: currentNoteId || '',
+          title: actionLabel || text.split('\n')[0].substring(0, 40) || 'New chat',
+          messages: [newMessage, botMessage],
+          createdAt: Date.now(),
+          updatedAt: Date.now()
+        };
+    saveChatThread(thread);
+    setActiveThreadId(thread.id);
     setIsChatLoading(true);
 
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    let question = newMessage;
+    let summary = previous?.summary;
+    const finish = (changes: Partial<ChatMessage>) => saveChatThread({
+      ...thread,
+      summary,
+      messages: [...thread.messages.slice(0, -2), question, { ...botMessage, ...changes, isLoading: false }],
+      updatedAt: Date.now()
+    });
+
+    let streamed = '';
     try {
-      // Build context from current note
+      // Older turns are folded into a running summary; if that fails only the recent ones go, and the meter says so
+      const split = splitHistory((previous?.messages || []).filter(m => m.text), previous?.summary);
+      let activeSummary = split.summary;
+      let trimmed = 0;
+      if (split.toSummarize.length > 0) {
+        try {
+          activeSummary = await summarizeMessages(activeSummary, split.toSummarize, controller.signal);
+          summary = activeSummary;
+        } catch (error) {
+          if (controller.signal.aborted) throw error;
+          console.warn("Couldn't summarize earlier messages", error);
+          trimmed = split.toSummarize.length;
+        }
+      }
+
       const currentNote = getCurrentNote();
-      const contextPrompt = currentNote ? `\n\nContext from current note:\n${currentNote.content}\n\nUser Question: ${text}` : text;
-      
-      const history = chatMessages.map(m => ({
-        role: m.role,
-        parts: [{ text: m.text }] // Simple history, usually enough for context
-      }));
+      const { prompt, history, stats } = buildChatRequest({
+        question: text,
+        note: currentNote && includeNote && currentNote.content.trim() ? currentNote.content : null,
+        focus: editorSelection?.[0],
+        summary: activeSummary,
+        recent: split.recent,
+        trimmed,
+        systemInstruction: aiSettings.systemInstruction
+      });
+      question = { ...newMessage, context: stats };
+      updateChatMessage(thread.id, newMessage.id, { context: stats });
 
-      const responseText = await sendMessageToGemini(history, contextPrompt, image);
-      
-      const botMessage: ChatMessage = {
-        id: uuidv4(),
-        role: 'model',
-        text: responseText,
-        timestamp: Date.now()
-      };
-      setChatMessages(prev => [...prev, botMessage]);
+      const responseText = await streamChat(
+        history,
+        prompt,
+        image,
+        (textSoFar) => {
+          streamed = textSoFar;
+          updateChatMessage(thread.id, botMessage.id, { text: textSoFar });
+        },
+        controller.signal
+      );
+      finish({ text: responseText, stopped: controller.signal.aborted });
     } catch (error) {
-      const errorMessage: ChatMessage = {
-        id: uuidv4(),
-        role: 'model',
-        text: "Sorry, I encountered an error. Please check your API key and connection.",
-        timestamp: Date.now()
-      };
-      setChatMessages(prev => [...prev, errorMessage]);
+      if (controller.signal.aborted) {
+        finish({ text: streamed, stopped: true });
+      } else {
+        const aiError = toAiError(error);
+        finish({ text: streamed, error: aiError.kind });
+        if (aiError.retryable) {
+          setFailedChatRequest({ questionId: newMessage.id, replyId: botMessage.id, text, image, options });
+        }
+      }
     } finally {
+      if (chatAbortRef.current === controller) chatAbortRef.current = null;
       setIsChatLoading(false);
     }
   };
 
+  const handleRetryMessage = () => {
+    if (!failedChatRequest) return;
+    const { text, image, options } = failedChatRequest;
+    handleSendMessage(text, image, { ...options, isRetry: true });
+  };
+
+  const handleNewChatThread = () => {
+    setActiveThreadId(null);
+  };
+
+  const handleRenameChatThread = (id: string, title: string) => {
+    const thread = chatThreads.find(t => t.id === id);
+    if (thread) saveChatThread({ ...thread, title });
+  };
+
+  const handleDeleteChatThread = (id: string) => {
+    const remaining = chatThreads.filter(t => t.id !== id);
+    setChatThreads(remaining);
+    if (activeThreadId === id) setActiveThreadId(remaining[0]?.id ?? null);
+    deleteChatThread(id).catch(err => console.error("Failed to delete chat thread", err));
+  };
+
+  // Keeps whatever has streamed in so far
+  const handleStopMessage = () => {
+    chatAbortRef.current?.abort();
+  };
+
+  // Handlers: AI answers into the note
+  const applyAnswerEdit = (edit: NoteEdit, message: string) => {
+    const note = getCurrentNote();
+    if (!note) return;
+    handleUpdateNote(edit.content);
+    setShowPreview(false);
+    setSelectionRequest({ start: edit.inserted[0], end: edit.inserted[1], requestId: Date.now() });
+    // Undo puts back only what the edit changed, so typing elsewhere in the note since is kept
+    const region = changedRegion(note.content, edit.content);
+    const currentContent = () => notesRef.current.find(n => n.id === note.id)?.content ?? '';
+    showUndoToast(message, () => {
+      setNotes(prev => prev.map(n => {
+        const content = n.id === note.id ? revertRegion(n.content, region) : null;
+        return content === null ? n : { ...n, content, title: titleFromContent(content), updatedAt: Date.now() };
+      }));
+      dismissToast();
+    }, () => revertRegion(currentContent(), region) !== null);
+  };
+
+  // Quick action answers go under the action's name, other answers under the question
+  const answerHeading = (message: ChatMessage) => {
+    const index = chatMessages.findIndex(m => m.id === message.id);
+    const question = chatMessages.slice(0, index).reverse().find(m => m.role === 'user');
+    return question?.actionLabel || question?.text.split('\n')[0].substring(0, 40).trim() || 'AI Notes';
+  };
+
+  const handleInsertAnswer = (message: ChatMessage, mode: AnswerInsertMode) => {
+    const note = getCurrentNote();
+    if (!note) return;
+    const answer = message.text.trim();
+
+    if (mode === 'replace') {
+      if (editorSelection && editorSelection[0] !== editorSelection[1]) {
+        setPendingReplace({ noteId: note.id, range: editorSelection, replacement: answer });
+      }
+    } else if (mode === 'append') {
+      const heading = window.prompt("Append under heading:", answerHeading(message));
+      if (heading === null) return;
+      applyAnswerEdit(appendUnderHeading(note.content, heading.trim() || 'AI Notes', answer), 'Answer appended to note');
+    } else {
+      const position = editorSelection ? editorSelection[1] : note.content.length;
+      applyAnswerEdit(insertAtCursor(note.content, position, answer), 'Answer inserted into note');
+    }
+  };
+
+  const handleInsertLectureNotes = (markdown: string) => {
+    const note = getCurrentNote();
+    if (!note) return;
+    setIsLecturePanelOpen(false);
+    applyAnswerEdit(insertAtCursor(note.content, note.content.length, markdown), 'Lecture notes added to note');
+  };
+
+  const handleAcceptReplace = () => {
+    const note = getCurrentNote();
+    if (note && pendingReplace && pendingReplace.noteId === note.id) {
+      const [start, end] = pendingReplace.range;
+      applyAnswerEdit(replaceRange(note.content, start, end, pendingReplace.replacement), 'Selection replaced');
+    }
+    setPendingReplace(null);
+  };
+
+  // Handlers: Quick Actions
+  const handleQuickAction = (action: QuickAction) => {
+    const note = getCurrentNote();
+    if (!note) return;
+    if (action.id === QUIZ_QUICK_ACTION_ID) {
+      setQuizPanel({ generateOnOpen: true });
+      return;
+    }
+    const selection = editorSelection && editorSelection[0] !== editorSelection[1]
+      ? note.content.slice(editorSelection[0], editorSelection[1])
+      : note.content;
+    const values = {
+      selection,
+      note: note.content,
+      title: note.title,
+      language: isMostlyBangla(note.content) ? 'Bangla' : 'English',
+      grade: String(loadGrade())
+    };
+    const prompt = expandPrompt(action.prompt, values);
+    // Later questions get the note afresh, so the copy pasted into this one isn't sent again with them
+    const noteStandIn = `[the note "${note.title}"]`;
+    const historyText = expandPrompt(action.prompt, {
+      ...values,
+      note: noteStandIn,
+      selection: selection === note.content ? noteStandIn : selection
+    });
+    setIsChatOpen(true);
+    handleSendMessage(prompt, undefined, {
+      includeNote: !usesVariable(action.prompt, 'note'),
+      actionLabel: action.label,
+      historyText: historyText !== prompt ? historyText : undefined
+    });
+  };
+
+  const handleSaveQuickActions = (actions: QuickAction[]) => {
+    setQuickActions(actions);
+    saveQuickActions(actions);
+    setIsQuickActionsEditorOpen(false);
+  };
+
+  // Handlers: Flashcards
+  const applyFlashcardChanges = (upserts: Flashcard[], deletes: string[] = []) => {
+    if (upserts.length === 0 && deletes.length === 0) return;
+    const deleted = new Set(deletes);
+    const updated = new Map(upserts.map(c => [c.id, c]));
+    setFlashcards(prev => [
+      ...prev.filter(c => !deleted.has(c.id)).map(c => updated.get(c.id) || c),
+      ...upserts.filter(c => !prev.some(p => p.id === c.id))
+    ]);
+    if (upserts.length > 0) putFlashcards(upserts).catch(err => console.error("Failed to save flashcards", err));
+    if (deletes.length > 0) deleteFlashcards(deletes).catch(err => console.error("Failed to delete flashcards", err));
+  };
+
   // Handlers: TTS
   const handleSpeak = () => {
     const note = getCurrentNote();
@@ -195,13 +980,7 @@ const App: React.FC = () => {
     const blob = new Blob(['\ufeff', htmlContent], {
       type: 'application/msword'
     });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `${note.title.replace(/\s+/g, '_')}.doc`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadBlob(blob, `${note.title.replace(/\s+/g, '_')}.doc`);
   };
 
   return (
@@ -209,14 +988,39 @@ const App: React.FC = () => {
       
       {/* Sidebar */}
       <Sidebar 
-        notes={notes}
+        notes={activeNotes}
+        trashedNotes={trashedNotes}
+        folders={folders}
         currentNoteId={currentNoteId}
+        selectedFolderId={selectedFolderId}
         onSelectNote={(id) => {
           setCurrentNoteId(id);
           if (window.innerWidth < 1024) setIsSidebarOpen(false);
         }}
-        onNewNote={handleNewNote}
+        onSelectFolder={setSelectedFolderId}
+        onNewNote={() => handleNewNote()}
+        onNewFromTemplate={() => setIsTemplatePickerOpen(true)}
         onDeleteNote={handleDeleteNote}
+        onRestoreNote={handleRestoreNote}
+        onDeleteNoteForever={handleDeleteNoteForever}
+        onEmptyTrash={handleEmptyTrash}
+        trashRetentionDays={trashRetentionDays}
+        onTrashRetentionChange={handleTrashRetentionChange}
+        onCreateFolder={handleCreateFolder}
+        onRenameFolder={handleRenameFolder}
+        onDeleteFolder={handleDeleteFolder}
+        onMoveNote={handleMoveNote}
+        onMoveFolder={handleMoveFolder}
+        searchQuery={searchQuery}
+        onSearchQueryChange={setSearchQuery}
+        searchResults={searchResults}
+        onOpenSearchResult={handleOpenSearchResult}
+        onOpenBackup={() => setIsBackupOpen(true)}
+        onOpenSettings={() => setIsSettingsOpen(true)}
+        dueCounts={dueCounts}
+        onReviewFlashcards={() => setFlashcardReview({ noteId: null })}
+        onOpenPapers={() => setIsPaperBuilderOpen(true)}
+        onOpenGrading={() => setIsGradingOpen(true)}
         isOpen={isSidebarOpen}
         toggleSidebar={() => setIsSidebarOpen(!isSidebarOpen)}
       />
@@ -243,6 +1047,43 @@ const App: React.FC = () => {
             >
               <i className="fa-solid fa-volume-high text-lg" />
             </button>
+            <button 
+              onClick={() => setIsHistoryOpen(true)}
+              disabled={!currentNoteId}
+              className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300 transition-colors disabled:opacity-40"
+              title="Version History"
+            >
+              <i className="fa-solid fa-clock-rotate-left text-lg" />
+            </button>
+            <button 
+              onClick={() => setIsLecturePanelOpen(true)}
+              disabled={!currentNoteId}
+              className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300 transition-colors disabled:opacity-40"
+              title="Record Lecture"
+            >
+              <i className="fa-solid fa-chalkboard-user text-lg" />
+            </button>
+            <button 
+              onClick={() => setQuizPanel({ generateOnOpen: false })}
+              disabled={!currentNoteId}
+              className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300 transition-colors disabled:opacity-40"
+              title="Quizzes"
+            >
+              <i className="fa-solid fa-list-check text-lg" />
+            </button>
+            <button
+              onClick={() => setFlashcardReview({ noteId: currentNoteId })}
+              disabled={!currentNoteId}
+              className="relative p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300 transition-colors disabled:opacity-40"
+              title="Flashcards"
+            >
+              <i className="fa-solid fa-layer-group text-lg" />
+              {currentNoteId && dueCounts[currentNoteId] > 0 && (
+                <span className="absolute top-0 right-0 min-w-[1rem] h-4 px-1 rounded-full bg-secondary text-white text-[10px] leading-4">
+                  {dueCounts[currentNoteId]}
+                </span>
+              )}
+            </button>
             <button 
               onClick={handleExport}
               className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300 transition-colors hidden sm:block"
@@ -270,12 +1111,24 @@ const App: React.FC = () => {
         <main className="flex-1 relative overflow-hidden">
           {currentNoteId ? (
             <Editor 
+              noteId={currentNoteId}
               content={getCurrentNote()?.content || ''}
               onChange={handleUpdateNote}
+              tags={getCurrentNote()?.tags || []}
+              onTagsChange={handleUpdateTags}
               isRecording={isRecording}
               toggleRecording={toggleRecording}
+              dictationLanguage={dictationLanguage}
+              onDictationLanguageChange={handleDictationLanguageChange}
+              interimTranscript={interimTranscript}
               showPreview={showPreview}
               togglePreview={() => setShowPreview(!showPreview)}
+              selectionRequest={selectionRequest}
+              onSelectionChange={setEditorSelection}
+              linkableNotes={activeNotes}
+              backlinks={backlinks}
+              onOpenLink={handleOpenLink}
+              onOpenNote={setCurrentNoteId}
             />
           ) : (
             <div className="h-full flex flex-col items-center justify-center text-gray-400 p-8 text-center">
@@ -284,17 +1137,19 @@ const App: React.FC = () => {
               </div>
               <h2 className="text-2xl font-bold text-gray-600 dark:text-gray-300 mb-2">Start Teaching Smarter</h2>
               <p className="max-w-md">Create a new note or select one from the sidebar to begin using AI tools, dictation, and TTS.</p>
-              <button onClick={handleNewNote} className="mt-6 text-primary font-medium hover:underline">Create Note</button>
+              <div className="mt-6 flex gap-6">
+                <button onClick={() => handleNewNote()} className="text-primary font-medium hover:underline">Create Note</button>
+                <button onClick={() => setIsTemplatePickerOpen(true)} className="text-primary font-medium hover:underline">Use a Template</button>
+              </div>
             </div>
           )}
 
           {/* Quick Actions Overlay */}
           {currentNoteId && (
             <QuickActions 
-              onAction={(prompt) => {
-                setIsChatOpen(true);
-                handleSendMessage(prompt);
-              }} 
+              actions={quickActions}
+              onAction={handleQuickAction}
+              onCustomize={() => setIsQuickActionsEditorOpen(true)}
             />
           )}
         </main>
@@ -305,10 +1160,154 @@ const App: React.FC = () => {
         isOpen={isChatOpen} 
         onClose={() => setIsChatOpen(false)}
         messages={chatMessages}
+        threads={chatThreads}
+        activeThreadId={activeThreadId}
+        onSelectThread={setActiveThreadId}
+        onNewThread={handleNewChatThread}
+        onRenameThread={handleRenameChatThread}
+        onDeleteThread={handleDeleteChatThread}
         onSendMessage={handleSendMessage}
+        onStop={handleStopMessage}
+        onInsertAnswer={currentNoteId ? handleInsertAnswer : undefined}
+        hasSelection={!!editorSelection && editorSelection[0] !== editorSelection[1]}
         isLoading={isChatLoading}
+        retryMessageId={failedChatRequest?.replyId ?? null}
+        onRetryMessage={handleRetryMessage}
+        providerLabel={describeProvider(aiSettings)}
+        onOpenSettings={() => setIsSettingsOpen(true)}
       />
 
+      {/* Version History */}
+      {isHistoryOpen && getCurrentNote() && (
+        <HistoryPanel
+          note={getCurrentNote()!}
+          onClose={() => setIsHistoryOpen(false)}
+          onRestore={handleRestoreVersion}
+        />
+      )}
+
+      {/* Replace Selection Preview */}
+      {pendingReplace && pendingReplace.noteId === currentNoteId && (
+        <ReplacePreviewDialog
+          original={getCurrentNote()?.content.slice(pendingReplace.range[0], pendingReplace.range[1]) || ''}
+          replacement={pendingReplace.replacement}
+          onAccept={handleAcceptReplace}
+          onReject={() => setPendingReplace(null)}
+        />
+      )}
+
+      {/* Quizzes */}
+      {quizPanel && getCurrentNote() && (
+        <QuizPanel
+          note={getCurrentNote()!}
+          generateOnOpen={quizPanel.generateOnOpen}
+          onClose={() => setQuizPanel(null)}
+        />
+      )}
+
+      {/* Lectures */}
+      {isLecturePanelOpen && getCurrentNote() && (
+        <LecturePanel
+          note={getCurrentNote()!}
+          onInsertNotes={handleInsertLectureNotes}
+          onClose={() => setIsLecturePanelOpen(false)}
+        />
+      )}
+
+      {/* Flashcards */}
+      {flashcardReview && (
+        <FlashcardReview
+          cards={flashcards.filter(c => flashcardReview.noteId
+            ? c.noteId === flashcardReview.noteId
+            : activeNotes.some(n => n.id === c.noteId))}
+          notes={activeNotes}
+          note={notes.find(n => n.id === flashcardReview.noteId)}
+          onUpdateCards={applyFlashcardChanges}
+          onDeleteCard={(id) => applyFlashcardChanges([], [id])}
+          onClose={() => setFlashcardReview(null)}
+        />
+      )}
+
+      {/* Exam Papers */}
+      {isPaperBuilderOpen && (
+        <PaperBuilder
+          notes={activeNotes}
+          initialNoteId={currentNoteId}
+          onClose={() => setIsPaperBuilderOpen(false)}
+        />
+      )}
+
+      {/* Grading */}
+      {isGradingOpen && <GradingPanel onClose={() => setIsGradingOpen(false)} />}
+
+      {/* Quick Actions Editor */}
+      {isQuickActionsEditorOpen && (
+        <QuickActionsEditor
+          actions={quickActions}
+          onSave={handleSaveQuickActions}
+          onClose={() => setIsQuickActionsEditorOpen(false)}
+        />
+      )}
+
+      {/* Templates */}
+      {isTemplatePickerOpen && (
+        <TemplatePicker
+          currentNote={getCurrentNote()}
+          onCreate={(content) => {
+            handleNewNote(content);
+            setIsTemplatePickerOpen(false);
+          }}
+          onClose={() => setIsTemplatePickerOpen(false)}
+        />
+      )}
+
+      {/* Backup & Restore */}
+      {isBackupOpen && (
+        <BackupDialog
+          notes={notes}
+          folders={folders}
+          onImported={handleImported}
+          onClose={() => setIsBackupOpen(false)}
+        />
+      )}
+
+      {/* Settings */}
+      {isSettingsOpen && (
+        <SettingsDialog
+          settings={aiSettings}
+          onSave={handleSaveAiSettings}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+
+      {/* Tab Sync Conflicts */}
+      {syncConflicts.length > 0 && (
+        <SyncConflictDialog
+          local={notes.find(n => n.id === syncConflicts[0].local.id) || syncConflicts[0].local}
+          remote={syncConflicts[0].remote}
+          remaining={syncConflicts.length - 1}
+          onResolve={handleResolveSyncConflict}
+        />
+      )}
+
+      {/* Save Failure Notice */}
+      {noteSaveFailed && (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 bg-red-600 text-white px-4 py-2 rounded-xl shadow-2xl text-sm">
+          <i className="fa-solid fa-triangle-exclamation" />
+          <span>Couldn't save your latest changes. Retrying in the background; keep this tab open.</span>
+        </div>
+      )}
+
+      {/* Undo Toast */}
+      {toast && (
+        <UndoToast
+          message={toast.message}
+          onUndo={toast.onUndo}
+          onDismiss={dismissToast}
+          canUndo={toast.canUndo ? toast.canUndo() : true}
+        />
+      )}
+
       {/* TTS Player Overlay */}
       {ttsState.isPlaying && (
         <TtsPlayer 
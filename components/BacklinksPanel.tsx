@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { Backlink } from '../services/links';
+
+interface BacklinksPanelProps {
+  backlinks: Backlink[];
+  onOpenNote: (id: string) => void;
+}
+
+const BacklinksPanel: React.FC<BacklinksPanelProps> = ({ backlinks, onOpenNote }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-darklighter">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-2 px-4 py-2 text-sm text-gray-500 dark:text-gray-400 hover:text-primary"
+      >
+        <i className={`fa-solid fa-chevron-right text-[10px] transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+        <i className="fa-solid fa-link" />
+        <span>Linked from {backlinks.length} {backlinks.length === 1 ? 'note' : 'notes'}</span>
+      </button>
+      {isExpanded && (
+        <div className="max-h-48 overflow-y-auto px-4 pb-3 space-y-1">
+          {backlinks.length === 0 ? (
+            <div className="text-xs text-gray-400 italic">
+              No other note links here yet. Type [[ and this note's title in another note to link it.
+            </div>
+          ) : (
+            backlinks.map(({ note, snippet }) => (
+              <button
+                key={note.id}
+                onClick={() => onOpenNote(note.id)}
+                className="w-full text-left p-2 rounded-lg hover:bg-white dark:hover:bg-gray-800 transition-colors"
+              >
+                <div className="text-sm font-medium text-gray-700 dark:text-gray-200 truncate">{note.title}</div>
+                <div className="text-xs text-gray-500 truncate">{snippet}</div>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BacklinksPanel;
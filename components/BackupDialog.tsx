@@ -0,0 +1,213 @@
+import React, { useRef, useState } from 'react';
+import { Note, Folder } from '../types';
+import {
+  exportWorkspace,
+  backupFilename,
+  parseArchive,
+  planImport,
+  applyImport,
+  ImportPlan,
+  ImportResult,
+  ConflictResolution
+} from '../services/backup';
+import { downloadBlob } from '../services/fileUtils';
+
+interface BackupDialogProps {
+  notes: Note[];
+  folders: Folder[];
+  onImported: (result: ImportResult) => void;
+  onClose: () => void;
+}
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  'merge': 'Merge (keep newest)',
+  'overwrite': 'Overwrite with backup',
+  'keep-both': 'Keep both',
+};
+
+const formatTime = (ts: number) => new Date(ts).toLocaleString();
+
+const BackupDialog: React.FC<BackupDialogProps> = ({ notes, folders, onImported, onClose }) => {
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const blob = await exportWorkspace(notes, folders);
+      downloadBlob(blob, backupFilename());
+      setMessage(`Exported ${notes.length} notes.`);
+    } catch (err) {
+      console.error("Export failed", err);
+      setError("Export failed. Please try again.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setMessage(null);
+    try {
+      const archive = parseArchive(await file.text());
+      const nextPlan = planImport(archive, notes);
+      setPlan(nextPlan);
+      setResolutions(Object.fromEntries(nextPlan.conflicts.map(c => [c.incoming.id, 'merge' as ConflictResolution])));
+    } catch (err) {
+      setPlan(null);
+      setError(err instanceof Error ? err.message : "Could not read this file.");
+    }
+  };
+
+  const setAllResolutions = (resolution: ConflictResolution) => {
+    if (!plan) return;
+    setResolutions(Object.fromEntries(plan.conflicts.map(c => [c.incoming.id, resolution])));
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      const result = await applyImport(plan, resolutions, folders);
+      onImported(result);
+      setMessage(`Imported ${result.notes.length} notes and ${result.folders.length} folders.`);
+      setPlan(null);
+    } catch (err) {
+      console.error("Import failed", err);
+      setError("Import failed. Your existing notes were not changed.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-darklighter rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <i className="fa-solid fa-box-archive text-primary" />
+            <h2 className="font-bold">Backup & Restore</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full">
+            <i className="fa-solid fa-times text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {/* Actions */}
+          <div className="grid sm:grid-cols-2 gap-3">
+            <button
+              onClick={handleExport}
+              disabled={isBusy}
+              className="flex flex-col items-start gap-1 p-4 rounded-xl border border-gray-200 dark:border-gray-700 hover:border-primary transition-colors text-left disabled:opacity-50"
+            >
+              <span className="font-medium"><i className="fa-solid fa-download mr-2 text-primary" />Export workspace</span>
+              <span className="text-xs text-gray-500">All notes, folders, chats, quizzes, flashcards, exam papers, grading sessions with their answer scripts, translations, lecture recordings and images.</span>
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isBusy}
+              className="flex flex-col items-start gap-1 p-4 rounded-xl border border-gray-200 dark:border-gray-700 hover:border-primary transition-colors text-left disabled:opacity-50"
+            >
+              <span className="font-medium"><i className="fa-solid fa-upload mr-2 text-secondary" />Import backup</span>
+              <span className="text-xs text-gray-500">Conflicts are shown before anything changes.</span>
+            </button>
+            <input type="file" ref={fileInputRef} className="hidden" accept=".json,application/json" onChange={handleFileChange} />
+          </div>
+
+          {error && (
+            <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-300 text-sm">
+              <i className="fa-solid fa-triangle-exclamation mr-2" />{error}
+            </div>
+          )}
+          {message && (
+            <div className="p-3 rounded-lg bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300 text-sm">
+              <i className="fa-solid fa-check mr-2" />{message}
+            </div>
+          )}
+
+          {/* Import Review */}
+          {plan && (
+            <div className="space-y-3">
+              <div className="text-sm text-gray-600 dark:text-gray-300">
+                Backup from <span className="font-medium">{formatTime(plan.archive.exportedAt)}</span>:{' '}
+                {plan.newNotes.length} new, {plan.unchangedCount} unchanged, {plan.conflicts.length} in conflict.
+                {plan.archive.skipped > 0 && ` ${plan.archive.skipped} damaged entries will be left out.`}
+              </div>
+
+              {plan.conflicts.length > 0 && (
+                <>
+                  <div className="flex items-center gap-2 text-xs">
+                    <span className="text-gray-500">Apply to all:</span>
+                    {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(r => (
+                      <button
+                        key={r}
+                        onClick={() => setAllResolutions(r)}
+                        className="px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700"
+                      >
+                        {RESOLUTION_LABELS[r]}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="border border-gray-200 dark:border-gray-700 rounded-xl divide-y divide-gray-200 dark:divide-gray-700">
+                    {plan.conflicts.map(({ existing, incoming }) => (
+                      <div key={incoming.id} className="p-3 flex flex-col sm:flex-row sm:items-center gap-2">
+                        <div className="flex-1 min-w-0 text-sm">
+                          <div className="font-medium truncate">{existing.title}</div>
+                          <div className="text-xs text-gray-500">
+                            This device: {formatTime(existing.updatedAt)}
+                            {existing.updatedAt >= incoming.updatedAt ? ' (newer)' : ''}
+                            {' • '}Backup: {formatTime(incoming.updatedAt)}
+                            {incoming.updatedAt > existing.updatedAt ? ' (newer)' : ''}
+                          </div>
+                        </div>
+                        <select
+                          value={resolutions[incoming.id]}
+                          onChange={(e) => setResolutions(prev => ({ ...prev, [incoming.id]: e.target.value as ConflictResolution }))}
+                          className="text-sm bg-gray-100 dark:bg-gray-800 rounded-lg px-2 py-1"
+                        >
+                          {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(r => (
+                            <option key={r} value={r}>{RESOLUTION_LABELS[r]}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setPlan(null)} className="px-4 py-2 text-sm rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800">
+                  Cancel
+                </button>
+                <button
+                  onClick={handleImport}
+                  disabled={isBusy || (plan.newNotes.length === 0 && plan.conflicts.length === 0)}
+                  className="px-4 py-2 text-sm bg-primary text-white rounded-lg hover:bg-primary/90 disabled:opacity-50"
+                >
+                  {isBusy ? <i className="fa-solid fa-circle-notch fa-spin" /> : 'Import'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupDialog;
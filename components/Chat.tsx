@@ -2,18 +2,76 @@ import React, { useRef, useEffect, useState } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import rehypeKatex from 'rehype-katex';
-import { ChatMessage } from '../types';
+import { ChatMessage, ChatThread, ChatContextStats } from '../types';
+import { AnswerInsertMode } from '../services/noteEdits';
+import { AI_ERROR_INFO, isSettingsProblem } from '../services/aiErrors';
+import { CONTEXT_COMFORTABLE_TOKENS } from '../constants';
 
 interface ChatProps {
   isOpen: boolean;
   messages: ChatMessage[];
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  onSelectThread: (id: string) => void;
+  onNewThread: () => void;
+  onRenameThread: (id: string, title: string) => void;
+  onDeleteThread: (id: string) => void;
   onSendMessage: (text: string, image?: string) => void;
+  onStop: () => void;
+  onInsertAnswer?: (message: ChatMessage, mode: AnswerInsertMode) => void; // Only while a note is open
+  hasSelection: boolean;
   isLoading: boolean;
+  retryMessageId: string | null; // Failed reply that can be sent again
+  onRetryMessage: () => void;
+  providerLabel: string;
+  onOpenSettings: () => void;
   onClose: () => void;
 }
 
-const Chat: React.FC<ChatProps> = ({ isOpen, messages, onSendMessage, isLoading, onClose }) => {
+const INSERT_ACTIONS: { mode: AnswerInsertMode; label: string; icon: string }[] = [
+  { mode: 'cursor', label: 'Insert at cursor', icon: 'fa-arrow-right-to-bracket' },
+  { mode: 'append', label: 'Append under heading', icon: 'fa-paragraph' },
+  { mode: 'replace', label: 'Replace selection', icon: 'fa-right-left' },
+];
+
+const formatTokens = (tokens: number) => tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const describeContext = (context: ChatContextStats) => [
+  context.noteSections
+    ? context.noteSections.sent < context.noteSections.total
+      ? `Note: ${context.noteSections.sent} of ${context.noteSections.total} sections, picked for this question`
+      : 'Note: all of it'
+    : 'Note: not included',
+  `Earlier messages: ${context.recentMessages} sent in full`,
+  ...(context.summarizedMessages > 0 ? [`${context.summarizedMessages} older messages sent as a summary`] : []),
+  ...(context.trimmedMessages ? [`${context.trimmedMessages} older messages left out, since they couldn't be summarized`] : []),
+].join('\n');
+
+const formatThreadTime = (ts: number) =>
+  new Date(ts).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const Chat: React.FC<ChatProps> = ({
+  isOpen,
+  messages,
+  threads,
+  activeThreadId,
+  onSelectThread,
+  onNewThread,
+  onRenameThread,
+  onDeleteThread,
+  onSendMessage,
+  onStop,
+  onInsertAnswer,
+  hasSelection,
+  isLoading,
+  retryMessageId,
+  onRetryMessage,
+  providerLabel,
+  onOpenSettings,
+  onClose
+}) => {
   const [input, setInput] = useState('');
+  const [isThreadListOpen, setIsThreadListOpen] = useState(false);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -31,6 +89,20 @@ const Chat: React.FC<ChatProps> = ({ isOpen, messages, onSendMessage, isLoading,
     setSelectedImage(null);
   };
 
+  const activeThread = threads.find(t => t.id === activeThreadId);
+  // What went with the latest question, so the teacher can see when a chat or note is getting heavy
+  const lastContext = [...messages].reverse().find(m => m.context)?.context;
+  const contextLoad = lastContext ? Math.min(1, lastContext.tokens / CONTEXT_COMFORTABLE_TOKENS) : 0;
+
+  const handleRename = (thread: ChatThread) => {
+    const title = window.prompt("Rename conversation:", thread.title);
+    if (title?.trim()) onRenameThread(thread.id, title.trim());
+  };
+
+  const handleDelete = (thread: ChatThread) => {
+    if (window.confirm(`Delete the conversation "${thread.title}"?`)) onDeleteThread(thread.id);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -73,10 +145,15 @@ const Chat: React.FC<ChatProps> = ({ isOpen, messages, onSendMessage, isLoading,
             </div>
             <div>
               <h2 className="font-bold text-sm">AI Teacher</h2>
-              <div className="flex items-center gap-1">
+              <button
+                onClick={onOpenSettings}
+                className="flex items-center gap-1 text-xs text-gray-500 hover:text-primary"
+                title="AI settings"
+              >
                 <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></span>
-                <span className="text-xs text-gray-500">Online • gemini-3</span>
-              </div>
+                <span>Online • {providerLabel}</span>
+                <i className="fa-solid fa-chevron-down text-[10px]" />
+              </button>
             </div>
           </div>
           <button onClick={onClose} className="p-2 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full transition-colors">
@@ -84,6 +161,64 @@ const Chat: React.FC<ChatProps> = ({ isOpen, messages, onSendMessage, isLoading,
           </button>
         </div>
 
+        {/* Threads */}
+        <div className="border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-darklighter">
+          <div className="flex items-center gap-2 px-4 py-2">
+            <button
+              onClick={() => setIsThreadListOpen(!isThreadListOpen)}
+              className="flex-1 min-w-0 flex items-center gap-2 text-sm text-left text-gray-600 dark:text-gray-300 hover:text-primary"
+            >
+              <i className="fa-regular fa-comments text-gray-400" />
+              <span className="truncate">{activeThread?.title || 'New chat'}</span>
+              {threads.length > 0 && <span className="text-xs text-gray-400">({threads.length})</span>}
+              <i className={`fa-solid fa-chevron-down text-xs transition-transform ${isThreadListOpen ? 'rotate-180' : ''}`} />
+            </button>
+            <button
+              onClick={() => { onNewThread(); setIsThreadListOpen(false); }}
+              disabled={isLoading}
+              className="p-1.5 text-gray-400 hover:text-primary disabled:opacity-50 transition-colors"
+              title="New Chat"
+            >
+              <i className="fa-solid fa-pen-to-square" />
+            </button>
+          </div>
+          {isThreadListOpen && (
+            <div className="max-h-56 overflow-y-auto px-2 pb-2">
+              {threads.length === 0 && (
+                <div className="text-xs text-gray-400 italic px-2 py-1">No saved conversations for this note yet</div>
+              )}
+              {threads.map(thread => (
+                <div
+                  key={thread.id}
+                  onClick={() => { if (!isLoading) { onSelectThread(thread.id); setIsThreadListOpen(false); } }}
+                  className={`group flex items-center gap-2 p-2 rounded-lg text-sm cursor-pointer transition-colors ${thread.id === activeThreadId ? 'bg-primary/10 text-primary' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="truncate font-medium">{thread.title}</div>
+                    <div className="text-xs text-gray-400">{formatThreadTime(thread.updatedAt)} • {thread.messages.length} messages</div>
+                  </div>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); handleRename(thread); }}
+                    disabled={isLoading}
+                    className="lg:opacity-0 lg:group-hover:opacity-100 p-1 text-gray-400 hover:text-primary"
+                    title="Rename"
+                  >
+                    <i className="fa-solid fa-pen text-xs" />
+                  </button>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); handleDelete(thread); }}
+                    disabled={isLoading}
+                    className="lg:opacity-0 lg:group-hover:opacity-100 p-1 text-gray-400 hover:text-red-500"
+                    title="Delete"
+                  >
+                    <i className="fa-solid fa-trash-can text-xs" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
         {/* Messages */}
         <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-gray-50/30 dark:bg-black/20">
           {messages.length === 0 && (
@@ -95,37 +230,107 @@ const Chat: React.FC<ChatProps> = ({ isOpen, messages, onSendMessage, isLoading,
           
           {messages.map((msg) => (
             <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-              <div className={`max-w-[85%] rounded-2xl px-4 py-3 shadow-sm ${
-                msg.role === 'user' 
-                  ? 'bg-primary text-white rounded-br-none' 
-                  : 'bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-bl-none'
-              }`}>
-                {msg.image && (
-                   <img src={`data:image/jpeg;base64,${msg.image}`} alt="User upload" className="max-w-full h-auto rounded-lg mb-2 border border-white/20" />
-                )}
-                <div className={`prose text-sm ${msg.role === 'user' ? 'prose-invert text-white' : 'dark:prose-invert'}`}>
-                   <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeKatex]}>
-                     {msg.text}
-                   </ReactMarkdown>
+              {msg.isLoading && !msg.text ? (
+                <div className="bg-white dark:bg-gray-800 rounded-2xl rounded-bl-none px-4 py-3 border border-gray-200 dark:border-gray-700 flex gap-1 items-center">
+                  <span className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></span>
+                  <span className="w-2 h-2 bg-gray-400 rounded-full animate-bounce delay-100"></span>
+                  <span className="w-2 h-2 bg-gray-400 rounded-full animate-bounce delay-200"></span>
                 </div>
-              </div>
+              ) : (
+                <div className={`max-w-[85%] rounded-2xl px-4 py-3 shadow-sm ${
+                  msg.role === 'user' 
+                    ? 'bg-primary text-white rounded-br-none' 
+                    : 'bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-bl-none'
+                }`}>
+                  {msg.image && (
+                     <img src={`data:image/jpeg;base64,${msg.image}`} alt="User upload" className="max-w-full h-auto rounded-lg mb-2 border border-white/20" />
+                  )}
+                  {msg.actionLabel && (
+                    <div className="text-xs font-semibold mb-1 opacity-80">
+                      <i className="fa-solid fa-bolt mr-1" />{msg.actionLabel}
+                    </div>
+                  )}
+                  <div className={`prose text-sm ${msg.role === 'user' ? 'prose-invert text-white' : 'dark:prose-invert'} ${msg.actionLabel ? 'line-clamp-6' : ''}`}>
+                     <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeKatex]}>
+                       {msg.text}
+                     </ReactMarkdown>
+                  </div>
+                  {msg.isLoading && (
+                    <span className="inline-block w-2 h-4 bg-primary/60 animate-pulse align-middle" />
+                  )}
+                  {msg.error && (
+                    <div className={`text-sm ${msg.text ? 'mt-2 pt-2 border-t border-gray-100 dark:border-gray-700' : ''}`}>
+                      <div className="font-medium text-red-600 dark:text-red-400">
+                        <i className="fa-solid fa-triangle-exclamation mr-1" />{AI_ERROR_INFO[msg.error].title}
+                      </div>
+                      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{AI_ERROR_INFO[msg.error].guidance}</p>
+                      <div className="mt-2 flex gap-2">
+                        {msg.id === retryMessageId && (
+                          <button
+                            onClick={onRetryMessage}
+                            disabled={isLoading}
+                            className="px-2 py-1 rounded-lg text-xs bg-primary/10 text-primary hover:bg-primary/20 disabled:opacity-50"
+                          >
+                            <i className="fa-solid fa-rotate-right mr-1" />Try again
+                          </button>
+                        )}
+                        {isSettingsProblem(msg.error) && (
+                          <button
+                            onClick={onOpenSettings}
+                            className="px-2 py-1 rounded-lg text-xs bg-gray-100 dark:bg-gray-700 hover:text-primary"
+                          >
+                            <i className="fa-solid fa-gear mr-1" />Settings
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                  {msg.stopped && (
+                    <div className="mt-1 text-xs text-gray-400 italic">
+                      <i className="fa-solid fa-circle-stop mr-1" />Stopped
+                    </div>
+                  )}
+                  {msg.role === 'model' && !msg.isLoading && msg.text && onInsertAnswer && (
+                    <div className="mt-2 pt-2 border-t border-gray-100 dark:border-gray-700 flex gap-1">
+                      {INSERT_ACTIONS.map(action => (
+                        <button
+                          key={action.mode}
+                          onClick={() => onInsertAnswer(msg, action.mode)}
+                          disabled={action.mode === 'replace' && !hasSelection}
+                          className="p-1.5 rounded-lg text-xs text-gray-400 hover:text-primary hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                          title={action.mode === 'replace' && !hasSelection ? 'Select text in the note first' : action.label}
+                        >
+                          <i className={`fa-solid ${action.icon}`} />
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           ))}
-          
-          {isLoading && (
-            <div className="flex justify-start">
-               <div className="bg-white dark:bg-gray-800 rounded-2xl rounded-bl-none px-4 py-3 border border-gray-200 dark:border-gray-700 flex gap-1 items-center">
-                 <span className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></span>
-                 <span className="w-2 h-2 bg-gray-400 rounded-full animate-bounce delay-100"></span>
-                 <span className="w-2 h-2 bg-gray-400 rounded-full animate-bounce delay-200"></span>
-               </div>
-            </div>
-          )}
           <div ref={messagesEndRef} />
         </div>
 
         {/* Input Area */}
         <div className="p-4 border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-darklighter">
+          {lastContext && (
+            <div className="flex items-center gap-2 mb-2 text-xs text-gray-400" title={describeContext(lastContext)}>
+              <i className="fa-solid fa-layer-group" />
+              <div className="w-16 h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${contextLoad < 0.5 ? 'bg-green-500' : contextLoad < 1 ? 'bg-amber-500' : 'bg-red-500'}`}
+                  style={{ width: `${Math.max(4, contextLoad * 100)}%` }}
+                />
+              </div>
+              <span>≈{formatTokens(lastContext.tokens)} tokens sent</span>
+              {lastContext.noteSections && lastContext.noteSections.sent < lastContext.noteSections.total && (
+                <span>• {lastContext.noteSections.sent}/{lastContext.noteSections.total} note sections</span>
+              )}
+              {lastContext.summarizedMessages > 0 && <span>• older chat summarized</span>}
+              {!!lastContext.trimmedMessages && <span className="text-amber-600 dark:text-amber-400">• history trimmed</span>}
+            </div>
+          )}
           {selectedImage && (
             <div className="flex items-center gap-2 mb-2 p-2 bg-gray-100 dark:bg-gray-800 rounded-lg">
                <span className="text-xs text-gray-500 truncate flex-1">Image attached</span>
@@ -159,13 +364,23 @@ const Chat: React.FC<ChatProps> = ({ isOpen, messages, onSendMessage, isLoading,
               rows={1}
             />
             
-            <button 
-              onClick={handleSend}
-              disabled={isLoading || (!input.trim() && !selectedImage)}
-              className="p-3 bg-primary text-white rounded-xl hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-md"
-            >
-              <i className="fa-solid fa-paper-plane" />
-            </button>
+            {isLoading ? (
+              <button 
+                onClick={onStop}
+                className="p-3 bg-red-500 text-white rounded-xl hover:bg-red-600 transition-all shadow-md"
+                title="Stop generating"
+              >
+                <i className="fa-solid fa-stop" />
+              </button>
+            ) : (
+              <button 
+                onClick={handleSend}
+                disabled={!input.trim() && !selectedImage}
+                className="p-3 bg-primary text-white rounded-xl hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-md"
+              >
+                <i className="fa-solid fa-paper-plane" />
+              </button>
+            )}
           </div>
         </div>
       </div>
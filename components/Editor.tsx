@@ -1,36 +1,274 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import rehypeKatex from 'rehype-katex';
+import TagInput from './TagInput';
+import LinkAutocomplete from './LinkAutocomplete';
+import BacklinksPanel from './BacklinksPanel';
+import SelectionMenu from './SelectionMenu';
+import ParallelView from './ParallelView';
+import { EditorSelectionRequest, Note } from '../types';
+import { selectAndReveal, getCaretCoordinates } from '../services/textareaUtils';
+import { TextRange } from '../services/search';
+import { RewriteAction, rewriteSelection, loadGrade, saveGrade } from '../services/rewrite';
+import { DictationLanguage, DICTATION_LANGUAGES } from '../services/dictation';
+import { Backlink, findNoteByTitle, getLinkQueryAtCaret, linkTitle, parseLinkHref, toMarkdownLinks } from '../services/links';
+
+const MAX_LINK_SUGGESTIONS = 8;
+const SELECTION_MENU_WIDTH = 360;
+const SELECTION_MENU_HEIGHT = 48;
 
 interface EditorProps {
+  noteId: string;
   content: string;
   onChange: (value: string) => void;
+  tags: string[];
+  onTagsChange: (tags: string[]) => void;
   isRecording: boolean;
   toggleRecording: () => void;
+  dictationLanguage: DictationLanguage;
+  onDictationLanguageChange: (language: DictationLanguage) => void;
+  interimTranscript: string; // Words still being recognised, shown at the caret
   showPreview: boolean;
   togglePreview: () => void;
+  selectionRequest?: EditorSelectionRequest | null;
+  onSelectionChange: (range: TextRange) => void;
+  linkableNotes: Note[]; // Includes this note, so links to itself resolve
+  backlinks: Backlink[];
+  onOpenLink: (title: string) => void;
+  onOpenNote: (id: string) => void;
 }
 
 const Editor: React.FC<EditorProps> = ({ 
+  noteId,
   content, 
   onChange, 
+  tags,
+  onTagsChange,
   isRecording, 
   toggleRecording,
+  dictationLanguage,
+  onDictationLanguageChange,
+  interimTranscript,
   showPreview,
-  togglePreview
+  togglePreview,
+  selectionRequest,
+  onSelectionChange,
+  linkableNotes,
+  backlinks,
+  onOpenLink,
+  onOpenNote
 }) => {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const contentRef = useRef(content);
+  contentRef.current = content;
+  const [isParallel, setIsParallel] = useState(false);
+
+  // [[link]] autocomplete
+  const [linkQuery, setLinkQuery] = useState<{ query: string; start: number } | null>(null);
+  const [linkPosition, setLinkPosition] = useState({ top: 0, left: 0 });
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+
+  const suggestions = useMemo(() => {
+    if (!linkQuery) return [];
+    const q = linkQuery.query.trim().toLowerCase();
+    return linkableNotes
+      .filter(n => n.id !== noteId && linkTitle(n).toLowerCase().includes(q))
+      .slice(0, MAX_LINK_SUGGESTIONS);
+  }, [linkQuery, linkableNotes, noteId]);
+
+  const updateLinkQuery = (textarea: HTMLTextAreaElement) => {
+    const caret = textarea.selectionStart;
+    const query = textarea.selectionEnd === caret ? getLinkQueryAtCaret(textarea.value, caret) : null;
+    setLinkQuery(query);
+    if (query) {
+      const coords = getCaretCoordinates(textarea, caret);
+      setLinkPosition({ top: coords.top + coords.height, left: Math.min(coords.left, textarea.clientWidth - 260) });
+      setActiveSuggestion(0);
+    }
+  };
+
+  const insertLink = (note: Note) => {
+    const textarea = textareaRef.current;
+    if (!textarea || !linkQuery) return;
+    const caret = textarea.selectionStart;
+    // Swallow a "]]" that is already right after the caret
+    const after = content.slice(caret).startsWith(']]') ? caret + 2 : caret;
+    const link = `[[${linkTitle(note)}]]`;
+    onChange(content.slice(0, linkQuery.start) + link + content.slice(after));
+    setLinkQuery(null);
+    const nextCaret = linkQuery.start + link.length;
+    requestAnimationFrame(() => textarea.setSelectionRange(nextCaret, nextCaret));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (rewrite && (e.key === 'Enter' || e.key === 'Escape')) {
+      e.preventDefault();
+      if (e.key === 'Enter') closeRewrite();
+      else rejectRewrite();
+      return;
+    }
+    if (!linkQuery || suggestions.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveSuggestion(i => (i + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveSuggestion(i => (i - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insertLink(suggestions[activeSuggestion]);
+    } else if (e.key === 'Escape') {
+      setLinkQuery(null);
+    }
+  };
+
+  // Selection rewriting: the result replaces the selection right away and stays
+  // selected until it is accepted or rejected
+  const [selectionMenu, setSelectionMenu] = useState<{ start: number; end: number; top: number; left: number } | null>(null);
+  const [rewrite, setRewrite] = useState<{ start: number; original: string; replacement: string } | null>(null);
+  const [busyAction, setBusyAction] = useState<RewriteAction | null>(null);
+  const [rewriteError, setRewriteError] = useState<string | null>(null);
+  const [grade, setGrade] = useState(loadGrade);
+  const rewriteAbortRef = useRef<AbortController | null>(null);
+
+  const showSelectionMenu = (textarea: HTMLTextAreaElement, start: number, end: number) => {
+    const below = getCaretCoordinates(textarea, end);
+    const top = below.top + below.height + SELECTION_MENU_HEIGHT < textarea.clientHeight
+      ? below.top + below.height + 4
+      : getCaretCoordinates(textarea, start).top - SELECTION_MENU_HEIGHT;
+    const left = Math.max(8, Math.min(below.left, textarea.clientWidth - SELECTION_MENU_WIDTH));
+    setSelectionMenu({ start, end, top: Math.max(0, top), left });
+  };
+
+  const handleSelect = (textarea: HTMLTextAreaElement) => {
+    const { selectionStart: start, selectionEnd: end } = textarea;
+    onSelectionChange([start, end]);
+    if (busyAction || rewrite) return;
+    setRewriteError(null);
+    if (end > start && textarea.value.slice(start, end).trim()) {
+      showSelectionMenu(textarea, start, end);
+    } else {
+      setSelectionMenu(null);
+    }
+  };
+
+  const runRewrite = async (action: RewriteAction) => {
+    if (!selectionMenu) return;
+    const { start, end } = selectionMenu;
+    const original = content.slice(start, end);
+    const controller = new AbortController();
+    rewriteAbortRef.current = controller;
+    setBusyAction(action);
+    setRewriteError(null);
+
+    try {
+      const replacement = await rewriteSelection(action, original, grade, controller.signal);
+      if (controller.signal.aborted) return;
+      const current = contentRef.current;
+      onChange(current.slice(0, start) + replacement + current.slice(end));
+      setRewrite({ start, original, replacement });
+      const textarea = textareaRef.current;
+      requestAnimationFrame(() => {
+        if (!textarea) return;
+        textarea.setSelectionRange(start, start + replacement.length);
+        showSelectionMenu(textarea, start, start + replacement.length);
+      });
+    } catch (err) {
+      if (!controller.signal.aborted) setRewriteError("Couldn't rewrite the selection. Check your connection and API key.");
+    } finally {
+      if (rewriteAbortRef.current === controller) rewriteAbortRef.current = null;
+      setBusyAction(null);
+    }
+  };
+
+  const closeRewrite = () => {
+    setRewrite(null);
+    setSelectionMenu(null);
+  };
+
+  const rejectRewrite = () => {
+    if (!rewrite) return;
+    const { start, original, replacement } = rewrite;
+    const end = start + replacement.length;
+    if (content.slice(start, end) === replacement) {
+      onChange(content.slice(0, start) + original + content.slice(end));
+      const textarea = textareaRef.current;
+      requestAnimationFrame(() => textarea?.setSelectionRange(start, start + original.length));
+    }
+    closeRewrite();
+  };
+
+  const handleGradeChange = (value: number) => {
+    setGrade(value);
+    saveGrade(value);
+  };
+
+  // The text can still change from outside (switching notes, dictation, another tab)
+  useEffect(() => {
+    if (rewriteAbortRef.current) {
+      rewriteAbortRef.current.abort();
+      setSelectionMenu(null);
+    }
+    if (rewrite && content.slice(rewrite.start, rewrite.start + rewrite.replacement.length) !== rewrite.replacement) {
+      closeRewrite();
+    }
+  }, [content]);
+
+  useEffect(() => () => rewriteAbortRef.current?.abort(), []);
+
+  const previewContent = useMemo(() => toMarkdownLinks(content), [content]);
+
+  // Jump to a requested position, e.g. a search match
+  useEffect(() => {
+    if (!selectionRequest) return;
+    if (isParallel) {
+      setIsParallel(false);
+      requestAnimationFrame(() => textareaRef.current && selectAndReveal(textareaRef.current, selectionRequest.start, selectionRequest.end));
+      return;
+    }
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    if (selectionRequest.keepScroll) {
+      textarea.focus({ preventScroll: true });
+      textarea.setSelectionRange(selectionRequest.start, selectionRequest.end);
+    } else {
+      selectAndReveal(textarea, selectionRequest.start, selectionRequest.end);
+    }
+  }, [selectionRequest?.requestId]);
+
+  const [interimPosition, setInterimPosition] = useState<{ top: number; left: number } | null>(null);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!interimTranscript || !textarea) {
+      setInterimPosition(null);
+      return;
+    }
+    const coords = getCaretCoordinates(textarea, textarea.selectionEnd);
+    setInterimPosition({ top: coords.top, left: Math.min(coords.left, textarea.clientWidth - 240) });
+  }, [interimTranscript, content]);
 
   // Auto-resize textarea logic could go here, but simple flex grow is better for this layout.
 
   return (
     <div className="relative flex flex-col h-full bg-white dark:bg-dark relative">
-      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-darklighter">
-        <div className="flex gap-2 text-sm text-gray-500 dark:text-gray-400">
-          <span className="font-semibold">{content.length}</span> chars
+      <div className="flex items-center justify-between gap-4 px-4 py-2 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-darklighter">
+        <div className="flex items-center gap-4 min-w-0">
+          <div className="flex gap-2 text-sm text-gray-500 dark:text-gray-400 shrink-0">
+            <span className="font-semibold">{content.length}</span> chars
+          </div>
+          <TagInput tags={tags} onChange={onTagsChange} />
         </div>
         <div className="flex gap-2">
+          <select
+            value={dictationLanguage}
+            onChange={(e) => onDictationLanguageChange(e.target.value as DictationLanguage)}
+            className="px-2 py-1.5 rounded-full text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 focus:outline-none"
+            title="Dictation language"
+          >
+            {DICTATION_LANGUAGES.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
+          </select>
            <button 
             onClick={toggleRecording}
             className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-medium transition-all ${isRecording ? 'bg-red-500 text-white animate-pulse shadow-red-500/50 shadow-lg' : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600'}`}
@@ -39,9 +277,19 @@ const Editor: React.FC<EditorProps> = ({
             {isRecording ? 'Recording...' : 'Dictate'}
           </button>
           
+          <button 
+            onClick={() => setIsParallel(!isParallel)}
+            className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-medium transition-all ${isParallel ? 'bg-primary text-white shadow-primary/50 shadow-md' : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600'}`}
+            title="Show each paragraph side by side with its English or Bangla translation"
+          >
+            <i className="fa-solid fa-language" />
+            Bilingual
+          </button>
+
           <button 
             onClick={togglePreview}
-            className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-medium transition-all ${showPreview ? 'bg-secondary text-white shadow-secondary/50 shadow-md' : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600'}`}
+            disabled={isParallel}
+            className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-medium transition-all ${showPreview ? 'bg-secondary text-white shadow-secondary/50 shadow-md' : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600'} disabled:opacity-50`}
           >
             <i className={`fa-solid ${showPreview ? 'fa-eye' : 'fa-pen-nib'}`} />
             {showPreview ? 'Preview' : 'Edit'}
@@ -49,40 +297,105 @@ const Editor: React.FC<EditorProps> = ({
         </div>
       </div>
 
-      <div className="flex-1 relative overflow-hidden flex">
-        {/* Editor Area */}
-        <textarea
-          ref={textareaRef}
-          value={content}
-          onChange={(e) => onChange(e.target.value)}
-          placeholder="# Start typing your lecture notes here..."
-          className={`flex-1 p-6 resize-none focus:outline-none bg-transparent font-mono text-base leading-relaxed text-gray-800 dark:text-gray-200 ${showPreview ? 'hidden md:block w-1/2 border-r border-gray-200 dark:border-gray-700' : 'w-full'}`}
-          spellCheck={false}
-        />
-
-        {/* Preview Area */}
-        {(showPreview || window.innerWidth >= 768) && (
-          <div className={`flex-1 p-6 overflow-y-auto prose dark:prose-invert max-w-none bg-gray-50/50 dark:bg-dark/50 ${!showPreview ? 'hidden md:block w-1/2' : 'w-full'}`}>
-            {content ? (
-               <ReactMarkdown
-               remarkPlugins={[remarkGfm]}
-               rehypePlugins={[rehypeKatex]}
-               components={{
-                 // Custom renderer for code blocks if needed
-               }}
-             >
-               {content}
-             </ReactMarkdown>
-            ) : (
-              <div className="h-full flex flex-col items-center justify-center text-gray-400 opacity-50">
-                 <i className="fa-brands fa-markdown text-4xl mb-2" />
-                 <p>Markdown Preview</p>
-              </div>
-            )}
-           
-          </div>
-        )}
-      </div>
+      {isParallel ? (
+        <ParallelView key={noteId} noteId={noteId} content={content} onChange={onChange} />
+      ) : (
+        <div className="flex-1 relative overflow-hidden flex">
+          {/* Editor Area */}
+          <textarea
+            ref={textareaRef}
+            value={content}
+            onChange={(e) => {
+              onChange(e.target.value);
+              updateLinkQuery(e.target);
+            }}
+            onKeyDown={handleKeyDown}
+            onSelect={(e) => handleSelect(e.currentTarget)}
+            onScroll={(e) => selectionMenu && showSelectionMenu(e.currentTarget, selectionMenu.start, selectionMenu.end)}
+            readOnly={!!busyAction || !!rewrite}
+            onClick={(e) => updateLinkQuery(e.currentTarget)}
+            onBlur={() => setLinkQuery(null)}
+            placeholder="# Start typing your lecture notes here..."
+            className={`flex-1 p-6 resize-none focus:outline-none bg-transparent font-mono text-base leading-relaxed text-gray-800 dark:text-gray-200 ${showPreview ? 'hidden md:block w-1/2 border-r border-gray-200 dark:border-gray-700' : 'w-full'}`}
+            spellCheck={false}
+          />
+
+          {interimPosition && (
+            <div
+              className="absolute max-w-[240px] px-1 rounded bg-white/90 dark:bg-dark/90 font-mono text-base italic text-gray-400 pointer-events-none"
+              style={{ top: interimPosition.top, left: interimPosition.left }}
+            >
+              {interimTranscript}
+            </div>
+          )}
+
+          {linkQuery && suggestions.length > 0 && (
+            <LinkAutocomplete
+              suggestions={suggestions}
+              activeIndex={activeSuggestion}
+              position={linkPosition}
+              onPick={insertLink}
+              onHover={setActiveSuggestion}
+            />
+          )}
+
+          {selectionMenu && (
+            <SelectionMenu
+              position={selectionMenu}
+              isReviewing={!!rewrite}
+              busyAction={busyAction}
+              grade={grade}
+              error={rewriteError}
+              onGradeChange={handleGradeChange}
+              onAction={runRewrite}
+              onCancel={() => { rewriteAbortRef.current?.abort(); setSelectionMenu(null); }}
+              onAccept={closeRewrite}
+              onReject={rejectRewrite}
+            />
+          )}
+
+          {/* Preview Area */}
+          {(showPreview || window.innerWidth >= 768) && (
+            <div className={`flex-1 p-6 overflow-y-auto prose dark:prose-invert max-w-none bg-gray-50/50 dark:bg-dark/50 ${!showPreview ? 'hidden md:block w-1/2' : 'w-full'}`}>
+              {content ? (
+                 <ReactMarkdown
+                 remarkPlugins={[remarkGfm]}
+                 rehypePlugins={[rehypeKatex]}
+                 components={{
+                   a: ({ href, children, node, ...props }) => {
+                     const linkTarget = parseLinkHref(href);
+                     if (linkTarget === null) {
+                       return <a href={href} target="_blank" rel="noreferrer" {...props}>{children}</a>;
+                     }
+                     const exists = !!findNoteByTitle(linkableNotes, linkTarget);
+                     return (
+                       <a
+                         href={href}
+                         onClick={(e) => { e.preventDefault(); onOpenLink(linkTarget); }}
+                         className={exists ? 'text-primary no-underline hover:underline' : 'text-red-400 border-b border-dashed border-red-300 no-underline'}
+                         title={exists ? `Open "${linkTarget}"` : `Create note "${linkTarget}"`}
+                       >
+                         {children}
+                       </a>
+                     );
+                   }
+                 }}
+               >
+                 {previewContent}
+               </ReactMarkdown>
+              ) : (
+                <div className="h-full flex flex-col items-center justify-center text-gray-400 opacity-50">
+                   <i className="fa-brands fa-markdown text-4xl mb-2" />
+                   <p>Markdown Preview</p>
+                </div>
+              )}
+             
+            </div>
+          )}
+        </div>
+      )}
+
+      <BacklinksPanel backlinks={backlinks} onOpenNote={onOpenNote} />
     </div>
   );
 };
@@ -0,0 +1,217 @@
+import React, { useMemo, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeKatex from 'rehype-katex';
+import { Note, Flashcard } from '../types';
+import { REVIEW_GRADES, isDue, reviewCard, formatInterval, extractFlashcards } from '../services/flashcards';
+
+interface FlashcardReviewProps {
+  cards: Flashcard[]; // Cards of every note in scope
+  notes: Note[];
+  note?: Note; // Set when reviewing a single note; enables the card list and AI extraction
+  onUpdateCards: (cards: Flashcard[]) => void;
+  onDeleteCard: (id: string) => void;
+  onClose: () => void;
+}
+
+type ReviewTab = 'review' | 'cards';
+
+const Markdown: React.FC<{ children: string }> = ({ children }) => (
+  <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeKatex]}>{children}</ReactMarkdown>
+);
+
+const formatDue = (card: Flashcard) => {
+  if (isDue(card)) return 'Due now';
+  return `Due ${new Date(card.dueAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`;
+};
+
+const FlashcardReview: React.FC<FlashcardReviewProps> = ({ cards, notes, note, onUpdateCards, onDeleteCard, onClose }) => {
+  const [tab, setTab] = useState<ReviewTab>('review');
+  // The session works through the cards that were due when it started; failed cards go to the back
+  const [queue, setQueue] = useState<string[]>(() =>
+    cards.filter(c => isDue(c)).sort((a, b) => a.dueAt - b.dueAt).map(c => c.id)
+  );
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const cardsById = useMemo(() => new Map(cards.map(c => [c.id, c])), [cards]);
+  const noteTitles = useMemo(() => new Map(notes.map(n => [n.id, n.title])), [notes]);
+  // Cards can disappear mid-session when their line is removed from the note
+  const liveQueue = useMemo(() => queue.filter(id => cardsById.has(id)), [queue, cardsById]);
+  const current = liveQueue.length > 0 ? cardsById.get(liveQueue[0]) : undefined;
+
+  const handleGrade = (grade: number) => {
+    if (!current) return;
+    const reviewed = reviewCard(current, grade);
+    onUpdateCards([reviewed]);
+    setQueue(grade < 3 ? [...liveQueue.slice(1), current.id] : liveQueue.slice(1));
+    setReviewedCount(n => n + 1);
+    setIsFlipped(false);
+  };
+
+  const handleExtract = async () => {
+    if (!note) return;
+    setIsExtracting(true);
+    setError(null);
+    try {
+      const extracted = await extractFlashcards(note, cards);
+      onUpdateCards(extracted);
+      setQueue(prev => [...prev, ...extracted.map(c => c.id)]);
+      if (extracted.length === 0) setError("No new flashcards were found in this note.");
+    } catch (err) {
+      console.error("Flashcard extraction failed", err);
+      setError("Couldn't create flashcards. Check your connection and API key, then try again.");
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const handleDelete = (id: string) => {
+    if (!window.confirm("Delete this flashcard?")) return;
+    onDeleteCard(id);
+    setQueue(prev => prev.filter(q => q !== id));
+  };
+
+  const renderReview = () => {
+    if (!current) {
+      return (
+        <div className="flex-1 flex flex-col items-center justify-center text-center text-gray-400 p-8">
+          <i className="fa-solid fa-circle-check text-5xl mb-4 text-green-500 opacity-80" />
+          <p className="font-medium text-gray-600 dark:text-gray-300">
+            {reviewedCount > 0 ? `Session complete: ${reviewedCount} reviews.` : 'Nothing is due right now.'}
+          </p>
+          <p className="text-sm mt-1">
+            {cards.length === 0
+              ? 'Write "Question:: Answer" lines in a note, or create cards with AI.'
+              : 'Come back later for the next reviews.'}
+          </p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex-1 flex flex-col items-center p-4 min-h-0">
+        <div className="text-xs text-gray-400 mb-2">
+          {liveQueue.length} left{!note && ` • ${noteTitles.get(current.noteId) || 'Untitled Note'}`}
+        </div>
+        <div
+          onClick={() => setIsFlipped(true)}
+          className="w-full max-w-xl flex-1 min-h-[12rem] max-h-96 overflow-y-auto flex flex-col items-center justify-center gap-4 p-6 rounded-2xl border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-dark cursor-pointer text-center"
+        >
+          <div className="prose dark:prose-invert text-lg font-medium"><Markdown>{current.front}</Markdown></div>
+          {isFlipped && (
+            <>
+              <div className="w-full border-t border-dashed border-gray-300 dark:border-gray-600" />
+              <div className="prose dark:prose-invert"><Markdown>{current.back}</Markdown></div>
+            </>
+          )}
+        </div>
+        <div className="mt-4 flex gap-2 flex-wrap justify-center">
+          {isFlipped ? REVIEW_GRADES.map(({ grade, label, style }) => (
+            <button
+              key={grade}
+              onClick={() => handleGrade(grade)}
+              className={`flex flex-col items-center px-4 py-2 rounded-lg text-white shadow-md active:scale-95 transition-all ${style}`}
+            >
+              <span className="text-sm font-medium">{label}</span>
+              <span className="text-xs opacity-80">{formatInterval(current, grade)}</span>
+            </button>
+          )) : (
+            <button
+              onClick={() => setIsFlipped(true)}
+              className="px-6 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 shadow-md active:scale-95 transition-all"
+            >
+              Show answer
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderCardList = () => (
+    <div className="flex-1 overflow-y-auto p-4 space-y-2">
+      <div className="flex items-center gap-2">
+        <p className="flex-1 text-xs text-gray-500">
+          Cards from "Question:: Answer" lines follow the note; edit the note to change them.
+        </p>
+        <button
+          onClick={handleExtract}
+          disabled={isExtracting}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm bg-primary text-white hover:bg-primary/90 disabled:opacity-50"
+        >
+          <i className={`fa-solid ${isExtracting ? 'fa-circle-notch fa-spin' : 'fa-wand-magic-sparkles'}`} />
+          Create with AI
+        </button>
+      </div>
+      {cards.length === 0 && <div className="text-center text-gray-400 mt-6 text-sm italic">No flashcards yet</div>}
+      {cards.map(card => (
+        <div key={card.id} className="group flex items-start gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700 text-sm">
+          <div className="flex-1 min-w-0">
+            <div className="font-medium">{card.front}</div>
+            <div className="text-gray-500">{card.back}</div>
+            <div className="text-xs text-gray-400 mt-1">
+              {card.source === 'ai' ? 'AI' : 'From note'} • {formatDue(card)} • {card.history.length} reviews
+            </div>
+          </div>
+          {card.source === 'ai' && (
+            <button
+              onClick={() => handleDelete(card.id)}
+              className="lg:opacity-0 lg:group-hover:opacity-100 p-1 text-gray-400 hover:text-red-500"
+              title="Delete Flashcard"
+            >
+              <i className="fa-solid fa-trash-can text-xs" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-darklighter rounded-2xl shadow-2xl w-full max-w-3xl h-[85vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 min-w-0">
+            <i className="fa-solid fa-layer-group text-secondary" />
+            <h2 className="font-bold truncate">Flashcards — {note ? note.title : 'All Notes'}</h2>
+          </div>
+          <div className="flex items-center gap-2">
+            {note && (
+              <div className="flex bg-gray-200 dark:bg-gray-700 rounded-lg p-0.5 text-sm">
+                {(['review', 'cards'] as ReviewTab[]).map(t => (
+                  <button
+                    key={t}
+                    onClick={() => setTab(t)}
+                    className={`px-3 py-1 rounded-md capitalize ${tab === t ? 'bg-white dark:bg-gray-900 shadow-sm font-medium' : 'text-gray-500'}`}
+                  >
+                    {t}
+                  </button>
+                ))}
+              </div>
+            )}
+            <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full">
+              <i className="fa-solid fa-times text-gray-500" />
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="m-4 mb-0 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-300 text-sm">
+            <i className="fa-solid fa-triangle-exclamation mr-2" />{error}
+          </div>
+        )}
+
+        {tab === 'review' ? renderReview() : renderCardList()}
+      </div>
+    </div>
+  );
+};
+
+export default FlashcardReview;
@@ -0,0 +1,102 @@
+import React from 'react';
+import { FolderNode } from '../services/folders';
+
+export const DRAG_NOTE_TYPE = 'application/x-note-id';
+export const DRAG_FOLDER_TYPE = 'application/x-folder-id';
+
+interface FolderTreeProps {
+  nodes: FolderNode[];
+  depth?: number;
+  selectedFolderId: string | null;
+  expandedIds: Set<string>;
+  dragOverId: string | null;
+  onToggleExpand: (id: string) => void;
+  onSelectFolder: (id: string) => void;
+  onCreateFolder: (parentId: string | null) => void;
+  onRenameFolder: (id: string) => void;
+  onDeleteFolder: (id: string) => void;
+  onDragOverFolder: (e: React.DragEvent, id: string | null) => void;
+  onDropOnFolder: (e: React.DragEvent, id: string | null) => void;
+}
+
+const FolderTree: React.FC<FolderTreeProps> = (props) => {
+  const {
+    nodes,
+    depth = 0,
+    selectedFolderId,
+    expandedIds,
+    dragOverId,
+    onToggleExpand,
+    onSelectFolder,
+    onCreateFolder,
+    onRenameFolder,
+    onDeleteFolder,
+    onDragOverFolder,
+    onDropOnFolder
+  } = props;
+
+  return (
+    <>
+      {nodes.map(({ folder, children }) => {
+        const isExpanded = expandedIds.has(folder.id);
+        const isSelected = selectedFolderId === folder.id;
+        return (
+          <div key={folder.id}>
+            <div
+              draggable
+              onDragStart={(e) => {
+                e.stopPropagation();
+                e.dataTransfer.setData(DRAG_FOLDER_TYPE, folder.id);
+              }}
+              onDragOver={(e) => onDragOverFolder(e, folder.id)}
+              onDrop={(e) => onDropOnFolder(e, folder.id)}
+              onClick={() => onSelectFolder(folder.id)}
+              style={{ paddingLeft: `${depth * 12 + 4}px` }}
+              className={`group flex items-center gap-1 pr-1 py-1.5 rounded-lg cursor-pointer text-sm transition-colors ${dragOverId === folder.id ? 'ring-2 ring-primary bg-primary/5' : ''} ${isSelected ? 'bg-primary/10 text-primary' : 'hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-300'}`}
+            >
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onToggleExpand(folder.id);
+                }}
+                className={`w-5 h-5 flex items-center justify-center text-gray-400 ${children.length === 0 ? 'invisible' : ''}`}
+              >
+                <i className={`fa-solid fa-chevron-right text-[10px] transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+              </button>
+              <i className={`fa-solid ${isExpanded && children.length > 0 ? 'fa-folder-open' : 'fa-folder'} text-secondary/80`} />
+              <span className="truncate flex-1">{folder.name}</span>
+              <div className="hidden group-hover:flex items-center">
+                <button
+                  onClick={(e) => { e.stopPropagation(); onCreateFolder(folder.id); }}
+                  className="p-1 text-gray-400 hover:text-primary"
+                  title="New Subfolder"
+                >
+                  <i className="fa-solid fa-folder-plus text-xs" />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onRenameFolder(folder.id); }}
+                  className="p-1 text-gray-400 hover:text-primary"
+                  title="Rename"
+                >
+                  <i className="fa-solid fa-pen text-xs" />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onDeleteFolder(folder.id); }}
+                  className="p-1 text-gray-400 hover:text-red-500"
+                  title="Delete Folder"
+                >
+                  <i className="fa-solid fa-trash-can text-xs" />
+                </button>
+              </div>
+            </div>
+            {isExpanded && children.length > 0 && (
+              <FolderTree {...props} nodes={children} depth={depth + 1} />
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+};
+
+export default FolderTree;
@@ -0,0 +1,588 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GradingSession, RubricQuestion, RubricCriterion, AnswerScript } from '../types';
+import { GRADING_PHOTO_MAX_SIZE } from '../constants';
+import {
+  getAllGradingSessions,
+  putGradingSession,
+  deleteGradingSession,
+  getScriptsForSession,
+  putAnswerScripts,
+  putAnswerScript,
+  deleteAnswerScript
+} from '../services/storage';
+import {
+  createGradingSession,
+  createRubricQuestion,
+  createCriterion,
+  createAnswerScript,
+  isRubricComplete,
+  questionMaxMarks,
+  rubricMaxMarks,
+  findScore,
+  scriptQuestionMarks,
+  scriptTotal,
+  clampScore,
+  gradeScript,
+  gradingToCsv,
+  gradingFilename
+} from '../services/grading';
+import { downloadBlob, downscaleImage } from '../services/fileUtils';
+
+interface GradingPanelProps {
+  onClose: () => void;
+}
+
+type GradingTab = 'rubric' | 'scripts';
+
+const INPUT_CLASS = "w-full px-3 py-1.5 bg-gray-100 dark:bg-gray-800 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary";
+
+const STATUS_STYLES: Record<AnswerScript['status'] | 'grading', string> = {
+  pending: 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-300',
+  grading: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  graded: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  error: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+};
+
+// Object URLs are tied to the component so they are released when the photo leaves the screen
+const ScriptPhoto: React.FC<{ photo: Blob; className: string }> = ({ photo, className }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(photo);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [photo]);
+  return url ? (
+    <a href={url} target="_blank" rel="noreferrer">
+      <img src={url} alt="Answer script page" className={className} />
+    </a>
+  ) : null;
+};
+
+const GradingPanel: React.FC<GradingPanelProps> = ({ onClose }) => {
+  const [sessions, setSessions] = useState<GradingSession[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [tab, setTab] = useState<GradingTab>('rubric');
+  const [scripts, setScripts] = useState<AnswerScript[]>([]);
+  const scriptsRef = useRef<AnswerScript[]>(scripts);
+  scriptsRef.current = scripts;
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [gradingId, setGradingId] = useState<string | null>(null);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const [isAddingPhotos, setIsAddingPhotos] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const scriptInputRef = useRef<HTMLInputElement>(null);
+  const pageInputRef = useRef<HTMLInputElement>(null);
+  const pageTargetRef = useRef<string | null>(null);
+
+  const selected = sessions.find(s => s.id === selectedId);
+  const rubricReady = !!selected && isRubricComplete(selected.rubric);
+  const maxMarks = selected ? rubricMaxMarks(selected.rubric) : 0;
+
+  useEffect(() => {
+    getAllGradingSessions()
+      .then(loaded => {
+        setSessions(loaded);
+        setSelectedId(loaded[0]?.id ?? null);
+      })
+      .catch(err => console.error("Failed to load grading sessions", err));
+    return () => abortRef.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    abortRef.current?.abort();
+    setScripts([]);
+    setExpandedId(null);
+    setError(null);
+    if (!selectedId) return;
+    let cancelled = false;
+    getScriptsForSession(selectedId)
+      .then(loaded => { if (!cancelled) setScripts(loaded); })
+      .catch(err => console.error("Failed to load answer scripts", err));
+    return () => { cancelled = true; };
+  }, [selectedId]);
+
+  const saveSession = (session: GradingSession) => {
+    const updated = { ...session, updatedAt: Date.now() };
+    setSessions(prev => prev.map(s => s.id === updated.id ? updated : s));
+    putGradingSession(updated).catch(err => console.error("Failed to save grading session", err));
+  };
+
+  // Reads the latest script, since grading results arrive while the teacher keeps editing
+  const changeScript = (id: string, change: (script: AnswerScript) => AnswerScript) => {
+    const script = scriptsRef.current.find(s => s.id === id);
+    if (!script) return;
+    const updated = change(script);
+    scriptsRef.current = scriptsRef.current.map(s => s.id === id ? updated : s);
+    setScripts(scriptsRef.current);
+    putAnswerScript(updated).catch(err => console.error("Failed to save answer script", err));
+  };
+
+  const handleNewSession = async () => {
+    const session = createGradingSession();
+    try {
+      await putGradingSession(session);
+      setSessions(prev => [session, ...prev]);
+      setSelectedId(session.id);
+      setTab('rubric');
+    } catch (err) {
+      console.error("Failed to create grading session", err);
+    }
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    if (!window.confirm("Delete this grading session and all its scripts?")) return;
+    try {
+      await deleteGradingSession(id);
+      const remaining = sessions.filter(s => s.id !== id);
+      setSessions(remaining);
+      if (selectedId === id) setSelectedId(remaining[0]?.id ?? null);
+    } catch (err) {
+      console.error("Failed to delete grading session", err);
+    }
+  };
+
+  // Rubric
+  const updateQuestion = (id: string, changes: Partial<RubricQuestion>) => {
+    if (!selected) return;
+    saveSession({ ...selected, rubric: selected.rubric.map(q => q.id === id ? { ...q, ...changes } : q) });
+  };
+
+  const updateCriterion = (q: RubricQuestion, id: string, changes: Partial<RubricCriterion>) =>
+    updateQuestion(q.id, { criteria: q.criteria.map(c => c.id === id ? { ...c, ...changes } : c) });
+
+  // Scripts
+  const readPhotos = async (files: File[]) => {
+    setIsAddingPhotos(true);
+    try {
+      return await Promise.all(files.map(file => downscaleImage(file, GRADING_PHOTO_MAX_SIZE)));
+    } finally {
+      setIsAddingPhotos(false);
+    }
+  };
+
+  // Each photo starts as one student's script; more pages can be added to it afterwards
+  const handleAddScripts = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (!selected || files.length === 0) return;
+    try {
+      const photos = await readPhotos(files);
+      const added = photos.map((photo, i) => ({ ...createAnswerScript(selected.id, [photo]), createdAt: Date.now() + i }));
+      await putAnswerScripts(added);
+      setScripts(prev => [...prev, ...added]);
+      setTab('scripts');
+    } catch (err) {
+      console.error("Failed to add scripts", err);
+      setError("Couldn't read those photos. Please try JPEG or PNG images.");
+    }
+  };
+
+  const handleAddPages = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    const scriptId = pageTargetRef.current;
+    e.target.value = '';
+    if (!scriptId || files.length === 0) return;
+    try {
+      const photos = await readPhotos(files);
+      changeScript(scriptId, s => ({ ...s, photos: [...s.photos, ...photos] }));
+    } catch (err) {
+      console.error("Failed to add pages", err);
+      setError("Couldn't read those photos. Please try JPEG or PNG images.");
+    }
+  };
+
+  const handleDeleteScript = async (id: string) => {
+    if (!window.confirm("Delete this script?")) return;
+    try {
+      await deleteAnswerScript(id);
+      setScripts(prev => prev.filter(s => s.id !== id));
+    } catch (err) {
+      console.error("Failed to delete answer script", err);
+    }
+  };
+
+  const gradeOne = async (script: AnswerScript, signal: AbortSignal) => {
+    if (!selected) return;
+    setGradingId(script.id);
+    try {
+      const result = await gradeScript(selected.rubric, script, signal);
+      changeScript(script.id, s => ({
+        ...s,
+        // Names typed by the teacher win over what was read from the page
+        studentName: s.studentName || result.studentName,
+        roll: s.roll || result.roll,
+        scores: result.scores,
+        status: 'graded',
+        error: undefined,
+      }));
+    } catch (err) {
+      if (signal.aborted) return;
+      console.error("Grading failed", err);
+      changeScript(script.id, s => ({ ...s, status: 'error', error: "Couldn't grade this script. Check your connection and API key, then try again." }));
+    } finally {
+      setGradingId(null);
+    }
+  };
+
+  const handleGrade = async (ids: string[]) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsBatchRunning(true);
+    setError(null);
+    // One at a time, to stay within rate limits and keep the order predictable
+    for (const id of ids) {
+      if (controller.signal.aborted) break;
+      const script = scriptsRef.current.find(s => s.id === id);
+      if (script) await gradeOne(script, controller.signal);
+    }
+    setIsBatchRunning(false);
+  };
+
+  const handleAdjustScore = (script: AnswerScript, criterion: RubricCriterion, value: number) => {
+    changeScript(script.id, s => ({
+      ...s,
+      scores: s.scores.map(sc => sc.criterionId === criterion.id ? { ...sc, score: clampScore(value, criterion.maxMarks) } : sc),
+    }));
+  };
+
+  const handleExport = () => {
+    if (!selected) return;
+    // The BOM makes spreadsheet apps read Bangla names as UTF-8
+    downloadBlob(new Blob(['\ufeff', gradingToCsv(selected, scripts)], { type: 'text/csv;charset=utf-8' }), gradingFilename(selected));
+  };
+
+  const ungradedIds = scripts.filter(s => s.status !== 'graded').map(s => s.id);
+
+  const renderRubric = () => selected && (
+    <div className="max-w-3xl mx-auto space-y-4">
+      <input
+        value={selected.title}
+        onChange={(e) => saveSession({ ...selected, title: e.target.value })}
+        className="w-full px-3 py-2 bg-gray-100 dark:bg-gray-800 rounded-lg font-bold focus:outline-none focus:ring-2 focus:ring-primary"
+      />
+      <p className="text-xs text-gray-500">
+        Describe what earns marks for each question. The clearer the criteria, the closer the suggested scores will be to yours.
+      </p>
+      {selected.rubric.map(q => (
+        <div key={q.id} className="p-4 rounded-xl border border-gray-200 dark:border-gray-700 space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-400">Q</span>
+            <input
+              value={q.label}
+              onChange={(e) => updateQuestion(q.id, { label: e.target.value })}
+              className="w-16 px-2 py-1 bg-gray-100 dark:bg-gray-800 rounded-lg text-sm font-bold"
+              title="Question number as on the script"
+            />
+            <span className="text-xs text-gray-500">{questionMaxMarks(q)} marks</span>
+            <button
+              onClick={() => saveSession({ ...selected, rubric: selected.rubric.filter(x => x.id !== q.id) })}
+              className="ml-auto p-1 text-gray-400 hover:text-red-500"
+              title="Delete Question"
+            >
+              <i className="fa-solid fa-trash-can text-xs" />
+            </button>
+          </div>
+          <textarea
+            value={q.question}
+            onChange={(e) => updateQuestion(q.id, { question: e.target.value })}
+            placeholder="Question"
+            rows={2}
+            className={`${INPUT_CLASS} resize-none`}
+          />
+          <textarea
+            value={q.modelAnswer}
+            onChange={(e) => updateQuestion(q.id, { modelAnswer: e.target.value })}
+            placeholder="Model answer (optional)"
+            rows={2}
+            className={`${INPUT_CLASS} text-xs resize-none`}
+          />
+          {q.criteria.map(c => (
+            <div key={c.id} className="flex items-center gap-2">
+              <i className="fa-solid fa-check text-xs text-gray-300" />
+              <input
+                value={c.description}
+                onChange={(e) => updateCriterion(q, c.id, { description: e.target.value })}
+                placeholder="Criterion, e.g. States the formula correctly"
+                className={INPUT_CLASS}
+              />
+              <input
+                type="number"
+                min={0.5}
+                step={0.5}
+                value={c.maxMarks}
+                onChange={(e) => updateCriterion(q, c.id, { maxMarks: Math.max(0, Number(e.target.value)) })}
+                className="w-16 px-2 py-1.5 bg-gray-100 dark:bg-gray-800 rounded-lg text-sm"
+                title="Maximum marks"
+              />
+              <button
+                onClick={() => updateQuestion(q.id, { criteria: q.criteria.filter(x => x.id !== c.id) })}
+                disabled={q.criteria.length === 1}
+                className="p-1 text-gray-400 hover:text-red-500 disabled:opacity-30"
+                title="Remove Criterion"
+              >
+                <i className="fa-solid fa-xmark text-xs" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => updateQuestion(q.id, { criteria: [...q.criteria, createCriterion()] })}
+            className="text-xs text-primary hover:underline"
+          >
+            <i className="fa-solid fa-plus mr-1" />Add criterion
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => saveSession({ ...selected, rubric: [...selected.rubric, createRubricQuestion(String(selected.rubric.length + 1))] })}
+        className="w-full p-3 rounded-xl border border-dashed border-gray-300 dark:border-gray-600 text-sm text-primary hover:bg-primary/5"
+      >
+        <i className="fa-solid fa-plus mr-2" />Add question
+      </button>
+    </div>
+  );
+
+  const renderScript = (script: AnswerScript) => {
+    if (!selected) return null;
+    const status = gradingId === script.id ? 'grading' : script.status;
+    const isExpanded = expandedId === script.id;
+    return (
+      <div key={script.id} className="rounded-xl border border-gray-200 dark:border-gray-700">
+        <div className="flex flex-wrap items-center gap-2 p-3">
+          <ScriptPhoto photo={script.photos[0]} className="w-10 h-14 object-cover rounded border border-gray-200 dark:border-gray-700" />
+          <input
+            value={script.roll}
+            onChange={(e) => changeScript(script.id, s => ({ ...s, roll: e.target.value }))}
+            placeholder="Roll"
+            className="w-16 px-2 py-1 bg-gray-100 dark:bg-gray-800 rounded-lg text-sm"
+          />
+          <input
+            value={script.studentName}
+            onChange={(e) => changeScript(script.id, s => ({ ...s, studentName: e.target.value }))}
+            placeholder="Student name"
+            className="flex-1 min-w-[8rem] px-2 py-1 bg-gray-100 dark:bg-gray-800 rounded-lg text-sm"
+          />
+          <span className="text-xs text-gray-400">{script.photos.length} {script.photos.length === 1 ? 'page' : 'pages'}</span>
+          <span className={`px-2 py-0.5 rounded-full text-xs capitalize ${STATUS_STYLES[status]}`}>
+            {status === 'grading' && <i className="fa-solid fa-circle-notch fa-spin mr-1" />}{status}
+          </span>
+          {script.status === 'graded' && (
+            <span className="font-bold text-sm">{scriptTotal(script, selected.rubric)} / {maxMarks}</span>
+          )}
+          <div className="flex gap-1">
+            <button
+              onClick={() => { pageTargetRef.current = script.id; pageInputRef.current?.click(); }}
+              className="p-1.5 text-gray-400 hover:text-primary"
+              title="Add Pages"
+            >
+              <i className="fa-solid fa-file-circle-plus" />
+            </button>
+            <button
+              onClick={() => handleGrade([script.id])}
+              disabled={!rubricReady || isBatchRunning}
+              className="p-1.5 text-gray-400 hover:text-primary disabled:opacity-30"
+              title={script.status === 'graded' ? 'Grade Again' : 'Grade'}
+            >
+              <i className="fa-solid fa-wand-magic-sparkles" />
+            </button>
+            <button onClick={() => handleDeleteScript(script.id)} className="p-1.5 text-gray-400 hover:text-red-500" title="Delete Script">
+              <i className="fa-solid fa-trash-can" />
+            </button>
+            <button onClick={() => setExpandedId(isExpanded ? null : script.id)} className="p-1.5 text-gray-400 hover:text-primary">
+              <i className={`fa-solid ${isExpanded ? 'fa-chevron-up' : 'fa-chevron-down'}`} />
+            </button>
+          </div>
+        </div>
+        {script.error && script.status === 'error' && (
+          <div className="px-3 pb-2 text-xs text-red-500">{script.error}</div>
+        )}
+
+        {isExpanded && (
+          <div className="border-t border-gray-200 dark:border-gray-700 p-3 flex flex-col lg:flex-row gap-4">
+            <div className="lg:w-1/3 grid grid-cols-2 lg:grid-cols-1 gap-2 content-start">
+              {script.photos.map((photo, i) => (
+                <ScriptPhoto key={i} photo={photo} className="w-full rounded border border-gray-200 dark:border-gray-700" />
+              ))}
+            </div>
+            <div className="flex-1 space-y-3">
+              {selected.rubric.map(q => (
+                <div key={q.id}>
+                  <div className="flex items-center justify-between text-sm font-semibold mb-1">
+                    <span>Q{q.label}</span>
+                    <span>{scriptQuestionMarks(script, q)} / {questionMaxMarks(q)}</span>
+                  </div>
+                  {q.criteria.map(c => {
+                    const score = findScore(script, c.id);
+                    return (
+                      <div key={c.id} className="flex items-start gap-2 py-1 text-sm">
+                        <div className="flex-1 min-w-0">
+                          <div>{c.description}</div>
+                          {score && <div className="text-xs text-gray-500">{score.justification}</div>}
+                        </div>
+                        {score ? (
+                          <div className="flex items-center gap-1 whitespace-nowrap">
+                            <input
+                              type="number"
+                              min={0}
+                              max={c.maxMarks}
+                              step={0.5}
+                              value={score.score}
+                              onChange={(e) => handleAdjustScore(script, c, Number(e.target.value))}
+                              className={`w-16 px-2 py-1 rounded-lg text-sm ${score.score !== score.suggestedScore ? 'bg-yellow-100 dark:bg-yellow-900/30' : 'bg-gray-100 dark:bg-gray-800'}`}
+                              title={score.score !== score.suggestedScore ? `Suggested: ${score.suggestedScore}` : undefined}
+                            />
+                            <span className="text-xs text-gray-400">/ {c.maxMarks}</span>
+                          </div>
+                        ) : (
+                          <span className="text-xs text-gray-400 whitespace-nowrap">Not graded</span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderScripts = () => (
+    <div className="max-w-4xl mx-auto space-y-2">
+      {!rubricReady && (
+        <div className="p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 text-yellow-700 dark:text-yellow-300 text-sm">
+          <i className="fa-solid fa-circle-info mr-2" />Finish the rubric (question numbers, criteria and marks) before grading.
+        </div>
+      )}
+      {scripts.length === 0 && (
+        <div className="text-center text-gray-400 mt-6 text-sm">
+          Upload photos of answer scripts. Each photo becomes one student's script; add more pages to it afterwards.
+        </div>
+      )}
+      {scripts.map(renderScript)}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-darklighter rounded-2xl shadow-2xl w-full max-w-6xl h-[90vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <i className="fa-solid fa-marker text-primary" />
+            <h2 className="font-bold">Grade Answer Scripts</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full">
+            <i className="fa-solid fa-times text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex flex-col md:flex-row min-h-0">
+          {/* Session List */}
+          <div className="md:w-60 max-h-40 md:max-h-none overflow-y-auto border-b md:border-b-0 md:border-r border-gray-200 dark:border-gray-700 p-2">
+            <button
+              onClick={handleNewSession}
+              className="w-full mb-2 flex items-center justify-center gap-2 px-2 py-1.5 rounded-lg text-sm bg-primary text-white hover:bg-primary/90"
+            >
+              <i className="fa-solid fa-plus" /> New grading
+            </button>
+            {sessions.map(session => (
+              <div
+                key={session.id}
+                onClick={() => setSelectedId(session.id)}
+                className={`group flex items-start gap-2 p-2 mb-1 rounded-lg cursor-pointer text-sm transition-colors ${selectedId === session.id ? 'bg-primary/10 text-primary border border-primary/20' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium truncate">{session.title || 'Untitled Grading'}</div>
+                  <div className="text-xs text-gray-400">{session.rubric.length} questions • {rubricMaxMarks(session.rubric)} marks</div>
+                </div>
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleDeleteSession(session.id); }}
+                  className="lg:opacity-0 lg:group-hover:opacity-100 p-1 text-gray-400 hover:text-red-500"
+                  title="Delete Grading Session"
+                >
+                  <i className="fa-solid fa-trash-can text-xs" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Session */}
+          <div className="flex-1 flex flex-col min-w-0 min-h-0">
+            {error && (
+              <div className="m-4 mb-0 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-300 text-sm">
+                <i className="fa-solid fa-triangle-exclamation mr-2" />{error}
+              </div>
+            )}
+            {selected ? (
+              <>
+                <div className="px-4 py-2 border-b border-gray-200 dark:border-gray-700 flex flex-wrap items-center gap-2 text-sm bg-gray-50 dark:bg-dark">
+                  <div className="flex bg-gray-200 dark:bg-gray-700 rounded-lg p-0.5">
+                    {(['rubric', 'scripts'] as GradingTab[]).map(t => (
+                      <button
+                        key={t}
+                        onClick={() => setTab(t)}
+                        className={`px-3 py-1 rounded-md capitalize ${tab === t ? 'bg-white dark:bg-gray-900 shadow-sm font-medium' : 'text-gray-500'}`}
+                      >
+                        {t}{t === 'scripts' && scripts.length > 0 && ` (${scripts.length})`}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="ml-auto flex flex-wrap gap-2">
+                    <button
+                      onClick={() => scriptInputRef.current?.click()}
+                      disabled={isAddingPhotos}
+                      className="flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40"
+                    >
+                      <i className={`fa-solid ${isAddingPhotos ? 'fa-circle-notch fa-spin' : 'fa-camera'} text-primary`} /> Upload scripts
+                    </button>
+                    {isBatchRunning ? (
+                      <button
+                        onClick={() => abortRef.current?.abort()}
+                        className="flex items-center gap-1 px-2 py-1 rounded-lg text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"
+                      >
+                        <i className="fa-solid fa-stop" /> Stop
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => { setTab('scripts'); handleGrade(ungradedIds); }}
+                        disabled={!rubricReady || ungradedIds.length === 0}
+                        className="flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40"
+                      >
+                        <i className="fa-solid fa-wand-magic-sparkles text-primary" /> Grade {ungradedIds.length > 0 ? ungradedIds.length : ''} scripts
+                      </button>
+                    )}
+                    <button
+                      onClick={handleExport}
+                      disabled={scripts.length === 0}
+                      className="flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40"
+                    >
+                      <i className="fa-solid fa-file-csv text-secondary" /> Mark sheet
+                    </button>
+                  </div>
+                </div>
+                <div className="flex-1 overflow-y-auto p-4">
+                  {tab === 'rubric' ? renderRubric() : renderScripts()}
+                </div>
+              </>
+            ) : (
+              <div className="flex-1 flex flex-col items-center justify-center text-gray-400 p-8 text-center">
+                <i className="fa-solid fa-marker text-4xl mb-3 opacity-50" />
+                <p className="text-sm">Set up a rubric, upload photos of answer scripts, and review the suggested marks.</p>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <input ref={scriptInputRef} type="file" accept="image/*" multiple className="hidden" onChange={handleAddScripts} />
+        <input ref={pageInputRef} type="file" accept="image/*" multiple className="hidden" onChange={handleAddPages} />
+      </div>
+    </div>
+  );
+};
+
+export default GradingPanel;
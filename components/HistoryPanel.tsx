@@ -0,0 +1,187 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Note, NoteVersion } from '../types';
+import { getNoteVersions } from '../services/storage';
+import { diffLines, countChanges, DiffLine } from '../services/diff';
+
+interface HistoryPanelProps {
+  note: Note;
+  onClose: () => void;
+  onRestore: (version: NoteVersion) => Promise<void>;
+}
+
+const CURRENT = 'current';
+const CONTEXT_LINES = 3;
+
+const REASON_LABELS: Record<NoteVersion['reason'], string> = {
+  'auto': 'Autosave',
+  'large-edit': 'Before large edit',
+  'restore': 'Before restore',
+  'import': 'Before import',
+  'sync': 'Tab sync conflict',
+};
+
+const formatTime = (ts: number) =>
+  new Date(ts).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Collapse long runs of unchanged lines, keeping a little context around each change
+const collapseUnchanged = (diff: DiffLine[]): (DiffLine | { op: 'skip'; count: number })[] => {
+  const rows: (DiffLine | { op: 'skip'; count: number })[] = [];
+  let i = 0;
+  while (i < diff.length) {
+    if (diff[i].op !== 'equal') {
+      rows.push(diff[i++]);
+      continue;
+    }
+    let end = i;
+    while (end < diff.length && diff[end].op === 'equal') end++;
+    const run = diff.slice(i, end);
+    const keepHead = i === 0 ? 0 : CONTEXT_LINES;
+    const keepTail = end === diff.length ? 0 : CONTEXT_LINES;
+    if (run.length > keepHead + keepTail + 1) {
+      rows.push(...run.slice(0, keepHead));
+      rows.push({ op: 'skip', count: run.length - keepHead - keepTail });
+      rows.push(...run.slice(run.length - keepTail));
+    } else {
+      rows.push(...run);
+    }
+    i = end;
+  }
+  return rows;
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ note, onClose, onRestore }) => {
+  const [versions, setVersions] = useState<NoteVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareToId, setCompareToId] = useState<string>(CURRENT);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const loadVersions = () => {
+    setIsLoading(true);
+    getNoteVersions(note.id)
+      .then(loaded => {
+        setVersions(loaded);
+        setSelectedId(prev => loaded.some(v => v.id === prev) ? prev : loaded[0]?.id ?? null);
+      })
+      .catch(err => console.error("Failed to load history", err))
+      .finally(() => setIsLoading(false));
+  };
+
+  useEffect(loadVersions, [note.id]);
+
+  const selected = versions.find(v => v.id === selectedId);
+  const compareContent = compareToId === CURRENT ? note.content : versions.find(v => v.id === compareToId)?.content ?? '';
+
+  const diff = useMemo(
+    () => selected ? diffLines(selected.content, compareContent) : [],
+    [selected, compareContent]
+  );
+  const changes = countChanges(diff);
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setIsRestoring(true);
+    try {
+      await onRestore(selected);
+      setCompareToId(CURRENT);
+      loadVersions();
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-darklighter rounded-2xl shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div className="flex items-center gap-2 min-w-0">
+            <i className="fa-solid fa-clock-rotate-left text-primary" />
+            <h2 className="font-bold truncate">History — {note.title}</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full">
+            <i className="fa-solid fa-times text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex flex-col md:flex-row min-h-0">
+          {/* Version List */}
+          <div className="md:w-64 max-h-48 md:max-h-none overflow-y-auto border-b md:border-b-0 md:border-r border-gray-200 dark:border-gray-700 p-2">
+            {isLoading ? (
+              <div className="text-center text-gray-400 mt-6"><i className="fa-solid fa-circle-notch fa-spin" /></div>
+            ) : versions.length === 0 ? (
+              <div className="text-center text-gray-400 mt-6 text-sm italic px-4">
+                No snapshots yet. They are taken automatically while you edit.
+              </div>
+            ) : (
+              versions.map(v => (
+                <button
+                  key={v.id}
+                  onClick={() => setSelectedId(v.id)}
+                  className={`w-full text-left p-2 mb-1 rounded-lg text-sm transition-colors ${selectedId === v.id ? 'bg-primary/10 text-primary border border-primary/20' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+                >
+                  <div className="font-medium">{formatTime(v.createdAt)}</div>
+                  <div className="text-xs text-gray-400">{REASON_LABELS[v.reason]} • {v.content.length} chars</div>
+                </button>
+              ))
+            )}
+          </div>
+
+          {/* Diff */}
+          <div className="flex-1 flex flex-col min-w-0 min-h-0">
+            {selected && (
+              <div className="px-4 py-2 border-b border-gray-200 dark:border-gray-700 flex flex-wrap items-center gap-3 text-sm bg-gray-50 dark:bg-dark">
+                <span className="text-gray-500">Compare with</span>
+                <select
+                  value={compareToId}
+                  onChange={(e) => setCompareToId(e.target.value)}
+                  className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg px-2 py-1"
+                >
+                  <option value={CURRENT}>Current version</option>
+                  {versions.filter(v => v.id !== selected.id).map(v => (
+                    <option key={v.id} value={v.id}>{formatTime(v.createdAt)}</option>
+                  ))}
+                </select>
+                <span className="text-green-600">+{changes.added}</span>
+                <span className="text-red-500">−{changes.removed}</span>
+                <button
+                  onClick={handleRestore}
+                  disabled={isRestoring || selected.content === note.content}
+                  className="ml-auto flex items-center gap-2 px-3 py-1.5 bg-primary text-white rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <i className={`fa-solid ${isRestoring ? 'fa-circle-notch fa-spin' : 'fa-rotate-left'}`} />
+                  Restore this version
+                </button>
+              </div>
+            )}
+            <div className="flex-1 overflow-auto font-mono text-sm">
+              {selected && diff.every(d => d.op === 'equal') && (
+                <div className="text-center text-gray-400 mt-6 italic font-sans">No differences</div>
+              )}
+              {selected && !diff.every(d => d.op === 'equal') && collapseUnchanged(diff).map((row, i) => (
+                row.op === 'skip' ? (
+                  <div key={i} className="px-4 py-1 text-xs text-gray-400 bg-gray-50 dark:bg-dark font-sans">
+                    ⋯ {row.count} unchanged lines
+                  </div>
+                ) : (
+                  <div
+                    key={i}
+                    className={`px-4 whitespace-pre-wrap break-words ${row.op === 'insert' ? 'bg-green-50 text-green-800 dark:bg-green-900/30 dark:text-green-300' : row.op === 'delete' ? 'bg-red-50 text-red-800 dark:bg-red-900/30 dark:text-red-300 line-through decoration-red-300' : 'text-gray-600 dark:text-gray-300'}`}
+                  >
+                    <span className="select-none opacity-50 mr-2">{row.op === 'insert' ? '+' : row.op === 'delete' ? '−' : ' '}</span>
+                    {row.text || ' '}
+                  </div>
+                )
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,405 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Note, Lecture, LectureSegment, MediaItem } from '../types';
+import { LECTURE_SEGMENT_MS } from '../constants';
+import { getLecturesForNote, putLecture, deleteLecture, getMedia, putMedia } from '../services/storage';
+import {
+  createLecture,
+  recordInSegments,
+  transcribeSegment,
+  structureLecture,
+  formatTimestamp,
+  lectureDuration,
+  lectureLines,
+  RecordedSegment,
+  SegmentedRecording
+} from '../services/lecture';
+import { AiError } from '../services/aiErrors';
+
+interface LecturePanelProps {
+  note: Note;
+  onInsertNotes: (markdown: string) => void;
+  onClose: () => void;
+}
+
+const LecturePanel: React.FC<LecturePanelProps> = ({ note, onInsertNotes, onClose }) => {
+  const [lectures, setLectures] = useState<Lecture[]>([]);
+  const lecturesRef = useRef<Lecture[]>(lectures);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const transcriptionQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Recording
+  const [recording, setRecording] = useState<{ lectureId: string; startedAt: number } | null>(null);
+  const [now, setNow] = useState(Date.now);
+  const recorderRef = useRef<SegmentedRecording | null>(null);
+
+  // Playback
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [audioSource, setAudioSource] = useState<{ lectureId: string; mediaId: string; url: string } | null>(null);
+  const [playhead, setPlayhead] = useState<number | null>(null); // Seconds from the start of the lecture
+
+  const [isStructuring, setIsStructuring] = useState(false);
+
+  const selected = lectures.find(l => l.id === selectedId);
+
+  // Reads the latest lecture, so transcripts arriving in the background don't undo other changes
+  const changeLecture = (id: string, update: (lecture: Lecture) => Lecture) => {
+    const current = lecturesRef.current.find(l => l.id === id);
+    if (!current) return;
+    const updated = { ...update(current), updatedAt: Date.now() };
+    lecturesRef.current = lecturesRef.current.map(l => l.id === id ? updated : l);
+    setLectures(lecturesRef.current);
+    putLecture(updated).catch(err => console.error("Failed to save lecture", err));
+  };
+
+  const updateSegment = (lectureId: string, mediaId: string, changes: Partial<LectureSegment>) => {
+    changeLecture(lectureId, l => ({ ...l, segments: l.segments.map(s => s.mediaId === mediaId ? { ...s, ...changes } : s) }));
+  };
+
+  // One part at a time, in the order they were recorded
+  const queueTranscription = (lectureId: string, mediaId: string) => {
+    const signal = abortRef.current?.signal;
+    if (!signal) return;
+    transcriptionQueueRef.current = transcriptionQueueRef.current.then(async () => {
+      const segment = lecturesRef.current.find(l => l.id === lectureId)?.segments.find(s => s.mediaId === mediaId);
+      if (!segment || signal.aborted) return;
+      try {
+        const media = await getMedia(mediaId);
+        if (!media) throw new Error("The recording is missing.");
+        const lines = await transcribeSegment(media.data, segment, signal);
+        updateSegment(lectureId, mediaId, { status: 'done', lines, error: undefined });
+      } catch (err) {
+        if (signal.aborted) return;
+        console.error("Transcription failed", err);
+        const error = err instanceof AiError ? `${err.message} ${err.guidance}` : "Couldn't transcribe this part. Check your connection and API key.";
+        updateSegment(lectureId, mediaId, { status: 'error', error });
+      }
+    });
+  };
+
+  // Parts left pending when the panel was last closed are picked up again
+  useEffect(() => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    getLecturesForNote(note.id)
+      .then(loaded => {
+        if (controller.signal.aborted) return;
+        lecturesRef.current = loaded;
+        setLectures(loaded);
+        setSelectedId(loaded[0]?.id ?? null);
+        loaded.forEach(l => l.segments.filter(s => s.status === 'pending').forEach(s => queueTranscription(l.id, s.mediaId)));
+      })
+      .catch(err => console.error("Failed to load lectures", err));
+    return () => {
+      controller.abort();
+      recorderRef.current?.stop();
+      recorderRef.current = null;
+    };
+  }, [note.id]);
+
+  useEffect(() => {
+    if (!recording) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [recording]);
+
+  useEffect(() => () => { if (audioSource) URL.revokeObjectURL(audioSource.url); }, [audioSource]);
+
+  // Recording
+  const handleSegment = async (lectureId: string, { blob, start, duration }: RecordedSegment) => {
+    const media: MediaItem = { id: uuidv4(), noteId: note.id, mimeType: blob.type, data: blob, createdAt: Date.now() };
+    try {
+      await putMedia(media);
+    } catch (err) {
+      console.error("Failed to save recording", err);
+      setError("Couldn't save part of the recording. Your device may be out of storage.");
+      return;
+    }
+    changeLecture(lectureId, l => ({
+      ...l,
+      segments: [...l.segments, { mediaId: media.id, start, duration, status: 'pending', lines: [] }],
+    }));
+    queueTranscription(lectureId, media.id);
+  };
+
+  const handleStartRecording = async () => {
+    setError(null);
+    if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+      setError("This browser can't record audio.");
+      return;
+    }
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      setError("Couldn't use the microphone. Allow access in your browser's site settings and try again.");
+      return;
+    }
+
+    const lecture = createLecture(note.id);
+    lecturesRef.current = [lecture, ...lecturesRef.current];
+    setLectures(lecturesRef.current);
+    setSelectedId(lecture.id);
+    putLecture(lecture).catch(err => console.error("Failed to save lecture", err));
+    recorderRef.current = recordInSegments(stream, LECTURE_SEGMENT_MS, segment => handleSegment(lecture.id, segment));
+    setRecording({ lectureId: lecture.id, startedAt: Date.now() });
+    setNow(Date.now());
+  };
+
+  const handleStopRecording = () => {
+    recorderRef.current?.stop();
+    recorderRef.current = null;
+    setRecording(null);
+  };
+
+  const handleClose = () => {
+    if (recording && !window.confirm("Stop recording and close? Everything recorded so far is kept.")) return;
+    onClose();
+  };
+
+  const handleDelete = async (lecture: Lecture) => {
+    if (!window.confirm("Delete this recording and its transcript?")) return;
+    try {
+      await deleteLecture(lecture);
+      if (audioSource?.lectureId === lecture.id) {
+        audioRef.current?.pause();
+        setAudioSource(null);
+        setPlayhead(null);
+      }
+      lecturesRef.current = lecturesRef.current.filter(l => l.id !== lecture.id);
+      setLectures(lecturesRef.current);
+      if (selectedId === lecture.id) setSelectedId(lecturesRef.current[0]?.id ?? null);
+    } catch (err) {
+      console.error("Failed to delete lecture", err);
+    }
+  };
+
+  // Playback
+  const playFrom = async (lecture: Lecture, segment: LectureSegment, seconds: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audioSource?.mediaId !== segment.mediaId) {
+      const media = await getMedia(segment.mediaId);
+      if (!media) {
+        setError("This part of the recording is missing.");
+        return;
+      }
+      const url = URL.createObjectURL(media.data);
+      setAudioSource({ lectureId: lecture.id, mediaId: segment.mediaId, url });
+      audio.src = url;
+    }
+    audio.currentTime = Math.max(0, seconds - segment.start);
+    audio.play().catch(err => console.error("Playback failed", err));
+  };
+
+  const playingSegment = () => {
+    const lecture = lecturesRef.current.find(l => l.id === audioSource?.lectureId);
+    const segment = lecture?.segments.find(s => s.mediaId === audioSource?.mediaId);
+    return lecture && segment ? { lecture, segment } : null;
+  };
+
+  const handleTimeUpdate = () => {
+    const playing = playingSegment();
+    if (playing && audioRef.current) setPlayhead(playing.segment.start + audioRef.current.currentTime);
+  };
+
+  // Parts play on one after another
+  const handleEnded = () => {
+    const playing = playingSegment();
+    if (!playing) return;
+    const { lecture, segment } = playing;
+    const next = lecture.segments[lecture.segments.indexOf(segment) + 1];
+    if (next) playFrom(lecture, next, next.start);
+  };
+
+  // Structured notes
+  const handleCreateNotes = async () => {
+    if (!selected) return;
+    const controller = abortRef.current;
+    setIsStructuring(true);
+    setError(null);
+    try {
+      const markdown = await structureLecture(selected, controller?.signal);
+      if (controller?.signal.aborted) return;
+      onInsertNotes(markdown);
+    } catch (err) {
+      if (!controller?.signal.aborted) {
+        console.error("Lecture notes failed", err);
+        setError("Couldn't write notes from the transcript. Check your connection and API key, then try again.");
+      }
+    } finally {
+      setIsStructuring(false);
+    }
+  };
+
+  const isRecordingSelected = recording?.lectureId === selected?.id;
+  const selectedLines = selected ? lectureLines(selected) : [];
+  const isTranscribing = !!selected?.segments.some(s => s.status === 'pending');
+  const activeLine = playhead === null || audioSource?.lectureId !== selected?.id
+    ? -1
+    : selectedLines.reduce((active, line, i) => line.start <= playhead ? i : active, -1);
+
+  const renderSegment = (lecture: Lecture, segment: LectureSegment, index: number) => {
+    const offset = lectureLines(lecture).indexOf(segment.lines[0]);
+    return (
+      <div key={segment.mediaId} className="mb-4">
+        <div className="flex items-center gap-2 text-xs text-gray-400 mb-1">
+          <span className="font-semibold uppercase">Part {index + 1}</span>
+          <span>{formatTimestamp(segment.start)}–{formatTimestamp(segment.start + segment.duration)}</span>
+          {segment.status === 'pending' && <span><i className="fa-solid fa-circle-notch fa-spin mr-1" />Transcribing...</span>}
+          {segment.status === 'error' && (
+            <>
+              <span className="text-red-500">{segment.error}</span>
+              <button
+                onClick={() => { updateSegment(lecture.id, segment.mediaId, { status: 'pending', error: undefined }); queueTranscription(lecture.id, segment.mediaId); }}
+                className="text-primary hover:underline"
+              >
+                Retry
+              </button>
+            </>
+          )}
+          {segment.status !== 'done' && (
+            <button onClick={() => playFrom(lecture, segment, segment.start)} className="text-primary hover:underline">
+              <i className="fa-solid fa-play mr-1" />Listen
+            </button>
+          )}
+        </div>
+        {segment.status === 'done' && segment.lines.length === 0 && (
+          <p className="text-sm italic text-gray-400">No speech in this part.</p>
+        )}
+        {segment.lines.map((line, i) => (
+          <button
+            key={i}
+            onClick={() => playFrom(lecture, segment, line.start)}
+            className={`w-full flex gap-3 px-2 py-1 rounded-lg text-left text-sm transition-colors ${offset + i === activeLine ? 'bg-primary/10 text-primary' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+            title="Play from here"
+          >
+            <span className="shrink-0 w-12 font-mono text-xs text-gray-400 pt-0.5">{formatTimestamp(line.start)}</span>
+            <span className="flex-1">{line.text}</span>
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={handleClose}>
+      <div
+        className="bg-white dark:bg-darklighter rounded-2xl shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div className="flex items-center gap-2 min-w-0">
+            <i className="fa-solid fa-chalkboard-user text-primary" />
+            <h2 className="font-bold truncate">Lecture Recordings — {note.title}</h2>
+          </div>
+          <button onClick={handleClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full">
+            <i className="fa-solid fa-times text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex flex-col md:flex-row min-h-0">
+          {/* Lecture List */}
+          <div className="md:w-64 max-h-48 md:max-h-none overflow-y-auto border-b md:border-b-0 md:border-r border-gray-200 dark:border-gray-700 p-2">
+            {recording ? (
+              <button
+                onClick={handleStopRecording}
+                className="w-full mb-2 flex items-center justify-center gap-2 px-2 py-1.5 rounded-lg text-sm bg-red-500 text-white hover:bg-red-600 animate-pulse"
+              >
+                <i className="fa-solid fa-stop" /> Stop · {formatTimestamp((now - recording.startedAt) / 1000)}
+              </button>
+            ) : (
+              <button
+                onClick={handleStartRecording}
+                className="w-full mb-2 flex items-center justify-center gap-2 px-2 py-1.5 rounded-lg text-sm bg-primary text-white hover:bg-primary/90"
+              >
+                <i className="fa-solid fa-circle" /> Record lecture
+              </button>
+            )}
+            {lectures.map(lecture => (
+              <div
+                key={lecture.id}
+                onClick={() => setSelectedId(lecture.id)}
+                className={`group flex items-start gap-2 p-2 mb-1 rounded-lg cursor-pointer text-sm transition-colors ${selectedId === lecture.id ? 'bg-primary/10 text-primary border border-primary/20' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium truncate">{lecture.title}</div>
+                  <div className="text-xs text-gray-400">
+                    {recording?.lectureId === lecture.id ? 'Recording...' : formatTimestamp(lectureDuration(lecture))}
+                  </div>
+                </div>
+                {recording?.lectureId !== lecture.id && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); handleDelete(lecture); }}
+                    className="lg:opacity-0 lg:group-hover:opacity-100 p-1 text-gray-400 hover:text-red-500"
+                    title="Delete Recording"
+                  >
+                    <i className="fa-solid fa-trash-can text-xs" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Transcript */}
+          <div className="flex-1 flex flex-col min-w-0 min-h-0">
+            {error && (
+              <div className="m-4 mb-0 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-300 text-sm">
+                <i className="fa-solid fa-triangle-exclamation mr-2" />{error}
+              </div>
+            )}
+            {selected ? (
+              <>
+                <div className="px-4 py-2 border-b border-gray-200 dark:border-gray-700 flex flex-wrap items-center gap-2 text-sm bg-gray-50 dark:bg-dark">
+                  <input
+                    value={selected.title}
+                    onChange={(e) => changeLecture(selected.id, l => ({ ...l, title: e.target.value }))}
+                    className="flex-1 min-w-[10rem] bg-transparent font-medium focus:outline-none"
+                  />
+                  <button
+                    onClick={handleCreateNotes}
+                    disabled={isStructuring || isRecordingSelected || isTranscribing || selectedLines.length === 0}
+                    className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-primary text-white hover:bg-primary/90 disabled:opacity-50"
+                    title={isRecordingSelected || isTranscribing ? 'Available once the whole lecture is transcribed' : 'Write headings, key points and homework into the note'}
+                  >
+                    <i className={`fa-solid ${isStructuring ? 'fa-circle-notch fa-spin' : 'fa-wand-magic-sparkles'}`} />
+                    {isStructuring ? 'Writing notes...' : 'Create notes'}
+                  </button>
+                </div>
+                <div className="flex-1 overflow-y-auto p-4">
+                  {selected.segments.map((segment, i) => renderSegment(selected, segment, i))}
+                  {isRecordingSelected && (
+                    <div className="text-sm text-gray-400 italic">
+                      <i className="fa-solid fa-microphone-lines text-red-500 mr-2" />
+                      Recording... Each {LECTURE_SEGMENT_MS / 60000}-minute part is transcribed as soon as it is recorded.
+                    </div>
+                  )}
+                  {!isRecordingSelected && selected.segments.length === 0 && (
+                    <div className="text-center text-gray-400 mt-6 text-sm italic">Nothing was recorded.</div>
+                  )}
+                </div>
+              </>
+            ) : (
+              <div className="flex-1 flex flex-col items-center justify-center text-gray-400 p-8 text-center">
+                <i className="fa-solid fa-microphone text-4xl mb-3 opacity-50" />
+                <p className="text-sm">Record a class to get a timestamped transcript and structured notes.</p>
+              </div>
+            )}
+            <audio
+              ref={audioRef}
+              controls
+              onTimeUpdate={handleTimeUpdate}
+              onEnded={handleEnded}
+              className={`w-full px-4 py-2 border-t border-gray-200 dark:border-gray-700 ${audioSource ? '' : 'hidden'}`}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LecturePanel;
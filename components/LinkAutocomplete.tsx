@@ -0,0 +1,33 @@
+import React from 'react';
+import { Note } from '../types';
+import { linkTitle } from '../services/links';
+
+interface LinkAutocompleteProps {
+  suggestions: Note[];
+  activeIndex: number;
+  position: { top: number; left: number };
+  onPick: (note: Note) => void;
+  onHover: (index: number) => void;
+}
+
+const LinkAutocomplete: React.FC<LinkAutocompleteProps> = ({ suggestions, activeIndex, position, onPick, onHover }) => (
+  <div
+    className="absolute z-30 w-64 max-h-60 overflow-y-auto bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl py-1"
+    style={{ top: position.top, left: position.left }}
+  >
+    {suggestions.map((note, i) => (
+      <button
+        key={note.id}
+        // Keep focus in the textarea so the caret position survives the click
+        onMouseDown={(e) => { e.preventDefault(); onPick(note); }}
+        onMouseEnter={() => onHover(i)}
+        className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm ${i === activeIndex ? 'bg-primary/10 text-primary' : 'text-gray-700 dark:text-gray-200'}`}
+      >
+        <i className="fa-regular fa-file-lines opacity-60" />
+        <span className="truncate">{linkTitle(note)}</span>
+      </button>
+    ))}
+  </div>
+);
+
+export default LinkAutocomplete;
@@ -0,0 +1,606 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Note, Quiz, ExamPaper, PaperSection, PaperSectionKind, PaperQuestion } from '../types';
+import { getAllPapers, putPaper, deletePaper, getQuizzesForNote } from '../services/storage';
+import {
+  createPaper,
+  createPaperSection,
+  createPaperQuestion,
+  quizQuestionToPaper,
+  collectNoteQuestions,
+  generatePaperQuestions,
+  paperVariant,
+  paperMarks,
+  sectionMarks,
+  questionMarks,
+  isPaperEmpty,
+  PAPER_LABELS,
+  PAPER_SETS,
+  PAPER_SECTION_KINDS,
+  PaperLanguage,
+  PaperSet
+} from '../services/paper';
+import PaperPrintView from './PaperPrintView';
+import PrintArea from './PrintArea';
+
+interface PaperBuilderProps {
+  notes: Note[];
+  initialNoteId: string | null;
+  onClose: () => void;
+}
+
+type PaperMode = 'edit' | 'preview';
+
+const KIND_LABELS: Record<PaperSectionKind, string> = { mcq: 'MCQ', short: 'Short answer', creative: 'Creative' };
+const GENERATE_COUNTS = [1, 2, 3, 5, 10];
+const INPUT_CLASS = "w-full px-3 py-1.5 bg-gray-100 dark:bg-gray-800 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary";
+
+interface QuestionEditorProps {
+  question: PaperQuestion;
+  index: number;
+  count: number;
+  language: PaperLanguage;
+  onChange: (changes: Partial<PaperQuestion>) => void;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+}
+
+const QuestionEditor: React.FC<QuestionEditorProps> = ({ question: q, index, count, language, onChange, onMove, onRemove }) => {
+  const labels = PAPER_LABELS[language];
+  return (
+    <div className="p-3 rounded-xl border border-gray-200 dark:border-gray-700 space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <span className="font-bold text-gray-400">{index + 1}.</span>
+        {q.parts ? (
+          <span className="text-xs text-gray-500">{questionMarks(q)} marks</span>
+        ) : (
+          <label className="flex items-center gap-1 text-xs text-gray-500">
+            Marks
+            <input
+              type="number"
+              min={0}
+              value={q.marks}
+              onChange={(e) => onChange({ marks: Math.max(0, Number(e.target.value)) })}
+              className="w-14 px-2 py-0.5 bg-gray-100 dark:bg-gray-800 rounded"
+            />
+          </label>
+        )}
+        <div className="ml-auto flex gap-1">
+          <button onClick={() => onMove(-1)} disabled={index === 0} className="p-1 text-gray-400 hover:text-primary disabled:opacity-30" title="Move up">
+            <i className="fa-solid fa-arrow-up text-xs" />
+          </button>
+          <button onClick={() => onMove(1)} disabled={index === count - 1} className="p-1 text-gray-400 hover:text-primary disabled:opacity-30" title="Move down">
+            <i className="fa-solid fa-arrow-down text-xs" />
+          </button>
+          <button onClick={onRemove} className="p-1 text-gray-400 hover:text-red-500" title="Remove Question">
+            <i className="fa-solid fa-trash-can text-xs" />
+          </button>
+        </div>
+      </div>
+      <textarea
+        value={q.text}
+        onChange={(e) => onChange({ text: e.target.value })}
+        placeholder={q.parts ? 'Scenario (uddipok)' : 'Question'}
+        rows={q.parts ? 3 : 2}
+        className={`${INPUT_CLASS} resize-none`}
+      />
+      {q.options?.map((option, j) => (
+        <div key={j} className="flex items-center gap-2">
+          <input
+            type="radio"
+            name={`correct-${q.id}`}
+            checked={q.correctIndex === j}
+            onChange={() => onChange({ correctIndex: j })}
+            title="Correct answer"
+            className="accent-green-600"
+          />
+          <span className="text-sm font-bold text-gray-400 w-4">{labels.optionLetters[j]}</span>
+          <input
+            value={option}
+            onChange={(e) => onChange({ options: q.options!.map((o, k) => k === j ? e.target.value : o) })}
+            className={INPUT_CLASS}
+          />
+        </div>
+      ))}
+      {q.parts?.map((part, j) => (
+        <div key={part.id} className="pl-4 border-l-2 border-gray-200 dark:border-gray-700 space-y-1">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-bold text-gray-400 w-4">{labels.partLetters[j]}</span>
+            <input
+              value={part.text}
+              onChange={(e) => onChange({ parts: q.parts!.map(p => p.id === part.id ? { ...p, text: e.target.value } : p) })}
+              placeholder="Question"
+              className={INPUT_CLASS}
+            />
+            <input
+              type="number"
+              min={0}
+              value={part.marks}
+              onChange={(e) => onChange({ parts: q.parts!.map(p => p.id === part.id ? { ...p, marks: Math.max(0, Number(e.target.value)) } : p) })}
+              className="w-14 px-2 py-1.5 bg-gray-100 dark:bg-gray-800 rounded-lg text-sm"
+              title="Marks"
+            />
+          </div>
+          <input
+            value={part.answer}
+            onChange={(e) => onChange({ parts: q.parts!.map(p => p.id === part.id ? { ...p, answer: e.target.value } : p) })}
+            placeholder="Answer key"
+            className={`${INPUT_CLASS} text-xs`}
+          />
+        </div>
+      ))}
+      {!q.parts && (
+        <textarea
+          value={q.answer}
+          onChange={(e) => onChange({ answer: e.target.value })}
+          placeholder={q.options ? 'Explanation (answer key)' : 'Model answer (answer key)'}
+          rows={1}
+          className={`${INPUT_CLASS} text-xs resize-none`}
+        />
+      )}
+    </div>
+  );
+};
+
+const PaperBuilder: React.FC<PaperBuilderProps> = ({ notes, initialNoteId, onClose }) => {
+  const [papers, setPapers] = useState<ExamPaper[]>([]);
+  const papersRef = useRef<ExamPaper[]>(papers);
+  papersRef.current = papers;
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [mode, setMode] = useState<PaperMode>('edit');
+  const [printSet, setPrintSet] = useState<PaperSet>(PAPER_SETS[0]);
+  const [printJob, setPrintJob] = useState<{ answerKey: boolean } | null>(null);
+
+  // Question sources
+  const [sourceNoteId, setSourceNoteId] = useState(initialNoteId || notes[0]?.id || '');
+  const [sourceQuizzes, setSourceQuizzes] = useState<Quiz[]>([]);
+  const [addedKeys, setAddedKeys] = useState<Set<string>>(new Set());
+  const [generateCount, setGenerateCount] = useState(3);
+  const [generatingKind, setGeneratingKind] = useState<PaperSectionKind | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const selected = papers.find(p => p.id === selectedId);
+  const sourceNote = notes.find(n => n.id === sourceNoteId);
+  const noteQuestions = useMemo(() => sourceNote ? collectNoteQuestions(sourceNote) : [], [sourceNote]);
+  const variant = useMemo(() => selected && paperVariant(selected, printSet), [selected, printSet]);
+
+  useEffect(() => {
+    getAllPapers()
+      .then(loaded => {
+        setPapers(loaded);
+        setSelectedId(loaded[0]?.id ?? null);
+      })
+      .catch(err => console.error("Failed to load papers", err));
+    return () => abortRef.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    setSourceQuizzes([]);
+    if (!sourceNoteId) return;
+    let cancelled = false;
+    getQuizzesForNote(sourceNoteId)
+      .then(loaded => { if (!cancelled) setSourceQuizzes(loaded); })
+      .catch(err => console.error("Failed to load quizzes", err));
+    return () => { cancelled = true; };
+  }, [sourceNoteId]);
+
+  // Reads the latest paper, so questions generated in the background don't undo edits made meanwhile
+  const changePaper = (id: string, change: (paper: ExamPaper) => ExamPaper) => {
+    const paper = papersRef.current.find(p => p.id === id);
+    if (!paper) return;
+    const updated = { ...change(paper), updatedAt: Date.now() };
+    papersRef.current = papersRef.current.map(p => p.id === id ? updated : p);
+    setPapers(papersRef.current);
+    putPaper(updated).catch(err => console.error("Failed to save paper", err));
+  };
+
+  const changeSection = (sectionId: string, change: (section: PaperSection) => PaperSection) => {
+    if (!selected) return;
+    changePaper(selected.id, p => ({ ...p, sections: p.sections.map(s => s.id === sectionId ? change(s) : s) }));
+  };
+
+  const handleNewPaper = async (language: PaperLanguage) => {
+    const paper = createPaper(language);
+    try {
+      await putPaper(paper);
+      setPapers(prev => [paper, ...prev]);
+      setSelectedId(paper.id);
+      setMode('edit');
+    } catch (err) {
+      console.error("Failed to create paper", err);
+    }
+  };
+
+  const handleDeletePaper = async (id: string) => {
+    if (!window.confirm("Delete this paper?")) return;
+    try {
+      await deletePaper(id);
+      const remaining = papers.filter(p => p.id !== id);
+      setPapers(remaining);
+      if (selectedId === id) setSelectedId(remaining[0]?.id ?? null);
+    } catch (err) {
+      console.error("Failed to delete paper", err);
+    }
+  };
+
+  // Default section titles follow the language; titles the teacher typed are kept
+  const handleLanguageChange = (language: PaperLanguage) => {
+    if (!selected) return;
+    changePaper(selected.id, p => {
+      const from = PAPER_LABELS[p.language];
+      const to = PAPER_LABELS[language];
+      return {
+        ...p,
+        language,
+        sections: p.sections.map(s => ({
+          ...s,
+          title: s.title === from.sections[s.kind] ? to.sections[s.kind] : s.title,
+          instructions: s.instructions === from.instructions[s.kind] ? to.instructions[s.kind] : s.instructions,
+        })),
+      };
+    });
+  };
+
+  // Added questions go into the first section of their kind, which is created if needed
+  const addQuestions = (kind: PaperSectionKind, questions: PaperQuestion[], keys: string[] = []) => {
+    if (!selected || questions.length === 0) return;
+    // The same source question can be added twice, so each copy gets its own id
+    questions = questions.map(q => ({ ...q, id: uuidv4() }));
+    changePaper(selected.id, p => {
+      const target = p.sections.find(s => s.kind === kind);
+      return {
+        ...p,
+        sections: target
+          ? p.sections.map(s => s === target ? { ...s, questions: [...s.questions, ...questions] } : s)
+          : [...p.sections, { ...createPaperSection(kind, p.language), questions }],
+      };
+    });
+    setAddedKeys(prev => new Set([...prev, ...keys]));
+  };
+
+  const handleGenerate = async (kind: 'short' | 'creative') => {
+    if (!sourceNote || !selected) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setGeneratingKind(kind);
+    setError(null);
+    try {
+      addQuestions(kind, await generatePaperQuestions(sourceNote, kind, generateCount, controller.signal));
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error("Question generation failed", err);
+        setError("Couldn't generate questions. Check your connection and API key, then try again.");
+      }
+    } finally {
+      setGeneratingKind(null);
+    }
+  };
+
+  const moveQuestion = (sectionId: string, index: number, offset: number) => changeSection(sectionId, s => {
+    const questions = [...s.questions];
+    const [moved] = questions.splice(index, 1);
+    questions.splice(index + offset, 0, moved);
+    return { ...s, questions };
+  });
+
+  const handleRemoveSection = (section: PaperSection) => {
+    if (!selected) return;
+    if (section.questions.length > 0 && !window.confirm(`Remove "${section.title}" and its ${section.questions.length} questions?`)) return;
+    changePaper(selected.id, p => ({ ...p, sections: p.sections.filter(s => s.id !== section.id) }));
+  };
+
+  const renderSourceItem = (key: string, text: string, onAdd: () => void) => (
+    <div key={key} className="flex items-start gap-2 p-2 rounded-lg text-xs hover:bg-gray-50 dark:hover:bg-gray-800">
+      <span className="flex-1 line-clamp-2">{text}</span>
+      <button
+        onClick={onAdd}
+        disabled={!selected}
+        className="p-1 text-gray-400 hover:text-primary disabled:opacity-30"
+        title="Add to paper"
+      >
+        <i className={`fa-solid ${addedKeys.has(key) ? 'fa-check text-green-500' : 'fa-plus'}`} />
+      </button>
+    </div>
+  );
+
+  const renderEditor = () => selected && (
+    <div className="max-w-3xl mx-auto space-y-4">
+      <input
+        value={selected.title}
+        onChange={(e) => changePaper(selected.id, p => ({ ...p, title: e.target.value }))}
+        className="w-full px-3 py-2 bg-gray-100 dark:bg-gray-800 rounded-lg font-bold focus:outline-none focus:ring-2 focus:ring-primary"
+      />
+
+      {/* Paper header */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 p-3 rounded-xl border border-gray-200 dark:border-gray-700">
+        {([
+          ['school', 'School name'],
+          ['exam', 'Exam name'],
+          ['className', 'Class'],
+          ['subject', 'Subject'],
+          ['duration', 'Time allowed'],
+        ] as [keyof ExamPaper['header'], string][]).map(([field, label]) => (
+          <input
+            key={field}
+            value={selected.header[field]}
+            onChange={(e) => changePaper(selected.id, p => ({ ...p, header: { ...p.header, [field]: e.target.value } }))}
+            placeholder={label}
+            className={`${INPUT_CLASS} ${field === 'school' ? 'sm:col-span-2' : ''}`}
+          />
+        ))}
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          Printed in
+          <div className="flex bg-gray-200 dark:bg-gray-700 rounded-lg p-0.5">
+            {([['en', 'English'], ['bn', 'বাংলা']] as [PaperLanguage, string][]).map(([language, label]) => (
+              <button
+                key={language}
+                onClick={() => handleLanguageChange(language)}
+                className={`px-3 py-0.5 rounded-md ${selected.language === language ? 'bg-white dark:bg-gray-900 shadow-sm font-medium' : ''}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {selected.sections.map(section => (
+        <div key={section.id} className="space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="px-2 py-0.5 rounded-full text-xs bg-primary/10 text-primary whitespace-nowrap">{KIND_LABELS[section.kind]}</span>
+            <input
+              value={section.title}
+              onChange={(e) => changeSection(section.id, s => ({ ...s, title: e.target.value }))}
+              className="flex-1 min-w-0 px-2 py-1 bg-transparent font-semibold border-b border-transparent hover:border-gray-300 focus:border-primary focus:outline-none"
+            />
+            <span className="text-sm text-gray-500 whitespace-nowrap">{sectionMarks(section)} marks</span>
+            <button onClick={() => handleRemoveSection(section)} className="p-1 text-gray-400 hover:text-red-500" title="Remove Section">
+              <i className="fa-solid fa-xmark" />
+            </button>
+          </div>
+          <input
+            value={section.instructions}
+            onChange={(e) => changeSection(section.id, s => ({ ...s, instructions: e.target.value }))}
+            placeholder="Instructions"
+            className={`${INPUT_CLASS} italic text-xs`}
+          />
+          {section.questions.map((q, i) => (
+            <QuestionEditor
+              key={q.id}
+              question={q}
+              index={i}
+              count={section.questions.length}
+              language={selected.language}
+              onChange={(changes) => changeSection(section.id, s => ({ ...s, questions: s.questions.map(x => x.id === q.id ? { ...x, ...changes } : x) }))}
+              onMove={(offset) => moveQuestion(section.id, i, offset)}
+              onRemove={() => changeSection(section.id, s => ({ ...s, questions: s.questions.filter(x => x.id !== q.id) }))}
+            />
+          ))}
+          <button
+            onClick={() => changeSection(section.id, s => ({ ...s, questions: [...s.questions, createPaperQuestion(s.kind)] }))}
+            className="w-full p-2 rounded-xl border border-dashed border-gray-300 dark:border-gray-600 text-sm text-primary hover:bg-primary/5"
+          >
+            <i className="fa-solid fa-plus mr-2" />Write a question
+          </button>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2 text-sm text-gray-500 pt-2 border-t border-gray-200 dark:border-gray-700">
+        Add section:
+        {PAPER_SECTION_KINDS.map(kind => (
+          <button
+            key={kind}
+            onClick={() => changePaper(selected.id, p => ({ ...p, sections: [...p.sections, createPaperSection(kind, p.language)] }))}
+            className="px-2 py-1 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 text-primary"
+          >
+            {KIND_LABELS[kind]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-darklighter rounded-2xl shadow-2xl w-full max-w-7xl h-[90vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <i className="fa-solid fa-file-signature text-primary" />
+            <h2 className="font-bold">Exam Papers</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full">
+            <i className="fa-solid fa-times text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex flex-col md:flex-row min-h-0">
+          {/* Paper List */}
+          <div className="md:w-56 max-h-40 md:max-h-none overflow-y-auto border-b md:border-b-0 md:border-r border-gray-200 dark:border-gray-700 p-2">
+            <div className="flex gap-1 mb-2">
+              <button
+                onClick={() => handleNewPaper('en')}
+                className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 rounded-lg text-sm bg-primary text-white hover:bg-primary/90"
+              >
+                <i className="fa-solid fa-plus" /> Paper
+              </button>
+              <button
+                onClick={() => handleNewPaper('bn')}
+                className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 rounded-lg text-sm text-primary hover:bg-primary/10"
+                title="New paper in Bangla"
+              >
+                <i className="fa-solid fa-plus" /> বাংলা
+              </button>
+            </div>
+            {papers.map(paper => (
+              <div
+                key={paper.id}
+                onClick={() => setSelectedId(paper.id)}
+                className={`group flex items-start gap-2 p-2 mb-1 rounded-lg cursor-pointer text-sm transition-colors ${selectedId === paper.id ? 'bg-primary/10 text-primary border border-primary/20' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium truncate">{paper.title || 'Untitled Paper'}</div>
+                  <div className="text-xs text-gray-400">{paperMarks(paper)} marks</div>
+                </div>
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleDeletePaper(paper.id); }}
+                  className="lg:opacity-0 lg:group-hover:opacity-100 p-1 text-gray-400 hover:text-red-500"
+                  title="Delete Paper"
+                >
+                  <i className="fa-solid fa-trash-can text-xs" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Paper */}
+          <div className="flex-1 flex flex-col min-w-0 min-h-0">
+            {selected && variant ? (
+              <>
+                <div className="px-4 py-2 border-b border-gray-200 dark:border-gray-700 flex flex-wrap items-center gap-2 text-sm bg-gray-50 dark:bg-dark">
+                  <div className="flex bg-gray-200 dark:bg-gray-700 rounded-lg p-0.5">
+                    {(['edit', 'preview'] as PaperMode[]).map(m => (
+                      <button
+                        key={m}
+                        onClick={() => setMode(m)}
+                        className={`px-3 py-1 rounded-md capitalize ${mode === m ? 'bg-white dark:bg-gray-900 shadow-sm font-medium' : 'text-gray-500'}`}
+                      >
+                        {m}
+                      </button>
+                    ))}
+                  </div>
+                  <span className="font-medium">Total: {paperMarks(selected)} marks</span>
+                  <div className="ml-auto flex items-center gap-2">
+                    <select
+                      value={printSet}
+                      onChange={(e) => setPrintSet(e.target.value as PaperSet)}
+                      className="bg-gray-100 dark:bg-gray-800 rounded-lg px-2 py-1"
+                      title="Set B shuffles questions and MCQ options"
+                    >
+                      {PAPER_SETS.map(set => <option key={set} value={set}>Set {set}</option>)}
+                    </select>
+                    <button
+                      onClick={() => setPrintJob({ answerKey: false })}
+                      disabled={isPaperEmpty(selected)}
+                      className="flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40"
+                    >
+                      <i className="fa-solid fa-print text-primary" /> Print paper
+                    </button>
+                    <button
+                      onClick={() => setPrintJob({ answerKey: true })}
+                      disabled={isPaperEmpty(selected)}
+                      className="flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40"
+                    >
+                      <i className="fa-solid fa-key text-secondary" /> Answer key
+                    </button>
+                  </div>
+                </div>
+                <div className="flex-1 overflow-y-auto p-4">
+                  {mode === 'edit' ? renderEditor() : (
+                    <div className="max-w-3xl mx-auto p-8 bg-white shadow-lg border border-gray-200 rounded">
+                      <PaperPrintView paper={variant} set={printSet} answerKey={false} />
+                    </div>
+                  )}
+                </div>
+              </>
+            ) : (
+              <div className="flex-1 flex flex-col items-center justify-center text-gray-400 p-8 text-center">
+                <i className="fa-solid fa-file-signature text-4xl mb-3 opacity-50" />
+                <p className="text-sm">Create a paper, then add questions from your notes and quizzes.</p>
+              </div>
+            )}
+          </div>
+
+          {/* Question Sources */}
+          <div className="md:w-72 max-h-60 md:max-h-none overflow-y-auto border-t md:border-t-0 md:border-l border-gray-200 dark:border-gray-700 p-3 space-y-4">
+            <select
+              value={sourceNoteId}
+              onChange={(e) => setSourceNoteId(e.target.value)}
+              className="w-full text-sm bg-gray-100 dark:bg-gray-800 rounded-lg px-2 py-1.5"
+            >
+              {notes.map(n => <option key={n.id} value={n.id}>{n.title}</option>)}
+            </select>
+
+            {error && (
+              <div className="p-2 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-300 text-xs">
+                <i className="fa-solid fa-triangle-exclamation mr-1" />{error}
+              </div>
+            )}
+
+            <div>
+              <div className="text-xs font-semibold text-gray-500 uppercase mb-2">Generate with AI</div>
+              <div className="flex items-center gap-1">
+                <select
+                  value={generateCount}
+                  onChange={(e) => setGenerateCount(Number(e.target.value))}
+                  className="text-sm bg-gray-100 dark:bg-gray-800 rounded-lg px-1 py-1"
+                  title="Number of questions"
+                >
+                  {GENERATE_COUNTS.map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+                {(['short', 'creative'] as const).map(kind => (
+                  <button
+                    key={kind}
+                    onClick={() => handleGenerate(kind)}
+                    disabled={!selected || !sourceNote || !!generatingKind}
+                    className="flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded-lg text-xs bg-primary/10 text-primary hover:bg-primary/20 disabled:opacity-40"
+                  >
+                    <i className={`fa-solid ${generatingKind === kind ? 'fa-circle-notch fa-spin' : 'fa-wand-magic-sparkles'}`} />
+                    {KIND_LABELS[kind]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {sourceQuizzes.map(quiz => (
+              <div key={quiz.id}>
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="flex-1 text-xs font-semibold text-gray-500 uppercase truncate">{quiz.title}</span>
+                  <button
+                    onClick={() => addQuestions('mcq', quiz.questions.map(quizQuestionToPaper), quiz.questions.map(q => `quiz:${q.id}`))}
+                    disabled={!selected}
+                    className="text-xs text-primary hover:underline disabled:opacity-40"
+                  >
+                    Add all
+                  </button>
+                </div>
+                {quiz.questions.map(q => renderSourceItem(`quiz:${q.id}`, q.question, () => addQuestions('mcq', [quizQuestionToPaper(q)], [`quiz:${q.id}`])))}
+              </div>
+            ))}
+
+            <div>
+              <div className="flex items-center gap-2 mb-1">
+                <span className="flex-1 text-xs font-semibold text-gray-500 uppercase">From the note</span>
+                {noteQuestions.length > 0 && (
+                  <button
+                    onClick={() => addQuestions('short', noteQuestions, noteQuestions.map(q => `note:${sourceNoteId}:${q.text}`))}
+                    disabled={!selected}
+                    className="text-xs text-primary hover:underline disabled:opacity-40"
+                  >
+                    Add all
+                  </button>
+                )}
+              </div>
+              {noteQuestions.length === 0 && (
+                <p className="text-xs text-gray-400 italic">No questions found. Numbered lines ending in "?" and "Q:: A" lines are picked up.</p>
+              )}
+              {noteQuestions.map(q => renderSourceItem(`note:${sourceNoteId}:${q.text}`, q.text, () => addQuestions('short', [q], [`note:${sourceNoteId}:${q.text}`])))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {printJob && variant && (
+        <PrintArea onDone={() => setPrintJob(null)}>
+          <PaperPrintView paper={variant} set={printSet} answerKey={printJob.answerKey} />
+        </PrintArea>
+      )}
+    </div>
+  );
+};
+
+export default PaperBuilder;
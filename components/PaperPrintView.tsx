@@ -0,0 +1,140 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeKatex from 'rehype-katex';
+import { ExamPaper, PaperQuestion } from '../types';
+import { PAPER_LABELS, PaperSet, formatNumber, paperMarks, sectionMarksSummary } from '../services/paper';
+
+interface PaperPrintViewProps {
+  paper: ExamPaper; // Already shuffled for the set
+  set: PaperSet;
+  answerKey: boolean;
+}
+
+// Option and part text sits on one line with its letter, so paragraphs render inline
+const InlineMarkdown: React.FC<{ children: string }> = ({ children }) => (
+  <ReactMarkdown
+    remarkPlugins={[remarkGfm]}
+    rehypePlugins={[rehypeKatex]}
+    components={{ p: ({ children }) => <span>{children}</span> }}
+  >
+    {children}
+  </ReactMarkdown>
+);
+
+const BlockMarkdown: React.FC<{ children: string }> = ({ children }) => (
+  <div className="[&_p]:my-1">
+    <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeKatex]}>{children}</ReactMarkdown>
+  </div>
+);
+
+const PaperPrintView: React.FC<PaperPrintViewProps> = ({ paper, set, answerKey }) => {
+  const labels = PAPER_LABELS[paper.language];
+  const num = (n: number) => formatNumber(n, paper.language);
+  const { header } = paper;
+  const sections = paper.sections.filter(s => s.questions.length > 0);
+
+  const sectionHeading = (index: number, title: string) => {
+    const letter = labels.sectionLetters[index] || num(index + 1);
+    return paper.language === 'bn' ? `${letter} ${labels.sectionPrefix}: ${title}` : `${labels.sectionPrefix} ${letter}: ${title}`;
+  };
+
+  const renderQuestion = (q: PaperQuestion, i: number) => (
+    <div key={q.id} className="break-inside-avoid mb-3">
+      <div className="flex gap-2">
+        <span className="font-semibold">{num(i + 1)}.</span>
+        <div className="flex-1"><BlockMarkdown>{q.text}</BlockMarkdown></div>
+        {!q.options && !q.parts && <span className="font-semibold">{num(q.marks)}</span>}
+      </div>
+      {q.options && (
+        <div className="grid grid-cols-2 gap-x-6 gap-y-1 pl-6 mt-1">
+          {q.options.map((option, j) => (
+            <div key={j}>({labels.optionLetters[j]}) <InlineMarkdown>{option}</InlineMarkdown></div>
+          ))}
+        </div>
+      )}
+      {q.parts && (
+        <div className="pl-6 mt-1 space-y-1">
+          {q.parts.map((part, j) => (
+            <div key={part.id} className="flex gap-2">
+              <span>{labels.partLetters[j]}.</span>
+              <div className="flex-1"><InlineMarkdown>{part.text}</InlineMarkdown></div>
+              <span className="font-semibold">{num(part.marks)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderAnswer = (q: PaperQuestion, i: number) => {
+    if (q.options) {
+      const correct = q.correctIndex ?? 0;
+      return (
+        <div key={q.id} className="break-inside-avoid">
+          <span className="font-semibold">{num(i + 1)}.</span> ({labels.optionLetters[correct]}) <InlineMarkdown>{q.options[correct] || ''}</InlineMarkdown>
+        </div>
+      );
+    }
+    return (
+      <div key={q.id} className="break-inside-avoid mb-2">
+        <div className="flex gap-2">
+          <span className="font-semibold">{num(i + 1)}.</span>
+          <div className="flex-1">
+            {q.parts ? q.parts.map((part, j) => (
+              <div key={part.id} className="flex gap-2">
+                <span>{labels.partLetters[j]}.</span>
+                <div className="flex-1"><BlockMarkdown>{part.answer || '—'}</BlockMarkdown></div>
+                <span className="text-gray-600">[{num(part.marks)}]</span>
+              </div>
+            )) : <BlockMarkdown>{q.answer || '—'}</BlockMarkdown>}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div lang={paper.language} className="bg-white text-black font-serif text-[12pt] leading-relaxed">
+      {/* School header */}
+      <div className="text-center border-b-2 border-black pb-2 mb-3">
+        {header.school && <h1 className="text-xl font-bold">{header.school}</h1>}
+        <h2 className="text-lg font-semibold">
+          {header.exam || paper.title}{answerKey && ` — ${labels.answerKey}`}
+        </h2>
+        <div className="flex justify-between text-sm mt-2">
+          <span>{header.className && `${labels.className}: ${header.className}`}</span>
+          <span>{header.subject && `${labels.subject}: ${header.subject}`}</span>
+          <span className="font-semibold border border-black px-2">{labels.set}: {labels.setNames[set]}</span>
+        </div>
+        <div className="flex justify-between text-sm">
+          <span>{header.duration && `${labels.time}: ${header.duration}`}</span>
+          <span>{labels.fullMarks}: {num(paperMarks(paper))}</span>
+        </div>
+      </div>
+      {!answerKey && (
+        <div className="flex gap-8 text-sm mb-4">
+          <span className="flex-1">{labels.name}: ..............................................</span>
+          <span>{labels.roll}: ............</span>
+        </div>
+      )}
+
+      {sections.map((section, index) => (
+        <div key={section.id} className="mb-5">
+          <div className="flex justify-between items-baseline border-b border-black mb-1 break-after-avoid">
+            <h3 className="font-bold">{sectionHeading(index, section.title)}</h3>
+            <span className="font-semibold">{sectionMarksSummary(section, paper.language)}</span>
+          </div>
+          {!answerKey && section.instructions && <p className="italic text-sm mb-2">{section.instructions}</p>}
+          {answerKey && section.kind === 'mcq' ? (
+            <div className="grid grid-cols-2 gap-x-6 gap-y-1 mt-2">{section.questions.map(renderAnswer)}</div>
+          ) : (
+            <div className="mt-2">{section.questions.map(answerKey ? renderAnswer : renderQuestion)}</div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PaperPrintView;
@@ -0,0 +1,275 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeKatex from 'rehype-katex';
+import { NoteTranslation, ParallelParagraph } from '../types';
+import { NOTE_SAVE_DEBOUNCE_MS, TRANSLATE_DEBOUNCE_MS } from '../constants';
+import { getTranslation, putTranslation } from '../services/storage';
+import {
+  LANGUAGE_NAMES,
+  otherLanguage,
+  splitParagraphs,
+  alignParagraphs,
+  sameSources,
+  needsTranslation,
+  needsRetranslation,
+  createNoteTranslation,
+  translateParagraphs,
+  handoutTitle
+} from '../services/bilingual';
+import PrintArea from './PrintArea';
+
+interface ParallelViewProps {
+  noteId: string;
+  content: string;
+  onChange: (content: string) => void;
+}
+
+// Grows with its text so both sides of a row line up
+const AutoTextarea: React.FC<React.TextareaHTMLAttributes<HTMLTextAreaElement>> = (props) => {
+  const ref = useRef<HTMLTextAreaElement>(null);
+  useLayoutEffect(() => {
+    const textarea = ref.current;
+    if (!textarea) return;
+    textarea.style.height = 'auto';
+    textarea.style.height = `${textarea.scrollHeight}px`;
+  }, [props.value]);
+  return <textarea ref={ref} rows={1} {...props} />;
+};
+
+const ParallelView: React.FC<ParallelViewProps> = ({ noteId, content, onChange }) => {
+  const [translation, setTranslation] = useState<NoteTranslation | null>(null); // null while loading
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [retryCount, setRetryCount] = useState(0);
+  const [isPrinting, setIsPrinting] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const paragraphs = useMemo(() => splitParagraphs(content), [content]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getTranslation(noteId)
+      .then(saved => { if (!cancelled) setTranslation(saved || createNoteTranslation(noteId, content)); })
+      .catch(err => {
+        console.error("Failed to load translation", err);
+        if (!cancelled) setTranslation(createNoteTranslation(noteId, content));
+      });
+    return () => { cancelled = true; };
+  }, [noteId]);
+
+  // Keep the pairs in step with the note as it is edited, here or anywhere else
+  if (translation && !sameSources(translation.paragraphs, paragraphs)) {
+    setTranslation({
+      ...translation,
+      paragraphs: alignParagraphs(paragraphs.map(p => p.text), translation.paragraphs),
+      updatedAt: Date.now(),
+    });
+  }
+
+  useEffect(() => {
+    if (!translation) return;
+    const timer = setTimeout(() => {
+      putTranslation(translation).catch(err => console.error("Failed to save translation", err));
+    }, NOTE_SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [translation]);
+
+  // Only paragraphs that changed since they were last translated are sent, once typing pauses
+  useEffect(() => {
+    if (!translation) return;
+    const pending = translation.paragraphs.filter(needsRetranslation);
+    if (pending.length === 0) return;
+    const { targetLanguage } = translation;
+
+    const timer = setTimeout(async () => {
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setIsTranslating(true);
+      setError(null);
+
+      try {
+        const results = await translateParagraphs(pending.map(p => p.source), targetLanguage, controller.signal);
+        const done = new Map(pending.map((p, i) => [p.id, { source: p.source, translation: results[i] }]));
+        setTranslation(prev => prev && prev.targetLanguage === targetLanguage ? {
+          ...prev,
+          // Paragraphs edited or locked while the request was running keep their current state
+          paragraphs: prev.paragraphs.map(p => {
+            const result = done.get(p.id);
+            return result && !p.locked && p.source === result.source
+              ? { ...p, translation: result.translation, translatedFrom: result.source }
+              : p;
+          }),
+          updatedAt: Date.now(),
+        } : prev);
+      } catch (err) {
+        if (!controller.signal.aborted) setError("Couldn't translate the changed paragraphs. Check your connection and API key.");
+      } finally {
+        if (abortRef.current === controller) {
+          abortRef.current = null;
+          setIsTranslating(false);
+        }
+      }
+    }, TRANSLATE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [translation, retryCount]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const updateParagraph = (id: string, changes: Partial<ParallelParagraph>) => {
+    setTranslation(prev => prev && {
+      ...prev,
+      paragraphs: prev.paragraphs.map(p => p.id === id ? { ...p, ...changes } : p),
+      updatedAt: Date.now(),
+    });
+  };
+
+  const handleSourceChange = (index: number, text: string) => {
+    const { start, end } = paragraphs[index];
+    onChange(content.slice(0, start) + text + content.slice(end));
+  };
+
+  const switchLanguage = () => {
+    if (!translation) return;
+    if (translation.paragraphs.some(p => p.locked) && !confirm("Switching language discards your hand-edited translations. Continue?")) return;
+    abortRef.current?.abort();
+    setTranslation({
+      ...translation,
+      targetLanguage: otherLanguage(translation.targetLanguage),
+      paragraphs: translation.paragraphs.map(p => ({ ...p, translation: '', translatedFrom: null, locked: false })),
+      updatedAt: Date.now(),
+    });
+  };
+
+  if (!translation) {
+    return (
+      <div className="flex-1 flex items-center justify-center text-gray-400">
+        <i className="fa-solid fa-spinner fa-spin" />
+      </div>
+    );
+  }
+
+  const sourceLanguage = otherLanguage(translation.targetLanguage);
+  const pairs = translation.paragraphs;
+  const pendingCount = pairs.filter(needsRetranslation).length;
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-gray-200 dark:border-gray-700 text-sm">
+        <button
+          onClick={switchLanguage}
+          className="flex items-center gap-2 px-2 py-1 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300"
+          title="Swap translation direction"
+        >
+          {LANGUAGE_NAMES[sourceLanguage]} <i className="fa-solid fa-arrow-right-arrow-left text-xs text-gray-400" /> {LANGUAGE_NAMES[translation.targetLanguage]}
+        </button>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {isTranslating
+              ? <><i className="fa-solid fa-spinner fa-spin mr-1" />Translating...</>
+              : pendingCount > 0 ? `${pendingCount} paragraph${pendingCount === 1 ? '' : 's'} to translate` : 'Up to date'}
+          </span>
+          <button
+            onClick={() => setIsPrinting(true)}
+            disabled={pairs.length === 0}
+            className="flex items-center gap-2 px-3 py-1 rounded-lg bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            <i className="fa-solid fa-print" /> Handout
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center justify-between gap-2 mx-4 mt-3 p-2 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm">
+          <span>{error}</span>
+          <button onClick={() => { setError(null); setRetryCount(c => c + 1); }} className="font-medium hover:underline">Retry</button>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-4">
+        {pairs.length === 0 ? (
+          <div className="h-full flex flex-col items-center justify-center text-gray-400 opacity-50">
+            <i className="fa-solid fa-language text-4xl mb-2" />
+            <p>Write some paragraphs to see them side by side with their translation.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-x-4 gap-y-3">
+            <div className="text-xs font-semibold uppercase text-gray-400">{LANGUAGE_NAMES[sourceLanguage]}</div>
+            <div className="text-xs font-semibold uppercase text-gray-400">{LANGUAGE_NAMES[translation.targetLanguage]}</div>
+            {pairs.map((pair, index) => {
+              const translatable = needsTranslation(pair.source);
+              const sourceChanged = pair.locked && pair.translatedFrom !== pair.source;
+              return (
+                <React.Fragment key={pair.id}>
+                  <AutoTextarea
+                    value={pair.source}
+                    onChange={(e) => handleSourceChange(index, e.target.value)}
+                    spellCheck={false}
+                    className="w-full p-2 rounded-lg resize-none overflow-hidden border border-gray-200 dark:border-gray-700 bg-transparent font-mono text-sm leading-relaxed text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-primary/50"
+                  />
+                  {translatable ? (
+                    <div className="relative group">
+                      <AutoTextarea
+                        value={pair.translation}
+                        onChange={(e) => updateParagraph(pair.id, { translation: e.target.value, locked: true })}
+                        placeholder={needsRetranslation(pair) ? 'Translating...' : ''}
+                        className={`w-full p-2 pr-8 rounded-lg resize-none overflow-hidden border bg-transparent text-sm leading-relaxed text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-primary/50 ${pair.locked ? 'border-amber-300 dark:border-amber-700' : 'border-gray-200 dark:border-gray-700'} ${needsRetranslation(pair) && pair.translation ? 'opacity-60' : ''}`}
+                      />
+                      <button
+                        onClick={() => updateParagraph(pair.id, pair.locked ? { locked: false, translatedFrom: null } : { locked: true })}
+                        className={`absolute top-2 right-2 text-xs ${pair.locked ? 'text-amber-500' : 'text-gray-300 dark:text-gray-600 lg:opacity-0 lg:group-hover:opacity-100 hover:text-gray-500'}`}
+                        title={pair.locked ? 'Unlock and translate again' : 'Lock this translation'}
+                      >
+                        <i className={`fa-solid ${pair.locked ? 'fa-lock' : 'fa-lock-open'}`} />
+                      </button>
+                      {sourceChanged && (
+                        <p className="mt-1 text-xs text-amber-600 dark:text-amber-400">
+                          <i className="fa-solid fa-triangle-exclamation mr-1" />The source changed since this was locked.
+                        </p>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="p-2 font-mono text-sm text-gray-400 whitespace-pre-wrap">{pair.source}</div>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {isPrinting && (
+        <PrintArea onDone={() => setIsPrinting(false)}>
+          <div className="bg-white text-black font-serif text-[12pt] leading-relaxed">
+            <h1 className="text-xl font-bold text-center mb-4">{handoutTitle(content)}</h1>
+            <table className="w-full border-collapse table-fixed">
+              <thead>
+                <tr>
+                  <th lang={sourceLanguage} className="border border-black p-2 text-left">{LANGUAGE_NAMES[sourceLanguage]}</th>
+                  <th lang={translation.targetLanguage} className="border border-black p-2 text-left">{LANGUAGE_NAMES[translation.targetLanguage]}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pairs.map(pair => (
+                  <tr key={pair.id} className="break-inside-avoid">
+                    <td lang={sourceLanguage} className="border border-black p-2 align-top [&_p]:my-1">
+                      <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeKatex]}>{pair.source}</ReactMarkdown>
+                    </td>
+                    <td lang={translation.targetLanguage} className="border border-black p-2 align-top [&_p]:my-1">
+                      <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeKatex]}>
+                        {needsTranslation(pair.source) ? pair.translation : pair.source}
+                      </ReactMarkdown>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </PrintArea>
+      )}
+    </div>
+  );
+};
+
+export default ParallelView;
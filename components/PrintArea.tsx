@@ -0,0 +1,20 @@
+import React, { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+
+interface PrintAreaProps {
+  children: React.ReactNode;
+  onDone: () => void;
+}
+
+// Renders its children into the only part of the page that prints, then opens the print dialog
+const PrintArea: React.FC<PrintAreaProps> = ({ children, onDone }) => {
+  useEffect(() => {
+    window.addEventListener('afterprint', onDone);
+    window.print();
+    return () => window.removeEventListener('afterprint', onDone);
+  }, []);
+
+  return createPortal(<div id="print-area">{children}</div>, document.body);
+};
+
+export default PrintArea;
@@ -1,23 +1,33 @@
 import React, { useState } from 'react';
 import { QuickAction } from '../types';
-import { QUICK_ACTIONS } from '../constants';
 
 interface QuickActionsProps {
-  onAction: (prompt: string) => void;
+  actions: QuickAction[];
+  onAction: (action: QuickAction) => void;
+  onCustomize: () => void;
 }
 
-const QuickActions: React.FC<QuickActionsProps> = ({ onAction }) => {
+const QuickActions: React.FC<QuickActionsProps> = ({ actions, onAction, onCustomize }) => {
   const [isOpen, setIsOpen] = useState(false);
 
   return (
     <div className="absolute bottom-6 right-6 z-20 flex flex-col items-end gap-2">
       {isOpen && (
         <div className="flex flex-col gap-2 mb-2 animate-slide-up origin-bottom-right">
-          {QUICK_ACTIONS.map((action) => (
+          <button
+            onClick={() => {
+              onCustomize();
+              setIsOpen(false);
+            }}
+            className="flex items-center justify-end gap-2 px-3 py-1 text-xs text-gray-500 dark:text-gray-400 hover:text-primary"
+          >
+            <i className="fa-solid fa-sliders" /> Customize
+          </button>
+          {actions.map((action) => (
             <button
-              key={action.label}
+              key={action.id}
               onClick={() => {
-                onAction(action.prompt);
+                onAction(action);
                 setIsOpen(false);
               }}
               className="flex items-center justify-end gap-3 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 px-4 py-2 rounded-full shadow-lg hover:bg-gray-50 dark:hover:bg-gray-700 border border-gray-200 dark:border-gray-600 transition-transform hover:scale-105 active:scale-95"
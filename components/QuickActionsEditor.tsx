@@ -0,0 +1,281 @@
+import React, { useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { QuickAction } from '../types';
+import { QUICK_ACTIONS, QUICK_ACTION_ICONS } from '../constants';
+import { PROMPT_VARIABLES, moveQuickAction, serializeQuickActions, parseQuickActions } from '../services/quickActions';
+import { downloadBlob } from '../services/fileUtils';
+
+interface QuickActionsEditorProps {
+  actions: QuickAction[];
+  onSave: (actions: QuickAction[]) => void;
+  onClose: () => void;
+}
+
+const QuickActionsEditor: React.FC<QuickActionsEditorProps> = ({ actions, onSave, onClose }) => {
+  const [draft, setDraft] = useState<QuickAction[]>(actions);
+  const [selectedId, setSelectedId] = useState<string | null>(actions[0]?.id ?? null);
+  const [isSharing, setIsSharing] = useState(false);
+  const [shareText, setShareText] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const promptRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = draft.find(a => a.id === selectedId);
+  const isValid = draft.every(a => a.label.trim() && a.prompt.trim());
+
+  const updateSelected = (changes: Partial<QuickAction>) => {
+    setDraft(prev => prev.map(a => a.id === selectedId ? { ...a, ...changes } : a));
+  };
+
+  const handleAdd = () => {
+    const action: QuickAction = { id: uuidv4(), label: 'New Action', prompt: '', icon: 'fa-bolt' };
+    setDraft(prev => [...prev, action]);
+    setSelectedId(action.id);
+  };
+
+  const handleDelete = (id: string) => {
+    const index = draft.findIndex(a => a.id === id);
+    const remaining = draft.filter(a => a.id !== id);
+    setDraft(remaining);
+    if (selectedId === id) setSelectedId(remaining[Math.min(index, remaining.length - 1)]?.id ?? null);
+  };
+
+  const insertVariable = (name: string) => {
+    const textarea = promptRef.current;
+    if (!selected || !textarea) return;
+    const token = `{{${name}}}`;
+    const { selectionStart, selectionEnd } = textarea;
+    updateSelected({ prompt: selected.prompt.slice(0, selectionStart) + token + selected.prompt.slice(selectionEnd) });
+    const caret = selectionStart + token.length;
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(caret, caret);
+    });
+  };
+
+  const handleResetDefaults = () => {
+    if (!window.confirm("Replace your quick actions with the built-in defaults?")) return;
+    setDraft(QUICK_ACTIONS);
+    setSelectedId(QUICK_ACTIONS[0].id);
+  };
+
+  // Sharing
+  const handleExport = () => {
+    downloadBlob(new Blob([serializeQuickActions(draft)], { type: 'application/json' }), 'quick-actions.json');
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(serializeQuickActions(draft));
+      setMessage({ text: 'Copied to clipboard. Paste it into a message to share.', isError: false });
+    } catch {
+      setMessage({ text: 'Could not access the clipboard.', isError: true });
+    }
+  };
+
+  const importText = (text: string) => {
+    try {
+      const imported = parseQuickActions(text);
+      setDraft(prev => [...prev, ...imported]);
+      setSelectedId(imported[0].id);
+      setIsSharing(false);
+      setShareText('');
+      setMessage({ text: `Added ${imported.length} quick action(s). Save to keep them.`, isError: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Import failed.', isError: true });
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) importText(await file.text());
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-darklighter rounded-2xl shadow-2xl w-full max-w-4xl h-[85vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <i className="fa-solid fa-bolt text-secondary" />
+            <h2 className="font-bold">Quick Actions</h2>
+          </div>
+          <div className="flex items-center gap-1">
+            <button onClick={handleExport} className="p-2 text-gray-500 hover:text-primary" title="Export as JSON">
+              <i className="fa-solid fa-download" />
+            </button>
+            <button onClick={handleCopy} className="p-2 text-gray-500 hover:text-primary" title="Copy JSON to share">
+              <i className="fa-solid fa-copy" />
+            </button>
+            <button onClick={() => setIsSharing(!isSharing)} className="p-2 text-gray-500 hover:text-primary" title="Import">
+              <i className="fa-solid fa-file-import" />
+            </button>
+            <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full">
+              <i className="fa-solid fa-times text-gray-500" />
+            </button>
+          </div>
+        </div>
+
+        {message && (
+          <div className={`px-4 py-2 text-sm ${message.isError ? 'bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-300' : 'bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300'}`}>
+            {message.text}
+          </div>
+        )}
+
+        {/* Import */}
+        {isSharing && (
+          <div className="p-4 border-b border-gray-200 dark:border-gray-700 space-y-2">
+            <textarea
+              value={shareText}
+              onChange={(e) => setShareText(e.target.value)}
+              placeholder="Paste shared quick actions JSON here..."
+              className="w-full h-24 px-3 py-2 bg-gray-100 dark:bg-gray-800 rounded-lg text-xs font-mono focus:outline-none focus:ring-2 focus:ring-primary resize-none"
+            />
+            <div className="flex justify-end gap-2">
+              <button onClick={() => fileInputRef.current?.click()} className="px-3 py-1.5 text-sm rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800">
+                Choose file...
+              </button>
+              <button
+                onClick={() => importText(shareText)}
+                disabled={!shareText.trim()}
+                className="px-3 py-1.5 text-sm bg-primary text-white rounded-lg hover:bg-primary/90 disabled:opacity-50"
+              >
+                Import
+              </button>
+            </div>
+            <input type="file" ref={fileInputRef} className="hidden" accept=".json,application/json" onChange={handleFileChange} />
+          </div>
+        )}
+
+        <div className="flex-1 flex flex-col md:flex-row min-h-0">
+          {/* Action List */}
+          <div className="md:w-64 max-h-48 md:max-h-none overflow-y-auto border-b md:border-b-0 md:border-r border-gray-200 dark:border-gray-700 p-2">
+            {draft.map((action, index) => (
+              <div
+                key={action.id}
+                onClick={() => setSelectedId(action.id)}
+                className={`group flex items-center gap-2 p-2 mb-1 rounded-lg cursor-pointer text-sm transition-colors ${selectedId === action.id ? 'bg-primary/10 text-primary border border-primary/20' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+              >
+                <i className={`fa-solid ${action.icon} w-4 text-center text-secondary`} />
+                <span className="flex-1 truncate">{action.label || 'Untitled'}</span>
+                <button
+                  onClick={(e) => { e.stopPropagation(); setDraft(moveQuickAction(draft, index, -1)); }}
+                  disabled={index === 0}
+                  className="p-1 text-gray-400 hover:text-primary disabled:opacity-30"
+                  title="Move Up"
+                >
+                  <i className="fa-solid fa-arrow-up text-xs" />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); setDraft(moveQuickAction(draft, index, 1)); }}
+                  disabled={index === draft.length - 1}
+                  className="p-1 text-gray-400 hover:text-primary disabled:opacity-30"
+                  title="Move Down"
+                >
+                  <i className="fa-solid fa-arrow-down text-xs" />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleDelete(action.id); }}
+                  className="lg:opacity-0 lg:group-hover:opacity-100 p-1 text-gray-400 hover:text-red-500"
+                  title="Delete"
+                >
+                  <i className="fa-solid fa-trash-can text-xs" />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={handleAdd}
+              className="w-full mt-2 flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm text-primary hover:bg-primary/10"
+            >
+              <i className="fa-solid fa-plus" /> New quick action
+            </button>
+            <button
+              onClick={handleResetDefaults}
+              className="w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800"
+            >
+              <i className="fa-solid fa-rotate-left" /> Reset to defaults
+            </button>
+          </div>
+
+          {/* Action Form */}
+          <div className="flex-1 flex flex-col min-w-0 min-h-0 overflow-y-auto p-4 gap-4">
+            {selected ? (
+              <>
+                <label className="text-xs text-gray-500">
+                  Label
+                  <input
+                    value={selected.label}
+                    onChange={(e) => updateSelected({ label: e.target.value })}
+                    className="mt-1 w-full px-3 py-1.5 bg-gray-100 dark:bg-gray-800 rounded-lg text-sm text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </label>
+                <div className="text-xs text-gray-500">
+                  Icon
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {QUICK_ACTION_ICONS.map(icon => (
+                      <button
+                        key={icon}
+                        onClick={() => updateSelected({ icon })}
+                        className={`w-8 h-8 rounded-lg flex items-center justify-center ${selected.icon === icon ? 'bg-secondary text-white' : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+                      >
+                        <i className={`fa-solid ${icon}`} />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <label className="text-xs text-gray-500 flex-1 flex flex-col min-h-[10rem]">
+                  Prompt
+                  <textarea
+                    ref={promptRef}
+                    value={selected.prompt}
+                    onChange={(e) => updateSelected({ prompt: e.target.value })}
+                    placeholder="e.g. Make a Class {{grade}} homework sheet from {{selection}}"
+                    className="mt-1 flex-1 w-full px-3 py-2 bg-gray-100 dark:bg-gray-800 rounded-lg text-sm font-mono text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-primary resize-none"
+                  />
+                </label>
+                <div className="text-xs text-gray-500">
+                  <div className="mb-1">Variables (click to insert):</div>
+                  <div className="flex flex-wrap gap-1">
+                    {PROMPT_VARIABLES.map(v => (
+                      <button
+                        key={v.name}
+                        onClick={() => insertVariable(v.name)}
+                        className="px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-800 hover:bg-primary/10 hover:text-primary font-mono"
+                        title={v.description}
+                      >
+                        {`{{${v.name}}}`}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="mt-2 text-gray-400">Without {'{{note}}'}, the whole note is sent along as context, like the built-in actions.</p>
+                </div>
+              </>
+            ) : (
+              <div className="text-center text-gray-400 mt-6 text-sm italic">No quick actions. Add one to get started.</div>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-sm rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800">
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(draft.map(a => ({ ...a, label: a.label.trim() })))}
+            disabled={!isValid}
+            className="px-4 py-2 text-sm bg-primary text-white rounded-lg hover:bg-primary/90 shadow-md disabled:opacity-50"
+            title={isValid ? undefined : 'Every action needs a label and a prompt'}
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuickActionsEditor;
@@ -0,0 +1,411 @@
+import React, { useEffect, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeKatex from 'rehype-katex';
+import { v4 as uuidv4 } from 'uuid';
+import { Note, Quiz, QuizQuestion, QuizDifficulty } from '../types';
+import { DEFAULT_QUIZ_LENGTH } from '../constants';
+import { getQuizzesForNote, putQuiz, deleteQuiz } from '../services/storage';
+import {
+  generateQuiz,
+  createEmptyQuestion,
+  isQuestionComplete,
+  scoreQuiz,
+  quizToQuestionPaper,
+  quizToAnswerKey,
+  quizFilename,
+  QUIZ_DIFFICULTIES,
+  OPTION_LETTERS
+} from '../services/quiz';
+import { downloadBlob } from '../services/fileUtils';
+
+interface QuizPanelProps {
+  note: Note;
+  generateOnOpen?: boolean;
+  onClose: () => void;
+}
+
+type QuizMode = 'practice' | 'edit';
+
+const QUIZ_LENGTHS = [5, 10, 15, 20];
+
+const DIFFICULTY_STYLES: Record<QuizDifficulty, string> = {
+  easy: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  medium: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300',
+  hard: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+};
+
+const Markdown: React.FC<{ children: string }> = ({ children }) => (
+  <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeKatex]}>{children}</ReactMarkdown>
+);
+
+const QuizPanel: React.FC<QuizPanelProps> = ({ note, generateOnOpen, onClose }) => {
+  const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [mode, setMode] = useState<QuizMode>('practice');
+  const [quizLength, setQuizLength] = useState(DEFAULT_QUIZ_LENGTH);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Practice state
+  const [answers, setAnswers] = useState<Record<string, number>>({});
+  const [position, setPosition] = useState(0);
+
+  const selected = quizzes.find(q => q.id === selectedId);
+
+  const resetPractice = () => {
+    setAnswers({});
+    setPosition(0);
+  };
+
+  const handleGenerate = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const quiz = await generateQuiz(note, quizLength, controller.signal);
+      await putQuiz(quiz);
+      setQuizzes(prev => [quiz, ...prev]);
+      setSelectedId(quiz.id);
+      setMode('practice');
+      resetPractice();
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error("Quiz generation failed", err);
+        setError("Couldn't generate a quiz. Check your connection and API key, then try again.");
+      }
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  useEffect(() => {
+    getQuizzesForNote(note.id)
+      .then(loaded => {
+        setQuizzes(loaded);
+        setSelectedId(loaded[0]?.id ?? null);
+      })
+      .catch(err => console.error("Failed to load quizzes", err));
+    if (generateOnOpen) handleGenerate();
+    return () => abortRef.current?.abort();
+  }, [note.id]);
+
+  const saveQuiz = (quiz: Quiz) => {
+    const updated = { ...quiz, updatedAt: Date.now() };
+    setQuizzes(prev => prev.map(q => q.id === updated.id ? updated : q));
+    putQuiz(updated).catch(err => console.error("Failed to save quiz", err));
+  };
+
+  const handleNewQuiz = async () => {
+    const quiz: Quiz = {
+      id: uuidv4(),
+      noteId: note.id,
+      title: `${note.title} Quiz`,
+      questions: [createEmptyQuestion()],
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    };
+    await putQuiz(quiz);
+    setQuizzes(prev => [quiz, ...prev]);
+    setSelectedId(quiz.id);
+    setMode('edit');
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm("Delete this quiz?")) return;
+    try {
+      await deleteQuiz(id);
+      const remaining = quizzes.filter(q => q.id !== id);
+      setQuizzes(remaining);
+      if (selectedId === id) setSelectedId(remaining[0]?.id ?? null);
+    } catch (err) {
+      console.error("Failed to delete quiz", err);
+    }
+  };
+
+  const updateQuestion = (id: string, changes: Partial<QuizQuestion>) => {
+    if (!selected) return;
+    saveQuiz({ ...selected, questions: selected.questions.map(q => q.id === id ? { ...q, ...changes } : q) });
+  };
+
+  const handleExport = (kind: 'paper' | 'key') => {
+    if (!selected) return;
+    const text = kind === 'paper' ? quizToQuestionPaper(selected) : quizToAnswerKey(selected);
+    downloadBlob(new Blob([text], { type: 'text/markdown' }), quizFilename(selected, kind === 'paper' ? 'questions' : 'answer-key'));
+  };
+
+  // Incomplete questions (e.g. added in the editor but not filled in) are left out of practice
+  const practiceQuestions = selected ? selected.questions.filter(isQuestionComplete) : [];
+  const current = practiceQuestions[position];
+  const isFinished = practiceQuestions.length > 0 && position >= practiceQuestions.length;
+  const score = scoreQuiz(practiceQuestions, answers);
+
+  const renderPractice = () => {
+    if (practiceQuestions.length === 0) {
+      return <div className="text-center text-gray-400 mt-6 text-sm italic">This quiz has no complete questions yet. Add some in Edit mode.</div>;
+    }
+    if (isFinished) {
+      return (
+        <div className="max-w-xl mx-auto text-center mt-6 space-y-4">
+          <div className="text-5xl font-bold text-primary">{score.percent}%</div>
+          <div className="text-gray-600 dark:text-gray-300">{score.correct} of {score.total} correct</div>
+          <div className="text-left border border-gray-200 dark:border-gray-700 rounded-xl divide-y divide-gray-200 dark:divide-gray-700">
+            {practiceQuestions.map((q, i) => (
+              <button
+                key={q.id}
+                onClick={() => setPosition(i)}
+                className="w-full flex items-center gap-3 p-3 text-sm text-left hover:bg-gray-50 dark:hover:bg-gray-800"
+              >
+                <i className={`fa-solid ${answers[q.id] === q.correctIndex ? 'fa-circle-check text-green-500' : 'fa-circle-xmark text-red-500'}`} />
+                <span className="truncate">{i + 1}. {q.question}</span>
+              </button>
+            ))}
+          </div>
+          <button onClick={resetPractice} className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 shadow-md">
+            <i className="fa-solid fa-rotate-right mr-2" />Try again
+          </button>
+        </div>
+      );
+    }
+
+    const answered = answers[current.id] !== undefined;
+    return (
+      <div className="max-w-2xl mx-auto space-y-4">
+        <div className="flex items-center justify-between text-xs text-gray-500">
+          <span>Question {position + 1} of {practiceQuestions.length}</span>
+          <span>Score: {score.correct}</span>
+        </div>
+        <div className="h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+          <div className="h-full bg-primary transition-all" style={{ width: `${(position / practiceQuestions.length) * 100}%` }} />
+        </div>
+        <div className="prose dark:prose-invert max-w-none font-medium">
+          <Markdown>{current.question}</Markdown>
+        </div>
+        <div className="space-y-2">
+          {current.options.map((option, j) => {
+            const isCorrect = j === current.correctIndex;
+            const isChosen = answers[current.id] === j;
+            const style = !answered
+              ? 'border-gray-200 dark:border-gray-700 hover:border-primary hover:bg-primary/5'
+              : isCorrect
+                ? 'border-green-500 bg-green-50 dark:bg-green-900/20'
+                : isChosen
+                  ? 'border-red-500 bg-red-50 dark:bg-red-900/20'
+                  : 'border-gray-200 dark:border-gray-700 opacity-60';
+            return (
+              <button
+                key={j}
+                onClick={() => !answered && setAnswers(prev => ({ ...prev, [current.id]: j }))}
+                disabled={answered}
+                className={`w-full flex items-start gap-3 p-3 rounded-xl border text-left transition-colors ${style}`}
+              >
+                <span className="font-bold text-gray-400">{OPTION_LETTERS[j]}</span>
+                <div className="flex-1 prose prose-sm dark:prose-invert max-w-none"><Markdown>{option}</Markdown></div>
+                {answered && isCorrect && <i className="fa-solid fa-check text-green-500 mt-1" />}
+                {answered && isChosen && !isCorrect && <i className="fa-solid fa-xmark text-red-500 mt-1" />}
+              </button>
+            );
+          })}
+        </div>
+        {answered && (
+          <>
+            {current.explanation && (
+              <div className="p-3 rounded-lg bg-blue-50 dark:bg-blue-900/20 text-sm prose prose-sm dark:prose-invert max-w-none">
+                <Markdown>{current.explanation}</Markdown>
+              </div>
+            )}
+            <div className="flex justify-end">
+              <button onClick={() => setPosition(position + 1)} className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 shadow-md">
+                {position + 1 < practiceQuestions.length ? 'Next' : 'See score'} <i className="fa-solid fa-arrow-right ml-1" />
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const renderEditor = () => selected && (
+    <div className="max-w-3xl mx-auto space-y-4">
+      <input
+        value={selected.title}
+        onChange={(e) => saveQuiz({ ...selected, title: e.target.value })}
+        className="w-full px-3 py-2 bg-gray-100 dark:bg-gray-800 rounded-lg font-bold focus:outline-none focus:ring-2 focus:ring-primary"
+      />
+      {selected.questions.map((q, i) => (
+        <div key={q.id} className={`p-4 rounded-xl border space-y-2 ${isQuestionComplete(q) ? 'border-gray-200 dark:border-gray-700' : 'border-yellow-400'}`}>
+          <div className="flex items-center gap-2">
+            <span className="font-bold text-gray-400">{i + 1}.</span>
+            <select
+              value={q.difficulty}
+              onChange={(e) => updateQuestion(q.id, { difficulty: e.target.value as QuizDifficulty })}
+              className={`text-xs rounded-full px-2 py-0.5 ${DIFFICULTY_STYLES[q.difficulty]}`}
+            >
+              {QUIZ_DIFFICULTIES.map(d => <option key={d} value={d}>{d}</option>)}
+            </select>
+            <button
+              onClick={() => saveQuiz({ ...selected, questions: selected.questions.filter(x => x.id !== q.id) })}
+              className="ml-auto p-1 text-gray-400 hover:text-red-500"
+              title="Delete Question"
+            >
+              <i className="fa-solid fa-trash-can text-xs" />
+            </button>
+          </div>
+          <textarea
+            value={q.question}
+            onChange={(e) => updateQuestion(q.id, { question: e.target.value })}
+            placeholder="Question"
+            rows={2}
+            className="w-full px-3 py-2 bg-gray-100 dark:bg-gray-800 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary resize-none"
+          />
+          {q.options.map((option, j) => (
+            <div key={j} className="flex items-center gap-2">
+              <input
+                type="radio"
+                name={`correct-${q.id}`}
+                checked={q.correctIndex === j}
+                onChange={() => updateQuestion(q.id, { correctIndex: j })}
+                title="Correct answer"
+                className="accent-green-600"
+              />
+              <span className="text-sm font-bold text-gray-400 w-4">{OPTION_LETTERS[j]}</span>
+              <input
+                value={option}
+                onChange={(e) => updateQuestion(q.id, { options: q.options.map((o, k) => k === j ? e.target.value : o) })}
+                className="flex-1 px-3 py-1.5 bg-gray-100 dark:bg-gray-800 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </div>
+          ))}
+          <textarea
+            value={q.explanation}
+            onChange={(e) => updateQuestion(q.id, { explanation: e.target.value })}
+            placeholder="Explanation (shown after answering)"
+            rows={2}
+            className="w-full px-3 py-2 bg-gray-100 dark:bg-gray-800 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-primary resize-none"
+          />
+        </div>
+      ))}
+      <button
+        onClick={() => saveQuiz({ ...selected, questions: [...selected.questions, createEmptyQuestion()] })}
+        className="w-full p-3 rounded-xl border border-dashed border-gray-300 dark:border-gray-600 text-sm text-primary hover:bg-primary/5"
+      >
+        <i className="fa-solid fa-plus mr-2" />Add question
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-darklighter rounded-2xl shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div className="flex items-center gap-2 min-w-0">
+            <i className="fa-solid fa-list-check text-primary" />
+            <h2 className="font-bold truncate">Quizzes — {note.title}</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full">
+            <i className="fa-solid fa-times text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex flex-col md:flex-row min-h-0">
+          {/* Quiz List */}
+          <div className="md:w-64 max-h-48 md:max-h-none overflow-y-auto border-b md:border-b-0 md:border-r border-gray-200 dark:border-gray-700 p-2">
+            <div className="flex items-center gap-1 mb-2">
+              <button
+                onClick={handleGenerate}
+                disabled={isGenerating}
+                className="flex-1 flex items-center justify-center gap-2 px-2 py-1.5 rounded-lg text-sm bg-primary text-white hover:bg-primary/90 disabled:opacity-50"
+              >
+                <i className={`fa-solid ${isGenerating ? 'fa-circle-notch fa-spin' : 'fa-wand-magic-sparkles'}`} />
+                {isGenerating ? 'Generating...' : 'Generate'}
+              </button>
+              <select
+                value={quizLength}
+                onChange={(e) => setQuizLength(Number(e.target.value))}
+                className="text-sm bg-gray-100 dark:bg-gray-800 rounded-lg px-1 py-1.5"
+                title="Number of questions"
+              >
+                {QUIZ_LENGTHS.map(n => <option key={n} value={n}>{n} Qs</option>)}
+              </select>
+            </div>
+            <button
+              onClick={handleNewQuiz}
+              className="w-full mb-2 flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm text-primary hover:bg-primary/10"
+            >
+              <i className="fa-solid fa-plus" /> Write a quiz by hand
+            </button>
+            {quizzes.map(quiz => (
+              <div
+                key={quiz.id}
+                onClick={() => { setSelectedId(quiz.id); resetPractice(); }}
+                className={`group flex items-start gap-2 p-2 mb-1 rounded-lg cursor-pointer text-sm transition-colors ${selectedId === quiz.id ? 'bg-primary/10 text-primary border border-primary/20' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium truncate">{quiz.title}</div>
+                  <div className="text-xs text-gray-400">{quiz.questions.length} questions</div>
+                </div>
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleDelete(quiz.id); }}
+                  className="lg:opacity-0 lg:group-hover:opacity-100 p-1 text-gray-400 hover:text-red-500"
+                  title="Delete Quiz"
+                >
+                  <i className="fa-solid fa-trash-can text-xs" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Quiz */}
+          <div className="flex-1 flex flex-col min-w-0 min-h-0">
+            {error && (
+              <div className="m-4 mb-0 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-300 text-sm">
+                <i className="fa-solid fa-triangle-exclamation mr-2" />{error}
+              </div>
+            )}
+            {selected ? (
+              <>
+                <div className="px-4 py-2 border-b border-gray-200 dark:border-gray-700 flex flex-wrap items-center gap-2 text-sm bg-gray-50 dark:bg-dark">
+                  <div className="flex bg-gray-200 dark:bg-gray-700 rounded-lg p-0.5">
+                    {(['practice', 'edit'] as QuizMode[]).map(m => (
+                      <button
+                        key={m}
+                        onClick={() => { setMode(m); resetPractice(); }}
+                        className={`px-3 py-1 rounded-md capitalize ${mode === m ? 'bg-white dark:bg-gray-900 shadow-sm font-medium' : 'text-gray-500'}`}
+                      >
+                        {m}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="ml-auto flex gap-2">
+                    <button onClick={() => handleExport('paper')} className="flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700">
+                      <i className="fa-solid fa-file-lines text-primary" /> Question paper
+                    </button>
+                    <button onClick={() => handleExport('key')} className="flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700">
+                      <i className="fa-solid fa-key text-secondary" /> Answer key
+                    </button>
+                  </div>
+                </div>
+                <div className="flex-1 overflow-y-auto p-4">
+                  {mode === 'practice' ? renderPractice() : renderEditor()}
+                </div>
+              </>
+            ) : (
+              <div className="flex-1 flex flex-col items-center justify-center text-gray-400 p-8 text-center">
+                <i className="fa-solid fa-list-check text-4xl mb-3 opacity-50" />
+                <p className="text-sm">Generate a multiple-choice quiz from this note, or write one by hand.</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuizPanel;
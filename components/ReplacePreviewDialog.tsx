@@ -0,0 +1,63 @@
+import React, { useMemo } from 'react';
+import { diffLines, countChanges } from '../services/diff';
+
+interface ReplacePreviewDialogProps {
+  original: string;
+  replacement: string;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+const ReplacePreviewDialog: React.FC<ReplacePreviewDialogProps> = ({ original, replacement, onAccept, onReject }) => {
+  const diff = useMemo(() => diffLines(original, replacement), [original, replacement]);
+  const changes = countChanges(diff);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onReject}>
+      <div
+        className="bg-white dark:bg-darklighter rounded-2xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <i className="fa-solid fa-right-left text-primary" />
+            <h2 className="font-bold">Replace Selection</h2>
+            <span className="text-sm text-green-600 ml-2">+{changes.added}</span>
+            <span className="text-sm text-red-500">−{changes.removed}</span>
+          </div>
+          <button onClick={onReject} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full">
+            <i className="fa-solid fa-times text-gray-500" />
+          </button>
+        </div>
+
+        {/* Diff */}
+        <div className="flex-1 overflow-auto font-mono text-sm py-2">
+          {diff.map((row, i) => (
+            <div
+              key={i}
+              className={`px-4 whitespace-pre-wrap break-words ${row.op === 'insert' ? 'bg-green-50 text-green-800 dark:bg-green-900/30 dark:text-green-300' : row.op === 'delete' ? 'bg-red-50 text-red-800 dark:bg-red-900/30 dark:text-red-300 line-through decoration-red-300' : 'text-gray-600 dark:text-gray-300'}`}
+            >
+              <span className="select-none opacity-50 mr-2">{row.op === 'insert' ? '+' : row.op === 'delete' ? '−' : ' '}</span>
+              {row.text || ' '}
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-2">
+          <button onClick={onReject} className="px-4 py-2 text-sm rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800">
+            Reject
+          </button>
+          <button
+            onClick={onAccept}
+            className="px-4 py-2 text-sm bg-primary text-white rounded-lg hover:bg-primary/90 shadow-md active:scale-95 transition-all"
+          >
+            <i className="fa-solid fa-check mr-2" />Accept
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplacePreviewDialog;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { SearchResult, TextRange } from '../services/search';
+
+interface SearchResultsProps {
+  results: SearchResult[];
+  currentNoteId: string | null;
+  onOpenResult: (noteId: string, range: TextRange | null) => void;
+}
+
+const Highlighted: React.FC<{ text: string; ranges: TextRange[] }> = ({ text, ranges }) => {
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  ranges.forEach(([start, end], i) => {
+    if (start > last) parts.push(text.slice(last, start));
+    parts.push(
+      <mark key={i} className="bg-yellow-200 dark:bg-yellow-500/40 text-inherit rounded px-0.5">
+        {text.slice(start, end)}
+      </mark>
+    );
+    last = end;
+  });
+  parts.push(text.slice(last));
+  return <>{parts}</>;
+};
+
+const SearchResults: React.FC<SearchResultsProps> = ({ results, currentNoteId, onOpenResult }) => {
+  if (results.length === 0) {
+    return <div className="text-center text-gray-400 mt-6 text-sm italic">No matching notes</div>;
+  }
+
+  return (
+    <>
+      <div className="text-xs font-semibold text-gray-400 uppercase px-2 mb-2">
+        {results.length} {results.length === 1 ? 'result' : 'results'}
+      </div>
+      {results.map(({ note, titleRanges, contentRanges, snippet }) => (
+        <div
+          key={note.id}
+          onClick={() => onOpenResult(note.id, contentRanges[0] || null)}
+          className={`p-3 mb-1 rounded-lg cursor-pointer transition-colors ${currentNoteId === note.id ? 'bg-primary/10 border border-primary/20' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+        >
+          <div className="truncate text-sm font-medium text-gray-700 dark:text-gray-200">
+            <Highlighted text={note.title || 'Untitled Note'} ranges={note.title ? titleRanges : []} />
+          </div>
+          {snippet && (
+            <div className="text-xs text-gray-500 dark:text-gray-400 mt-1 line-clamp-2">
+              {snippet.offset > 0 && '…'}
+              <Highlighted text={snippet.text} ranges={snippet.ranges} />
+            </div>
+          )}
+        </div>
+      ))}
+    </>
+  );
+};
+
+export default SearchResults;
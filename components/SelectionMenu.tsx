@@ -0,0 +1,83 @@
+import React from 'react';
+import { GRADE_OPTIONS } from '../constants';
+import { REWRITE_ACTIONS, RewriteAction } from '../services/rewrite';
+
+interface SelectionMenuProps {
+  position: { top: number; left: number };
+  // Set once a rewrite has been applied and is waiting for accept/reject
+  isReviewing: boolean;
+  busyAction: RewriteAction | null;
+  grade: number;
+  error: string | null;
+  onGradeChange: (grade: number) => void;
+  onAction: (action: RewriteAction) => void;
+  onCancel: () => void;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+const SelectionMenu: React.FC<SelectionMenuProps> = ({
+  position,
+  isReviewing,
+  busyAction,
+  grade,
+  error,
+  onGradeChange,
+  onAction,
+  onCancel,
+  onAccept,
+  onReject
+}) => (
+  <div
+    className="absolute z-30 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-xl p-1 animate-slide-up"
+    style={{ top: position.top, left: position.left }}
+    // Keep focus in the textarea so the selection stays visible
+    onMouseDown={(e) => { if (!(e.target instanceof HTMLSelectElement)) e.preventDefault(); }}
+  >
+    {isReviewing ? (
+      <div className="flex items-center gap-1 text-sm">
+        <span className="px-2 text-xs text-gray-500">Keep this change?</span>
+        <button onClick={onAccept} className="flex items-center gap-1 px-2 py-1 rounded-lg text-green-600 hover:bg-green-50 dark:hover:bg-green-900/30">
+          <i className="fa-solid fa-check" /> Accept
+        </button>
+        <button onClick={onReject} className="flex items-center gap-1 px-2 py-1 rounded-lg text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30">
+          <i className="fa-solid fa-xmark" /> Reject
+        </button>
+      </div>
+    ) : (
+      <div className="flex flex-wrap items-center gap-1 text-sm max-w-[22rem]">
+        {REWRITE_ACTIONS.map(({ action, label, icon }) => (
+          <React.Fragment key={action}>
+            <button
+              onClick={() => onAction(action)}
+              disabled={!!busyAction}
+              className="flex items-center gap-1.5 px-2 py-1 rounded-lg text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              <i className={`fa-solid ${busyAction === action ? 'fa-circle-notch fa-spin' : icon} text-xs text-secondary`} />
+              {label}
+            </button>
+            {action === 'simplify' && (
+              <select
+                value={grade}
+                onChange={(e) => onGradeChange(Number(e.target.value))}
+                disabled={!!busyAction}
+                className="-ml-1 mr-1 bg-gray-100 dark:bg-gray-700 rounded px-1 py-0.5 text-xs"
+                title="Simplify for class"
+              >
+                {GRADE_OPTIONS.map(g => <option key={g} value={g}>Class {g}</option>)}
+              </select>
+            )}
+          </React.Fragment>
+        ))}
+        {busyAction && (
+          <button onClick={onCancel} className="px-2 py-1 rounded-lg text-xs text-gray-400 hover:text-red-500" title="Cancel">
+            <i className="fa-solid fa-stop" />
+          </button>
+        )}
+        {error && <div className="w-full px-2 pb-1 text-xs text-red-500">{error}</div>}
+      </div>
+    )}
+  </div>
+);
+
+export default SelectionMenu;
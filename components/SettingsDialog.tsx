@@ -0,0 +1,369 @@
+import React, { useState } from 'react';
+import { AiProviderId, AiSettings, GeminiSettings, OpenAiCompatibleSettings, TtsVoice } from '../types';
+import { AI_PROVIDERS, testConnection } from '../services/ai';
+import { AiError } from '../services/aiErrors';
+import { ApiKeyOwner, ApiKeyStatus, getApiKeyStatus, saveApiKey, unlockApiKey, lockApiKey, removeApiKey } from '../services/apiKey';
+import { AVAILABLE_VOICES, DEFAULT_AI_SETTINGS, GEMINI_CHAT_MODELS, GEMINI_TTS_MODELS } from '../constants';
+
+interface SettingsDialogProps {
+  settings: AiSettings;
+  onSave: (settings: AiSettings) => void;
+  onClose: () => void;
+}
+
+const OPENAI_FIELDS: { key: keyof OpenAiCompatibleSettings; label: string; placeholder: string }[] = [
+  { key: 'baseUrl', label: 'Base URL', placeholder: 'http://localhost:11434/v1' },
+  { key: 'chatModel', label: 'Chat model', placeholder: 'llama3.1' },
+  { key: 'ttsModel', label: 'Speech model', placeholder: 'tts-1' },
+];
+
+const KEY_STATUS_TEXT: Record<ApiKeyStatus, string> = {
+  'none': 'No key saved yet.',
+  'build': 'Using the key built into this app. Save your own to use it instead.',
+  'saved': 'Your key is saved on this device.',
+  'locked': 'Your key is saved encrypted. Enter the passphrase to use it this session.',
+  'unlocked': 'Your key is saved encrypted and unlocked for this session.',
+};
+
+const KEY_PLACEHOLDERS: Record<ApiKeyOwner, string> = {
+  gemini: 'Paste a key from Google AI Studio',
+  openai: 'Leave empty for local servers',
+};
+
+// The mock provider has no key; its section isn't shown
+const keyOwnerFor = (provider: AiProviderId): ApiKeyOwner => provider === 'openai' ? 'openai' : 'gemini';
+
+const inputClass = "w-full px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-dark text-sm focus:outline-none focus:ring-2 focus:ring-primary/50";
+
+const SettingsDialog: React.FC<SettingsDialogProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<AiSettings>(settings);
+  const keyOwner = keyOwnerFor(draft.provider);
+  const [keyStatus, setKeyStatus] = useState<ApiKeyStatus>(() => getApiKeyStatus(keyOwnerFor(settings.provider)));
+  const [newKey, setNewKey] = useState('');
+  const [usePassphrase, setUsePassphrase] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [unlockPassphrase, setUnlockPassphrase] = useState('');
+  const [testResult, setTestResult] = useState<{ ok: boolean; text: string } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A key typed for one provider isn't carried over to another
+  const selectProvider = (provider: AiProviderId) => {
+    setDraft(prev => ({ ...prev, provider }));
+    setKeyStatus(getApiKeyStatus(keyOwnerFor(provider)));
+    setNewKey('');
+    setUnlockPassphrase('');
+    setTestResult(null);
+  };
+
+  const updateGemini = (key: keyof GeminiSettings, value: string) =>
+    setDraft(prev => ({ ...prev, gemini: { ...prev.gemini, [key]: value } }));
+
+  const updateOpenAi = (key: keyof OpenAiCompatibleSettings, value: string) =>
+    setDraft(prev => ({ ...prev, openai: { ...prev.openai, [key]: value } }));
+
+  const passphraseMismatch = usePassphrase && !!newKey.trim() && passphrase !== confirmPassphrase;
+  const canSave = !isBusy
+    && !!draft.systemInstruction.trim()
+    && (draft.provider !== 'gemini' || (!!draft.gemini.chatModel.trim() && !!draft.gemini.ttsModel.trim()))
+    && (draft.provider !== 'openai' || (!!draft.openai.baseUrl.trim() && !!draft.openai.chatModel.trim()))
+    && !(usePassphrase && newKey.trim() && !passphrase)
+    && !passphraseMismatch;
+
+  const runKeyAction = async (action: () => Promise<void> | void) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      setKeyStatus(getApiKeyStatus(keyOwner));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong with the key.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUnlock = () => runKeyAction(async () => {
+    await unlockApiKey(keyOwner, unlockPassphrase);
+    setUnlockPassphrase('');
+  });
+
+  const handleRemoveKey = () => {
+    if (!window.confirm("Remove your saved API key from this device?")) return;
+    runKeyAction(() => removeApiKey(keyOwner));
+  };
+
+  const handleTest = async () => {
+    setIsBusy(true);
+    setTestResult(null);
+    try {
+      const { ms, speechError } = await testConnection(draft, newKey.trim() || undefined);
+      setTestResult({
+        ok: !speechError,
+        text: speechError
+          ? `Chat works (${ms} ms), but speech failed: ${speechError.message} ${speechError.guidance}`
+          : `Connected. The model replied in ${ms} ms and speech works.`,
+      });
+    } catch (err) {
+      const aiError = err as AiError;
+      setTestResult({ ok: false, text: `${aiError.message} ${aiError.guidance}` });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      if (newKey.trim() && draft.provider !== 'mock') await saveApiKey(keyOwner, newKey.trim(), usePassphrase ? passphrase : undefined);
+      onSave({ ...draft, systemInstruction: draft.systemInstruction.trim() });
+    } catch (err) {
+      console.error("Failed to save API key", err);
+      setError("Couldn't save the key. Your browser may be blocking storage for this page.");
+      setIsBusy(false);
+    }
+  };
+
+  const keyControls = (
+    <>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <i className={`fa-solid ${keyStatus === 'locked' ? 'fa-lock text-amber-500' : keyStatus === 'none' ? 'fa-key text-gray-400' : 'fa-circle-check text-green-500'}`} />
+        <span className="flex-1 text-gray-600 dark:text-gray-300">{keyOwner === 'openai' && keyStatus === 'none' ? "No key saved. Local servers usually don't need one." : KEY_STATUS_TEXT[keyStatus]}</span>
+        {keyStatus === 'unlocked' && (
+          <button onClick={() => runKeyAction(() => lockApiKey(keyOwner))} className="text-xs text-gray-500 hover:text-primary">
+            <i className="fa-solid fa-lock mr-1" />Lock
+          </button>
+        )}
+        {(keyStatus === 'saved' || keyStatus === 'locked' || keyStatus === 'unlocked') && (
+          <button onClick={handleRemoveKey} className="text-xs text-gray-500 hover:text-red-500">
+            <i className="fa-solid fa-trash-can mr-1" />Remove
+          </button>
+        )}
+      </div>
+
+      {keyStatus === 'locked' && (
+        <div className="flex gap-2">
+          <input
+            type="password"
+            value={unlockPassphrase}
+            onChange={(e) => setUnlockPassphrase(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && unlockPassphrase) handleUnlock(); }}
+            placeholder="Passphrase"
+            className={inputClass}
+          />
+          <button
+            onClick={handleUnlock}
+            disabled={!unlockPassphrase || isBusy}
+            className="px-4 py-2 text-sm rounded-lg bg-primary text-white hover:bg-primary/90 disabled:opacity-50"
+          >
+            Unlock
+          </button>
+        </div>
+      )}
+
+      <label className="block text-sm">
+        <span className="block mb-1 text-gray-600 dark:text-gray-300">
+          {keyStatus === 'none' || keyStatus === 'build' ? 'API key' : 'Replace key'}
+        </span>
+        <input
+          type="password"
+          value={newKey}
+          onChange={(e) => setNewKey(e.target.value)}
+          placeholder={KEY_PLACEHOLDERS[keyOwner]}
+          autoComplete="off"
+          className={inputClass}
+        />
+      </label>
+      {newKey.trim() && (
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300 cursor-pointer">
+            <input type="checkbox" checked={usePassphrase} onChange={(e) => setUsePassphrase(e.target.checked)} className="accent-primary" />
+            Encrypt with a passphrase
+          </label>
+          {usePassphrase && (
+            <div className="grid sm:grid-cols-2 gap-2">
+              <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="Passphrase" className={inputClass} />
+              <input type="password" value={confirmPassphrase} onChange={(e) => setConfirmPassphrase(e.target.value)} placeholder="Repeat passphrase" className={inputClass} />
+            </div>
+          )}
+          <p className={`text-xs ${passphraseMismatch ? 'text-red-500' : 'text-gray-500'}`}>
+            {passphraseMismatch
+              ? "The passphrases don't match."
+              : usePassphrase
+                ? "You'll enter the passphrase once per session. It can't be recovered; if you forget it, save the key again."
+                : "The key is kept only in this browser. Anyone using this device and browser profile can use it."}
+          </p>
+        </div>
+      )}
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-darklighter rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <i className="fa-solid fa-gear text-primary" />
+            <h2 className="font-bold">Settings</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full">
+            <i className="fa-solid fa-times text-gray-500" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="m-4 mb-0 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-600 dark:text-red-400">
+            <i className="fa-solid fa-triangle-exclamation mr-2" />{error}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          {/* Provider */}
+          <section className="space-y-3">
+            <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-500">AI provider</h3>
+            {AI_PROVIDERS.map(provider => (
+              <label
+                key={provider.id}
+                className={`flex items-start gap-3 p-3 rounded-xl border cursor-pointer transition-colors ${draft.provider === provider.id ? 'border-primary bg-primary/5' : 'border-gray-200 dark:border-gray-700 hover:border-primary'}`}
+              >
+                <input
+                  type="radio"
+                  name="ai-provider"
+                  checked={draft.provider === provider.id}
+                  onChange={() => selectProvider(provider.id)}
+                  className="mt-1 accent-primary"
+                />
+                <span>
+                  <span className="block font-medium text-sm">{provider.label}</span>
+                  <span className="block text-xs text-gray-500">{provider.description}</span>
+                </span>
+              </label>
+            ))}
+          </section>
+
+          {/* Gemini */}
+          {draft.provider === 'gemini' && (
+            <section className="space-y-3">
+              <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-500">Gemini API key</h3>
+              {keyControls}
+
+              <div className="grid sm:grid-cols-2 gap-3">
+                <label className="block text-sm">
+                  <span className="block mb-1 text-gray-600 dark:text-gray-300">Chat model</span>
+                  <input list="gemini-chat-models" value={draft.gemini.chatModel} onChange={(e) => updateGemini('chatModel', e.target.value)} className={inputClass} />
+                </label>
+                <label className="block text-sm">
+                  <span className="block mb-1 text-gray-600 dark:text-gray-300">Speech model</span>
+                  <input list="gemini-tts-models" value={draft.gemini.ttsModel} onChange={(e) => updateGemini('ttsModel', e.target.value)} className={inputClass} />
+                </label>
+              </div>
+              <datalist id="gemini-chat-models">
+                {GEMINI_CHAT_MODELS.map(model => <option key={model} value={model} />)}
+              </datalist>
+              <datalist id="gemini-tts-models">
+                {GEMINI_TTS_MODELS.map(model => <option key={model} value={model} />)}
+              </datalist>
+            </section>
+          )}
+
+          {/* OpenAI-compatible */}
+          {draft.provider === 'openai' && (
+            <section className="space-y-3">
+              <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-500">Server</h3>
+              {OPENAI_FIELDS.map(field => (
+                <label key={field.key} className="block text-sm">
+                  <span className="block mb-1 text-gray-600 dark:text-gray-300">{field.label}</span>
+                  <input
+                    value={draft.openai[field.key]}
+                    onChange={(e) => updateOpenAi(field.key, e.target.value)}
+                    placeholder={field.placeholder}
+                    autoComplete="off"
+                    className={inputClass}
+                  />
+                </label>
+              ))}
+              <p className="text-xs text-gray-500">
+                Local servers must allow requests from this page (CORS). Photographed scripts and lecture audio need a model that accepts images and audio.
+              </p>
+
+              <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-500 pt-2">API key</h3>
+              {keyControls}
+            </section>
+          )}
+
+          {/* Chat */}
+          <section className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-500">Chat instructions</h3>
+              <button
+                onClick={() => setDraft(prev => ({ ...prev, systemInstruction: DEFAULT_AI_SETTINGS.systemInstruction }))}
+                disabled={draft.systemInstruction === DEFAULT_AI_SETTINGS.systemInstruction}
+                className="text-xs text-gray-500 hover:text-primary disabled:opacity-40"
+              >
+                <i className="fa-solid fa-rotate-left mr-1" />Reset to default
+              </button>
+            </div>
+            <textarea
+              value={draft.systemInstruction}
+              onChange={(e) => setDraft(prev => ({ ...prev, systemInstruction: e.target.value }))}
+              rows={8}
+              className={`${inputClass} font-mono text-xs`}
+            />
+            <p className="text-xs text-gray-500">How the AI Teacher behaves in chat. Quizzes, translations and other tools keep their own instructions.</p>
+          </section>
+
+          {/* Voice */}
+          <section className="space-y-2">
+            <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-500">Read aloud</h3>
+            <label className="flex items-center gap-3 text-sm">
+              <span className="text-gray-600 dark:text-gray-300">Default voice</span>
+              <select
+                value={draft.defaultVoice}
+                onChange={(e) => setDraft(prev => ({ ...prev, defaultVoice: e.target.value as TtsVoice }))}
+                className="px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-dark text-sm"
+              >
+                {AVAILABLE_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+              </select>
+            </label>
+          </section>
+        </div>
+
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
+          {testResult && (
+            <div className={`text-sm ${testResult.ok ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+              <i className={`fa-solid ${testResult.ok ? 'fa-circle-check' : 'fa-triangle-exclamation'} mr-2`} />{testResult.text}
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleTest}
+              disabled={isBusy}
+              className="px-4 py-2 text-sm rounded-lg border border-gray-200 dark:border-gray-700 hover:border-primary hover:text-primary disabled:opacity-50"
+            >
+              <i className={`fa-solid ${isBusy ? 'fa-circle-notch fa-spin' : 'fa-plug'} mr-2`} />Test connection
+            </button>
+            <div className="flex-1" />
+            <button onClick={onClose} className="px-4 py-2 text-sm rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700">
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!canSave}
+              className="px-4 py-2 text-sm rounded-lg bg-primary text-white hover:bg-primary/90 disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsDialog;
@@ -1,25 +1,131 @@
-import React from 'react';
-import { Note } from '../types';
+import React, { useMemo, useState } from 'react';
+import { Folder, Note } from '../types';
+import { buildFolderTree, collectTags, filterNotes, getFolderPath } from '../services/folders';
+import { SearchResult, TextRange } from '../services/search';
+import FolderTree, { DRAG_FOLDER_TYPE, DRAG_NOTE_TYPE } from './FolderTree';
+import SearchResults from './SearchResults';
+import TrashView from './TrashView';
 
 interface SidebarProps {
   notes: Note[];
+  trashedNotes: Note[];
+  folders: Folder[];
   currentNoteId: string | null;
+  selectedFolderId: string | null;
   onSelectNote: (id: string) => void;
+  onSelectFolder: (id: string | null) => void;
   onNewNote: () => void;
+  onNewFromTemplate: () => void;
   onDeleteNote: (id: string, e: React.MouseEvent) => void;
+  onRestoreNote: (id: string) => void;
+  onDeleteNoteForever: (id: string) => void;
+  onEmptyTrash: () => void;
+  trashRetentionDays: number;
+  onTrashRetentionChange: (days: number) => void;
+  onCreateFolder: (parentId: string | null) => void;
+  onRenameFolder: (id: string) => void;
+  onDeleteFolder: (id: string) => void;
+  onMoveNote: (noteId: string, folderId: string | null) => void;
+  onMoveFolder: (folderId: string, parentId: string | null) => void;
+  searchQuery: string;
+  onSearchQueryChange: (query: string) => void;
+  searchResults: SearchResult[];
+  onOpenSearchResult: (noteId: string, range: TextRange | null) => void;
+  onOpenBackup: () => void;
+  onOpenSettings: () => void;
+  dueCounts: Record<string, number>; // Flashcards due per note
+  onReviewFlashcards: () => void;
+  onOpenPapers: () => void;
+  onOpenGrading: () => void;
   isOpen: boolean;
   toggleSidebar: () => void;
 }
 
 const Sidebar: React.FC<SidebarProps> = ({ 
   notes, 
+  trashedNotes,
+  folders,
   currentNoteId, 
+  selectedFolderId,
   onSelectNote, 
+  onSelectFolder,
   onNewNote, 
+  onNewFromTemplate,
   onDeleteNote,
+  onRestoreNote,
+  onDeleteNoteForever,
+  onEmptyTrash,
+  trashRetentionDays,
+  onTrashRetentionChange,
+  onCreateFolder,
+  onRenameFolder,
+  onDeleteFolder,
+  onMoveNote,
+  onMoveFolder,
+  searchQuery,
+  onSearchQueryChange,
+  searchResults,
+  onOpenSearchResult,
+  onOpenBackup,
+  onOpenSettings,
+  dueCounts,
+  onReviewFlashcards,
+  onOpenPapers,
+  onOpenGrading,
   isOpen,
   toggleSidebar
 }) => {
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [dragOverId, setDragOverId] = useState<string | null | undefined>(undefined);
+  const [isTrashView, setIsTrashView] = useState(false);
+  const totalDue = notes.reduce((sum, n) => sum + (dueCounts[n.id] || 0), 0);
+
+  const folderTree = useMemo(() => buildFolderTree(folders), [folders]);
+  const allTags = useMemo(() => collectTags(notes), [notes]);
+  const visibleNotes = useMemo(
+    () => filterNotes(notes, folders, selectedFolderId, selectedTags.filter(t => allTags.includes(t))),
+    [notes, folders, selectedFolderId, selectedTags, allTags]
+  );
+  const selectedFolderPath = getFolderPath(folders, selectedFolderId);
+
+  const toggleExpand = (id: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  // Drag & Drop: notes and folders can be dropped on a folder or on "All Notes" (top level)
+  const handleDragOver = (e: React.DragEvent, folderId: string | null) => {
+    const types = Array.from(e.dataTransfer.types);
+    if (!types.includes(DRAG_NOTE_TYPE) && !types.includes(DRAG_FOLDER_TYPE)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = 'move';
+    setDragOverId(folderId);
+  };
+
+  const handleDrop = (e: React.DragEvent, folderId: string | null) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragOverId(undefined);
+
+    const noteId = e.dataTransfer.getData(DRAG_NOTE_TYPE);
+    const draggedFolderId = e.dataTransfer.getData(DRAG_FOLDER_TYPE);
+    if (noteId) {
+      onMoveNote(noteId, folderId);
+    } else if (draggedFolderId) {
+      onMoveFolder(draggedFolderId, folderId);
+      if (folderId) setExpandedIds(prev => new Set(prev).add(folderId));
+    }
+  };
+
   return (
     <>
       {/* Mobile Overlay */}
@@ -39,42 +145,208 @@ const Sidebar: React.FC<SidebarProps> = ({
           </button>
         </div>
 
-        <div className="px-4 pb-4">
+        <div className="px-4 pb-3">
+          <div className="relative">
+            <i className="fa-solid fa-magnifying-glass absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 text-sm" />
+            <input
+              value={searchQuery}
+              onChange={(e) => onSearchQueryChange(e.target.value)}
+              onKeyDown={(e) => e.key === 'Escape' && onSearchQueryChange('')}
+              placeholder="Search notes / খুঁজুন..."
+              className="w-full pl-9 pr-8 py-2 bg-gray-100 dark:bg-gray-800 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            {searchQuery && (
+              <button
+                onClick={() => onSearchQueryChange('')}
+                className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-gray-400 hover:text-gray-600"
+              >
+                <i className="fa-solid fa-times text-xs" />
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="px-4 pb-4 flex gap-2">
           <button 
             onClick={onNewNote}
-            className="w-full flex items-center justify-center gap-2 py-2 px-4 bg-primary text-white rounded-lg hover:bg-primary/90 transition-all shadow-md active:scale-95"
+            className="flex-1 flex items-center justify-center gap-2 py-2 px-4 bg-primary text-white rounded-lg hover:bg-primary/90 transition-all shadow-md active:scale-95"
           >
             <i className="fa-solid fa-plus" /> New Note
           </button>
+          <button
+            onClick={onNewFromTemplate}
+            className="px-3 bg-primary/10 text-primary rounded-lg hover:bg-primary/20 transition-all active:scale-95"
+            title="New from Template"
+          >
+            <i className="fa-solid fa-file-invoice" />
+          </button>
         </div>
 
-        <div className="flex-1 overflow-y-auto px-2">
-          <div className="text-xs font-semibold text-gray-400 uppercase px-2 mb-2">History</div>
-          {notes.length === 0 ? (
-            <div className="text-center text-gray-400 mt-10 text-sm italic">No saved notes</div>
-          ) : (
-            notes.map(note => (
-              <div 
-                key={note.id}
-                onClick={() => onSelectNote(note.id)}
-                className={`group relative flex items-center p-3 mb-1 rounded-lg cursor-pointer transition-colors ${currentNoteId === note.id ? 'bg-primary/10 text-primary border border-primary/20' : 'hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-300'}`}
+        {isTrashView ? (
+          <div className="flex-1 overflow-y-auto px-2">
+            <TrashView
+              notes={trashedNotes}
+              retentionDays={trashRetentionDays}
+              onRetentionChange={onTrashRetentionChange}
+              onRestore={onRestoreNote}
+              onDeleteForever={onDeleteNoteForever}
+              onEmptyTrash={onEmptyTrash}
+            />
+          </div>
+        ) : searchQuery.trim() ? (
+          <div className="flex-1 overflow-y-auto px-2">
+            <SearchResults
+              results={searchResults}
+              currentNoteId={currentNoteId}
+              onOpenResult={onOpenSearchResult}
+            />
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto px-2" onDragLeave={() => setDragOverId(undefined)}>
+            {/* Folders */}
+            <div className="flex items-center justify-between px-2 mb-1">
+              <div className="text-xs font-semibold text-gray-400 uppercase">Folders</div>
+              <button
+                onClick={() => onCreateFolder(selectedFolderId)}
+                className="p-1 text-gray-400 hover:text-primary"
+                title={selectedFolderId ? 'New Subfolder' : 'New Folder'}
               >
-                <i className="fa-regular fa-file-lines mr-3 opacity-70" />
-                <div className="truncate flex-1 text-sm font-medium">
-                  {note.title || "Untitled Note"}
+                <i className="fa-solid fa-folder-plus text-sm" />
+              </button>
+            </div>
+            <div
+              onClick={() => onSelectFolder(null)}
+              onDragOver={(e) => handleDragOver(e, null)}
+              onDrop={(e) => handleDrop(e, null)}
+              className={`flex items-center gap-2 px-2 py-1.5 rounded-lg cursor-pointer text-sm transition-colors ${dragOverId === null ? 'ring-2 ring-primary bg-primary/5' : ''} ${selectedFolderId === null ? 'bg-primary/10 text-primary' : 'hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-300'}`}
+            >
+              <i className="fa-solid fa-layer-group w-5 text-center" />
+              <span className="flex-1">All Notes</span>
+              <span className="text-xs text-gray-400">{notes.length}</span>
+            </div>
+            <FolderTree
+              nodes={folderTree}
+              selectedFolderId={selectedFolderId}
+              expandedIds={expandedIds}
+              dragOverId={dragOverId ?? null}
+              onToggleExpand={toggleExpand}
+              onSelectFolder={onSelectFolder}
+              onCreateFolder={(parentId) => {
+                onCreateFolder(parentId);
+                if (parentId) setExpandedIds(prev => new Set(prev).add(parentId));
+              }}
+              onRenameFolder={onRenameFolder}
+              onDeleteFolder={onDeleteFolder}
+              onDragOverFolder={handleDragOver}
+              onDropOnFolder={handleDrop}
+            />
+  
+            {/* Tags */}
+            {allTags.length > 0 && (
+              <div className="mt-4 px-2">
+                <div className="text-xs font-semibold text-gray-400 uppercase mb-2">Tags</div>
+                <div className="flex flex-wrap gap-1">
+                  {allTags.map(tag => (
+                    <button
+                      key={tag}
+                      onClick={() => toggleTag(tag)}
+                      className={`px-2 py-0.5 rounded-full text-xs transition-colors ${selectedTags.includes(tag) ? 'bg-secondary text-white' : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+                    >
+                      #{tag}
+                    </button>
+                  ))}
                 </div>
-                <button 
-                  onClick={(e) => onDeleteNote(note.id, e)}
-                  className="absolute right-2 opacity-0 group-hover:opacity-100 p-1 text-gray-400 hover:text-red-500 transition-opacity"
-                >
-                  <i className="fa-solid fa-trash-can" />
-                </button>
               </div>
-            ))
-          )}
-        </div>
+            )}
+  
+            {/* Notes */}
+            <div className="text-xs font-semibold text-gray-400 uppercase px-2 mt-4 mb-2 truncate">
+              {selectedFolderPath.length > 0 ? selectedFolderPath.map(f => f.name).join(' / ') : 'History'}
+            </div>
+            {visibleNotes.length === 0 ? (
+              <div className="text-center text-gray-400 mt-6 text-sm italic">No saved notes</div>
+            ) : (
+              visibleNotes.map(note => (
+                <div 
+                  key={note.id}
+                  draggable
+                  onDragStart={(e) => e.dataTransfer.setData(DRAG_NOTE_TYPE, note.id)}
+                  onClick={() => onSelectNote(note.id)}
+                  className={`group relative flex items-center p-3 mb-1 rounded-lg cursor-pointer transition-colors ${currentNoteId === note.id ? 'bg-primary/10 text-primary border border-primary/20' : 'hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-300'}`}
+                >
+                  <i className="fa-regular fa-file-lines mr-3 opacity-70" />
+                  <div className="truncate flex-1 text-sm font-medium">
+                    {note.title || "Untitled Note"}
+                  </div>
+                  {dueCounts[note.id] > 0 && (
+                    <span
+                      className="ml-2 px-1.5 rounded-full text-xs bg-secondary/15 text-secondary lg:group-hover:invisible"
+                      title={`${dueCounts[note.id]} flashcards due`}
+                    >
+                      {dueCounts[note.id]}
+                    </span>
+                  )}
+                  <button 
+                    onClick={(e) => onDeleteNote(note.id, e)}
+                    className="absolute right-2 lg:opacity-0 lg:group-hover:opacity-100 p-1 text-gray-400 hover:text-red-500 transition-opacity"
+                    title="Move to Trash"
+                  >
+                    <i className="fa-solid fa-trash-can" />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        )}
         
-        <div className="p-4 border-t border-gray-200 dark:border-gray-700 text-xs text-center text-gray-400">
+        <div className="px-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onReviewFlashcards}
+            className="w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            <i className="fa-solid fa-layer-group w-5 text-center" />
+            <span className="flex-1 text-left">Flashcards</span>
+            {totalDue > 0 && <span className="px-1.5 rounded-full text-xs bg-secondary text-white">{totalDue} due</span>}
+          </button>
+          <button
+            onClick={onOpenPapers}
+            className="w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            <i className="fa-solid fa-file-signature w-5 text-center" />
+            <span className="flex-1 text-left">Exam Papers</span>
+          </button>
+          <button
+            onClick={onOpenGrading}
+            className="w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            <i className="fa-solid fa-marker w-5 text-center" />
+            <span className="flex-1 text-left">Grade Scripts</span>
+          </button>
+          <button
+            onClick={() => setIsTrashView(!isTrashView)}
+            className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm transition-colors ${isTrashView ? 'bg-red-50 text-red-500 dark:bg-red-900/20' : 'text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+          >
+            <i className={`fa-solid ${isTrashView ? 'fa-arrow-left' : 'fa-trash-can'} w-5 text-center`} />
+            <span className="flex-1 text-left">{isTrashView ? 'Back to Notes' : 'Trash'}</span>
+            {!isTrashView && trashedNotes.length > 0 && <span className="text-xs">{trashedNotes.length}</span>}
+          </button>
+          <button
+            onClick={onOpenBackup}
+            className="w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            <i className="fa-solid fa-box-archive w-5 text-center" />
+            <span className="flex-1 text-left">Backup & Restore</span>
+          </button>
+          <button
+            onClick={onOpenSettings}
+            className="w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            <i className="fa-solid fa-gear w-5 text-center" />
+            <span className="flex-1 text-left">Settings</span>
+          </button>
+        </div>
+
+        <div className="p-4 text-xs text-center text-gray-400">
           v1.0.0 • AI-Powered
         </div>
       </div>
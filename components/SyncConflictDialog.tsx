@@ -0,0 +1,52 @@
+import React from 'react';
+import { Note } from '../types';
+import { diffLines, countChanges } from '../services/diff';
+
+export type SyncConflictChoice = 'mine' | 'theirs' | 'both';
+
+interface SyncConflictDialogProps {
+  local: Note;
+  remote: Note;
+  remaining: number;
+  onResolve: (choice: SyncConflictChoice) => void;
+}
+
+const SyncConflictDialog: React.FC<SyncConflictDialogProps> = ({ local, remote, remaining, onResolve }) => {
+  const changes = countChanges(diffLines(local.content, remote.content));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-darklighter rounded-2xl shadow-2xl w-full max-w-md p-6">
+        <div className="flex items-center gap-3 mb-3">
+          <div className="w-10 h-10 rounded-full bg-amber-100 dark:bg-amber-900/30 text-amber-500 flex items-center justify-center">
+            <i className="fa-solid fa-code-branch" />
+          </div>
+          <div>
+            <h2 className="font-bold">Edited in another tab</h2>
+            {remaining > 0 && <div className="text-xs text-gray-400">{remaining} more after this</div>}
+          </div>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-300 mb-2">
+          <span className="font-medium">"{local.title}"</span> was changed in another open tab while you were editing it here.
+        </p>
+        <p className="text-xs text-gray-500 mb-5">
+          The other tab's version differs by <span className="text-green-600">+{changes.added}</span> / <span className="text-red-500">−{changes.removed}</span> lines.
+          Whichever version you don't keep stays in the note's history.
+        </p>
+        <div className="flex flex-col gap-2">
+          <button onClick={() => onResolve('mine')} className="w-full py-2 bg-primary text-white rounded-lg hover:bg-primary/90">
+            Keep this tab's version
+          </button>
+          <button onClick={() => onResolve('theirs')} className="w-full py-2 bg-gray-100 dark:bg-gray-800 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700">
+            Use the other tab's version
+          </button>
+          <button onClick={() => onResolve('both')} className="w-full py-2 bg-gray-100 dark:bg-gray-800 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700">
+            Keep both as separate notes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncConflictDialog;
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { normalizeTag } from '../services/folders';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+}
+
+const TagInput: React.FC<TagInputProps> = ({ tags, onChange }) => {
+  const [input, setInput] = useState('');
+
+  const addTag = () => {
+    const tag = normalizeTag(input);
+    if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+    setInput('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag();
+    } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="flex items-center flex-wrap gap-1 min-w-0">
+      <i className="fa-solid fa-tags text-gray-400 text-xs mr-1" />
+      {tags.map(tag => (
+        <span key={tag} className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-secondary/10 text-secondary">
+          #{tag}
+          <button onClick={() => onChange(tags.filter(t => t !== tag))} className="hover:text-red-500">
+            <i className="fa-solid fa-times text-[10px]" />
+          </button>
+        </span>
+      ))}
+      <input
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => input.trim() && addTag()}
+        placeholder={tags.length === 0 ? 'Add tag...' : ''}
+        className="w-20 bg-transparent text-xs focus:outline-none text-gray-600 dark:text-gray-300"
+      />
+    </div>
+  );
+};
+
+export default TagInput;
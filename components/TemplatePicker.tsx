@@ -0,0 +1,170 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Note, NoteTemplate } from '../types';
+import { BUILT_IN_TEMPLATES } from '../constants';
+import { getAllTemplates, putTemplate, deleteTemplate } from '../services/storage';
+import {
+  extractPlaceholders,
+  fillTemplate,
+  isAutoPlaceholder,
+  loadPlaceholderValues,
+  savePlaceholderValues,
+  PLACEHOLDER_LABELS
+} from '../services/templates';
+
+interface TemplatePickerProps {
+  currentNote?: Note;
+  onCreate: (content: string) => void;
+  onClose: () => void;
+}
+
+const TemplatePicker: React.FC<TemplatePickerProps> = ({ currentNote, onCreate, onClose }) => {
+  const [userTemplates, setUserTemplates] = useState<NoteTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState(BUILT_IN_TEMPLATES[0].id);
+  const [values, setValues] = useState<Record<string, string>>(loadPlaceholderValues);
+
+  useEffect(() => {
+    getAllTemplates()
+      .then(setUserTemplates)
+      .catch(err => console.error("Failed to load templates", err));
+  }, []);
+
+  const allTemplates = [...BUILT_IN_TEMPLATES, ...userTemplates];
+  const selected = allTemplates.find(t => t.id === selectedId) || BUILT_IN_TEMPLATES[0];
+  const fields = useMemo(
+    () => extractPlaceholders(selected.content).filter(name => !isAutoPlaceholder(name)),
+    [selected]
+  );
+  const preview = fillTemplate(selected, values);
+
+  const handleCreate = () => {
+    savePlaceholderValues(Object.fromEntries(fields.map(f => [f, values[f] || ''])));
+    onCreate(preview);
+  };
+
+  const handleSaveCurrent = async () => {
+    if (!currentNote) return;
+    const name = window.prompt("Template name:", currentNote.title);
+    if (!name?.trim()) return;
+    const template: NoteTemplate = {
+      id: uuidv4(),
+      name: name.trim(),
+      description: 'Saved from a note',
+      content: currentNote.content,
+      language: /[\u0980-\u09FF]/.test(currentNote.content) ? 'bn' : 'en',
+      createdAt: Date.now()
+    };
+    try {
+      await putTemplate(template);
+      setUserTemplates(prev => [...prev, template].sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedId(template.id);
+    } catch (err) {
+      console.error("Failed to save template", err);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm("Delete this template?")) return;
+    try {
+      await deleteTemplate(id);
+      setUserTemplates(prev => prev.filter(t => t.id !== id));
+      if (selectedId === id) setSelectedId(BUILT_IN_TEMPLATES[0].id);
+    } catch (err) {
+      console.error("Failed to delete template", err);
+    }
+  };
+
+  const renderItem = (t: NoteTemplate) => (
+    <div
+      key={t.id}
+      onClick={() => setSelectedId(t.id)}
+      className={`group flex items-start gap-2 p-2 mb-1 rounded-lg cursor-pointer text-sm transition-colors ${selectedId === t.id ? 'bg-primary/10 text-primary border border-primary/20' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+    >
+      <div className="flex-1 min-w-0">
+        <div className="font-medium truncate">{t.name}</div>
+        <div className="text-xs text-gray-400 truncate">{t.description}</div>
+      </div>
+      {!t.builtIn && (
+        <button
+          onClick={(e) => { e.stopPropagation(); handleDelete(t.id); }}
+          className="lg:opacity-0 lg:group-hover:opacity-100 p-1 text-gray-400 hover:text-red-500"
+          title="Delete Template"
+        >
+          <i className="fa-solid fa-trash-can text-xs" />
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-darklighter rounded-2xl shadow-2xl w-full max-w-4xl h-[85vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <i className="fa-solid fa-file-invoice text-primary" />
+            <h2 className="font-bold">New Note from Template</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full">
+            <i className="fa-solid fa-times text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex flex-col md:flex-row min-h-0">
+          {/* Template List */}
+          <div className="md:w-64 max-h-48 md:max-h-none overflow-y-auto border-b md:border-b-0 md:border-r border-gray-200 dark:border-gray-700 p-2">
+            <div className="text-xs font-semibold text-gray-400 uppercase px-2 mb-2">Built-in</div>
+            {BUILT_IN_TEMPLATES.map(renderItem)}
+            <div className="text-xs font-semibold text-gray-400 uppercase px-2 mt-4 mb-2">My Templates</div>
+            {userTemplates.length === 0 && (
+              <div className="text-xs text-gray-400 italic px-2 mb-2">None saved yet</div>
+            )}
+            {userTemplates.map(renderItem)}
+            {currentNote && (
+              <button
+                onClick={handleSaveCurrent}
+                className="w-full mt-2 flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm text-primary hover:bg-primary/10"
+              >
+                <i className="fa-solid fa-floppy-disk" /> Save current note as template
+              </button>
+            )}
+          </div>
+
+          {/* Placeholders & Preview */}
+          <div className="flex-1 flex flex-col min-w-0 min-h-0">
+            {fields.length > 0 && (
+              <div className="p-4 grid grid-cols-2 gap-3 border-b border-gray-200 dark:border-gray-700">
+                {fields.map(name => (
+                  <label key={name} className="text-xs text-gray-500">
+                    {PLACEHOLDER_LABELS[name] || name}
+                    <input
+                      value={values[name] || ''}
+                      onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+                      className="mt-1 w-full px-3 py-1.5 bg-gray-100 dark:bg-gray-800 rounded-lg text-sm text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+            <pre className="flex-1 overflow-auto p-4 text-sm font-mono whitespace-pre-wrap text-gray-700 dark:text-gray-300 bg-gray-50/50 dark:bg-dark/50">
+              {preview}
+            </pre>
+            <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end">
+              <button
+                onClick={handleCreate}
+                className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 shadow-md active:scale-95 transition-all"
+              >
+                <i className="fa-solid fa-plus mr-2" />Create Note
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplatePicker;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Note } from '../types';
+import { daysUntilPurge } from '../services/trash';
+import { TRASH_RETENTION_OPTIONS } from '../constants';
+
+interface TrashViewProps {
+  notes: Note[];
+  retentionDays: number;
+  onRetentionChange: (days: number) => void;
+  onRestore: (id: string) => void;
+  onDeleteForever: (id: string) => void;
+  onEmptyTrash: () => void;
+}
+
+const TrashView: React.FC<TrashViewProps> = ({
+  notes,
+  retentionDays,
+  onRetentionChange,
+  onRestore,
+  onDeleteForever,
+  onEmptyTrash
+}) => {
+  const sorted = [...notes].sort((a, b) => (b.deletedAt || 0) - (a.deletedAt || 0));
+
+  return (
+    <>
+      <div className="flex items-center justify-between px-2 mb-2">
+        <div className="text-xs font-semibold text-gray-400 uppercase">Trash</div>
+        {notes.length > 0 && (
+          <button onClick={onEmptyTrash} className="text-xs text-red-500 hover:underline">
+            Empty Trash
+          </button>
+        )}
+      </div>
+
+      <label className="flex items-center justify-between gap-2 px-2 mb-3 text-xs text-gray-500">
+        Auto-delete after
+        <select
+          value={retentionDays}
+          onChange={(e) => onRetentionChange(Number(e.target.value))}
+          className="bg-gray-100 dark:bg-gray-800 rounded px-1 py-0.5"
+        >
+          {TRASH_RETENTION_OPTIONS.map(days => (
+            <option key={days} value={days}>{days === 0 ? 'Never' : `${days} days`}</option>
+          ))}
+        </select>
+      </label>
+
+      {sorted.length === 0 ? (
+        <div className="text-center text-gray-400 mt-6 text-sm italic">Trash is empty</div>
+      ) : (
+        sorted.map(note => {
+          const daysLeft = daysUntilPurge(note, retentionDays);
+          return (
+            <div key={note.id} className="flex items-center p-3 mb-1 rounded-lg bg-gray-50 dark:bg-gray-800/50 text-gray-600 dark:text-gray-300">
+              <i className="fa-regular fa-file-lines mr-3 opacity-50" />
+              <div className="flex-1 min-w-0">
+                <div className="truncate text-sm font-medium">{note.title || "Untitled Note"}</div>
+                {daysLeft !== null && (
+                  <div className="text-xs text-gray-400">Deleted in {daysLeft} {daysLeft === 1 ? 'day' : 'days'}</div>
+                )}
+              </div>
+              <button onClick={() => onRestore(note.id)} className="p-1 text-gray-400 hover:text-primary" title="Restore">
+                <i className="fa-solid fa-rotate-left" />
+              </button>
+              <button onClick={() => onDeleteForever(note.id)} className="p-1 text-gray-400 hover:text-red-500" title="Delete Forever">
+                <i className="fa-solid fa-xmark" />
+              </button>
+            </div>
+          );
+        })
+      )}
+    </>
+  );
+};
+
+export default TrashView;
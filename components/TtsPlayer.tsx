@@ -1,7 +1,8 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { TtsState, TtsVoice } from '../types';
 import { decodeBase64, decodeAudioData } from '../services/audioUtils';
-import { generateSpeech } from '../services/gemini';
+import { generateSpeech } from '../services/ai';
+import { AiError, toAiError } from '../services/aiErrors';
 import { AVAILABLE_VOICES } from '../constants';
 
 interface TtsPlayerProps {
@@ -15,6 +16,7 @@ interface AudioChunk {
   text: string;
   buffer: AudioBuffer | null;
   status: 'pending' | 'loading' | 'ready' | 'error';
+  error?: AiError;
 }
 
 const CHUNK_SIZE_LIMIT = 200; // Characters roughly
@@ -33,7 +35,6 @@ const TtsPlayer: React.FC<TtsPlayerProps> = ({ ttsState, setTtsState, text, onCl
   const [currentChunkIdx, setCurrentChunkIdx] = useState(0);
   const [isReadyToPlay, setIsReadyToPlay] = useState(false); // At least one chunk ready
   const [playbackState, setPlaybackState] = useState<'playing' | 'paused' | 'stopped'>('stopped');
-  const [loadingError, setLoadingError] = useState<boolean>(false);
 
   // Cleanup function to safely stop audio and close context
   const cleanupAudio = useCallback(() => {
@@ -87,7 +88,6 @@ const TtsPlayer: React.FC<TtsPlayerProps> = ({ ttsState, setTtsState, text, onCl
     setChunks(newChunks);
     setCurrentChunkIdx(0);
     setPlaybackState('playing'); // Auto-start
-    setLoadingError(false);
     
     // Initialize Audio Context
     const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
@@ -142,8 +142,7 @@ const TtsPlayer: React.FC<TtsPlayerProps> = ({ ttsState, setTtsState, text, onCl
           }
         } catch (err) {
           console.error("Failed to load chunk", targetIdx, err);
-          setChunks(prev => prev.map((c, i) => i === targetIdx ? { ...c, status: 'error' } : c));
-          if (targetIdx === currentChunkIdx) setLoadingError(true);
+          setChunks(prev => prev.map((c, i) => i === targetIdx ? { ...c, status: 'error', error: toAiError(err) } : c));
         }
       }
     };
@@ -231,6 +230,12 @@ const TtsPlayer: React.FC<TtsPlayerProps> = ({ ttsState, setTtsState, text, onCl
     }
   };
 
+  // Failed chunks go back in the queue; the loader picks the current one up first
+  const handleRetry = () => {
+    setChunks(prev => prev.map(c => c.status === 'error' ? { ...c, status: 'pending', error: undefined } : c));
+    setPlaybackState('playing');
+  };
+
   const handleClose = () => {
     cleanupAudio();
     onClose();
@@ -276,6 +281,9 @@ const TtsPlayer: React.FC<TtsPlayerProps> = ({ ttsState, setTtsState, text, onCl
     }
   };
 
+  // A later chunk may have failed while an earlier one played; it only matters once playback reaches it
+  const loadingError = chunks[currentChunkIdx]?.status === 'error' ? chunks[currentChunkIdx].error || null : null;
+
   // Calculate progress
   const progress = Math.round(((currentChunkIdx) / chunks.length) * 100) || 0;
 
@@ -287,7 +295,7 @@ const TtsPlayer: React.FC<TtsPlayerProps> = ({ ttsState, setTtsState, text, onCl
       {/* Controls */}
       <div className="flex items-center gap-3">
         {loadingError ? (
-          <button onClick={() => setPlaybackState('playing')} className="text-red-500">
+          <button onClick={handleRetry} className="text-red-500" title={loadingError.guidance}>
              <i className="fa-solid fa-triangle-exclamation" /> Retry
           </button>
         ) : (
@@ -323,9 +331,16 @@ const TtsPlayer: React.FC<TtsPlayerProps> = ({ ttsState, setTtsState, text, onCl
              style={{ width: `${progress}%` }}
           />
         </div>
-        <div className="text-xs truncate text-gray-800 dark:text-gray-200 mt-1 opacity-80">
-           {chunks[currentChunkIdx]?.text || "Preparing audio..."}
-        </div>
+        {loadingError ? (
+          <div className="text-xs truncate mt-1" title={loadingError.guidance}>
+            <span className="text-red-500 font-medium">{loadingError.message}</span>{' '}
+            <span className="text-gray-500 dark:text-gray-400">{loadingError.guidance}</span>
+          </div>
+        ) : (
+          <div className="text-xs truncate text-gray-800 dark:text-gray-200 mt-1 opacity-80">
+             {chunks[currentChunkIdx]?.text || "Preparing audio..."}
+          </div>
+        )}
       </div>
 
       {/* Settings */}
@@ -0,0 +1,27 @@
+import React from 'react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  canUndo?: boolean; // False once the change can no longer be undone cleanly
+}
+
+const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss, canUndo = true }) => (
+  <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 bg-gray-900 dark:bg-gray-700 text-white pl-4 pr-2 py-2 rounded-xl shadow-2xl animate-slide-up">
+    <span className="text-sm">{message}</span>
+    <button
+      onClick={onUndo}
+      disabled={!canUndo}
+      title={canUndo ? undefined : "The inserted text has been edited since"}
+      className="px-3 py-1 text-sm font-semibold text-secondary hover:bg-white/10 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+    >
+      Undo
+    </button>
+    <button onClick={onDismiss} className="p-1 text-gray-400 hover:text-white">
+      <i className="fa-solid fa-times text-xs" />
+    </button>
+  </div>
+);
+
+export default UndoToast;
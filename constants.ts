@@ -1,8 +1,39 @@
-import { TtsVoice, QuickAction } from './types';
+import { TtsVoice, QuickAction, NoteTemplate, AiSettings } from './types';
 
 export const GEMINI_CHAT_MODEL = 'gemini-3-flash-preview';
 export const GEMINI_TTS_MODEL = 'gemini-2.5-flash-preview-tts';
 
+// Suggestions in Settings; any other model name can be typed in
+export const GEMINI_CHAT_MODELS = ['gemini-3-flash-preview', 'gemini-3-pro-preview', 'gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'];
+export const GEMINI_TTS_MODELS = ['gemini-2.5-flash-preview-tts', 'gemini-2.5-pro-preview-tts'];
+
+// AI providers
+export const AI_SETTINGS_KEY = 'ai_settings';
+export const API_KEY_STORAGE_KEY = 'gemini_api_key';
+export const OPENAI_API_KEY_STORAGE_KEY = 'openai_api_key';
+export const API_KEY_PBKDF2_ITERATIONS = 250000;
+export const AI_REQUEST_TIMEOUT_MS = 90 * 1000;
+export const AI_MAX_RETRIES = 3;
+export const AI_RETRY_BASE_MS = 1000; // Doubles on each retry
+
+// Storage
+export const LEGACY_NOTES_KEY = 'smart_notes'; // localStorage key used before IndexedDB
+export const NOTE_SAVE_DEBOUNCE_MS = 800;
+export const NOTE_SAVE_RETRY_MS = 10 * 1000; // After a failed write
+export const SYNC_BROADCAST_DEBOUNCE_MS = 300; // Batches keystrokes before other tabs are told
+
+// Version history
+export const SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000; // At most one periodic snapshot per note every 5 minutes
+export const LARGE_EDIT_CHARS = 200; // A single change this big snapshots the text it replaced
+export const KEEP_ALL_VERSIONS_MS = 24 * 60 * 60 * 1000; // Older snapshots are thinned to one per day
+export const MAX_VERSIONS_PER_NOTE = 50;
+
+// Trash
+export const TRASH_RETENTION_KEY = 'trash_retention_days';
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60, 0]; // 0 = never purge
+export const UNDO_TOAST_MS = 6000;
+
 export const SYSTEM_INSTRUCTION_CHAT = `
 You are a highly intelligent, bilingual (English and Bangla) teacher's assistant.
 Your goal is to help teachers and students by explaining concepts clearly, solving math problems, checking grammar, and summarizing notes.
@@ -12,6 +43,87 @@ Your goal is to help teachers and students by explaining concepts clearly, solvi
 - When asked to explain in Bangla, use natural, fluent Bangla.
 `;
 
+export const SYSTEM_INSTRUCTION_REWRITE = `
+You edit short passages from a teacher's notes. Passages may be in English, Bangla, or both.
+- Reply with the edited passage only: no preamble, no explanation, no surrounding quotes or code fences.
+- Keep Markdown formatting and LaTeX math ($...$) intact.
+- Keep the original language unless asked to translate.
+`;
+
+export const SYSTEM_INSTRUCTION_QUIZ = `
+You write multiple-choice questions for school teachers in Bangladesh. Questions may be in English or Bangla.
+- Every question has exactly one correct option; the other options are plausible but clearly wrong.
+- Explanations are one or two sentences that say why the answer is correct.
+- Use KaTeX ($...$) for math.
+`;
+
+export const SYSTEM_INSTRUCTION_FLASHCARDS = `
+You make study flashcards for school students from a teacher's notes. Notes may be in English or Bangla.
+- One fact per card. The front is a short question or term; the back is a short answer.
+- Answers should be one sentence or a formula, never a paragraph.
+- Use KaTeX ($...$) for math.
+`;
+
+export const SYSTEM_INSTRUCTION_PAPER = `
+You write exam questions for school teachers in Bangladesh, following the national curriculum style. Questions may be in English or Bangla.
+- Short-answer questions can be answered in two or three sentences; give a model answer for each.
+- Creative questions (srijonshil) start with a short original scenario (uddipok), followed by four parts that move from knowledge to comprehension, application and higher-order thinking.
+- Model answers are brief: what a marker needs to check, not a full essay.
+- Use KaTeX ($...$) for math.
+`;
+
+export const SYSTEM_INSTRUCTION_GRADING = `
+You help a school teacher in Bangladesh mark photographed answer scripts. Handwriting may be in Bangla, English or both, sometimes mixed in one answer.
+- Read the handwriting carefully, including crossed-out words, margins and answers that continue on a later page.
+- Mark strictly against the teacher's rubric. Never award more than a criterion's maximum; half marks are allowed.
+- If an answer is missing or illegible, give 0 and say so.
+- Each justification is one or two sentences in English that point to what the student did or did not write.
+`;
+
+export const GRADING_PHOTO_MAX_SIZE = 2000; // px on the longest side; keeps requests small while handwriting stays legible
+
+export const SYSTEM_INSTRUCTION_TRANSLATE = `
+You translate paragraphs of a teacher's notes between English and Bangla for bilingual classroom handouts.
+- Translate each paragraph on its own, completely and faithfully, in language suited to school students.
+- Keep Markdown formatting, LaTeX math ($...$), numbers and names intact.
+- Keep standard subject terms that Bangladeshi textbooks leave in English, and add the Bangla term in brackets where it helps.
+`;
+
+export const TRANSLATE_DEBOUNCE_MS = 1500; // Waits for a pause in typing before changed paragraphs are re-translated
+
+export const SYSTEM_INSTRUCTION_TRANSCRIBE = `
+You transcribe classroom recordings from schools in Bangladesh. Teachers speak Bangla, English or both, often switching mid-sentence.
+- Write every word as spoken, each language in its own script: Bangla in Bangla script, English in Latin script. Do not translate.
+- Leave out filler sounds and long silences. Never invent speech you cannot hear.
+- Start a new line at each sentence or short group of sentences, with the second it starts.
+`;
+
+export const SYSTEM_INSTRUCTION_LECTURE = `
+You turn a teacher's lecture transcript into tidy class notes in Markdown.
+- Write in the main language of the lecture.
+- Organise the content under ## headings by topic, in the order it was taught.
+- Finish with a "## Key Points" list and a "## Homework" list. If no homework was given, say so in one line.
+- Keep definitions, examples, formulas (as LaTeX) and dates the teacher gave. Leave out chatter and classroom management.
+- Reply with the notes only, without a title line or code fences.
+`;
+
+export const LECTURE_SEGMENT_MS = 3 * 60 * 1000; // Length of each audio file sent for transcription
+
+export const SYSTEM_INSTRUCTION_CHAT_SUMMARY = `
+You condense the earlier part of a chat between a teacher and their AI assistant, so the chat can go on without the full transcript.
+- Keep what was asked, the answers and conclusions reached, and any facts, numbers, names or preferences the teacher gave.
+- Write in the language the chat used: English, Bangla or both.
+- Reply with short bullet points only, at most about 200 words.
+`;
+
+// Chat context
+export const CONTEXT_NOTE_BUDGET_CHARS = 8000; // Longer notes are cut into sections and only the relevant ones are sent
+export const CONTEXT_CHUNK_CHARS = 1500;
+export const CONTEXT_RECENT_MESSAGES = 6; // Sent word for word; older messages are summarized
+export const CONTEXT_SUMMARY_BATCH = 4; // Older messages are summarized once this many have built up
+export const CONTEXT_MESSAGE_CHARS = 4000; // Longer earlier messages, e.g. quick actions with a note pasted in, are cut short
+export const CONTEXT_COMFORTABLE_TOKENS = 8000; // Full scale of the context meter in Chat
+
 export const TTS_PREAMBLE = "Read the following text naturally and fluently. Maintain smooth flow between English and Bangla. No robotic pauses.";
 
 export const AVAILABLE_VOICES: TtsVoice[] = [
@@ -22,9 +134,204 @@ export const AVAILABLE_VOICES: TtsVoice[] = [
   TtsVoice.Zephyr
 ];
 
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'gemini',
+  gemini: {
+    chatModel: GEMINI_CHAT_MODEL,
+    ttsModel: GEMINI_TTS_MODEL,
+  },
+  openai: {
+    baseUrl: 'http://localhost:11434/v1',
+    chatModel: 'llama3.1',
+    ttsModel: 'tts-1',
+  },
+  systemInstruction: SYSTEM_INSTRUCTION_CHAT.trim(),
+  defaultVoice: TtsVoice.Kore,
+};
+
+// Default quick actions; the list the user edits is kept in localStorage
+export const QUICK_ACTIONS_KEY = 'quick_actions';
+
 export const QUICK_ACTIONS: QuickAction[] = [
-  { label: 'Summarize', prompt: 'Summarize this note concisely.', icon: 'fa-compress-alt' },
-  { label: 'Explain (Bangla)', prompt: 'Explain the key concepts of this note in fluent Bangla.', icon: 'fa-language' },
-  { label: 'Grammar Check', prompt: 'Check the grammar and spelling of this note. List corrections.', icon: 'fa-spell-check' },
-  { label: 'Generate MCQ', prompt: 'Generate 5 multiple-choice questions based on this note with answers.', icon: 'fa-list-ol' },
-];
\ No newline at end of file
+  { id: 'builtin-summarize', label: 'Summarize', prompt: 'Summarize this note concisely.', icon: 'fa-compress-alt' },
+  { id: 'builtin-explain-bn', label: 'Explain (Bangla)', prompt: 'Explain the key concepts of this note in fluent Bangla.', icon: 'fa-language' },
+  { id: 'builtin-grammar', label: 'Grammar Check', prompt: 'Check the grammar and spelling of this note. List corrections.', icon: 'fa-spell-check' },
+  { id: 'builtin-mcq', label: 'Generate MCQ', prompt: 'Generate 5 multiple-choice questions based on this note with answers.', icon: 'fa-list-ol' },
+];
+
+// This built-in action opens the structured quiz generator instead of the chat
+export const QUIZ_QUICK_ACTION_ID = 'builtin-mcq';
+export const DEFAULT_QUIZ_LENGTH = 5;
+
+export const QUICK_ACTION_ICONS = [
+  'fa-bolt', 'fa-compress-alt', 'fa-language', 'fa-spell-check', 'fa-list-ol', 'fa-clipboard-question',
+  'fa-house-laptop', 'fa-microphone-lines', 'fa-lightbulb', 'fa-book-open', 'fa-calculator', 'fa-flask',
+  'fa-globe', 'fa-pen-ruler', 'fa-star', 'fa-graduation-cap'
+];
+
+// Selection rewriting
+export const TEACHING_GRADE_KEY = 'teaching_grade'; // Class level used by "simplify for grade N"
+export const DEFAULT_GRADE = 8;
+export const GRADE_OPTIONS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+
+// Dictation
+export const DICTATION_LANGUAGE_KEY = 'dictation_language';
+export const AUTO_SWITCH_CONFIDENCE = 0.6; // In auto mode, a less certain result switches to the other language
+export const MAX_DICTATION_UNDO = 20; // Utterances "undo that" can step back through
+
+// Templates
+export const TEMPLATE_VALUES_KEY = 'template_placeholder_values'; // Last values typed into template placeholders
+
+export const BUILT_IN_TEMPLATES: NoteTemplate[] = [
+  {
+    id: 'builtin-lesson-plan-en',
+    name: 'Lesson Plan',
+    description: 'Objectives, materials, activities and assessment',
+    language: 'en',
+    builtIn: true,
+    createdAt: 0,
+    content: `# Lesson Plan: {{topic}}
+
+**Class:** {{class}}  |  **Subject:** {{subject}}  |  **Date:** {{date}}  |  **Duration:** {{duration}}
+
+## Learning Objectives
+By the end of this lesson, students will be able to:
+1. 
+2. 
+3. 
+
+## Materials
+- 
+
+## Activities
+### Introduction (5 min)
+- 
+
+### Main Activity (25 min)
+- 
+
+### Group Work (10 min)
+- 
+
+## Assessment
+- 
+
+## Homework
+- 
+`
+  },
+  {
+    id: 'builtin-lesson-plan-bn',
+    name: 'পাঠ পরিকল্পনা',
+    description: 'শিখনফল, উপকরণ, কার্যক্রম ও মূল্যায়ন',
+    language: 'bn',
+    builtIn: true,
+    createdAt: 0,
+    content: `# পাঠ পরিকল্পনা: {{topic}}
+
+**শ্রেণি:** {{class}}  |  **বিষয়:** {{subject}}  |  **তারিখ:** {{date}}  |  **সময়:** {{duration}}
+
+## শিখনফল
+এই পাঠ শেষে শিক্ষার্থীরা—
+১. 
+২. 
+৩. 
+
+## উপকরণ
+- 
+
+## পাঠ উপস্থাপন
+### প্রারম্ভিক আলোচনা (৫ মিনিট)
+- 
+
+### মূল কার্যক্রম (২৫ মিনিট)
+- 
+
+### দলগত কাজ (১০ মিনিট)
+- 
+
+## মূল্যায়ন
+- 
+
+## বাড়ির কাজ
+- 
+`
+  },
+  {
+    id: 'builtin-worksheet-en',
+    name: 'Worksheet',
+    description: 'Student worksheet with fill-in, short and long questions',
+    language: 'en',
+    builtIn: true,
+    createdAt: 0,
+    content: `# Worksheet: {{topic}}
+
+**Class:** {{class}}  |  **Subject:** {{subject}}  |  **Date:** {{date}}
+
+Name: ____________________  Roll: ______
+
+## A. Fill in the blanks
+1. 
+2. 
+
+## B. Answer in one sentence
+1. 
+2. 
+
+## C. Answer briefly
+1. 
+`
+  },
+  {
+    id: 'builtin-exam-paper-en',
+    name: 'Exam Paper',
+    description: 'Question paper header with marked sections',
+    language: 'en',
+    builtIn: true,
+    createdAt: 0,
+    content: `# {{school}}
+## {{exam}} — {{subject}}
+
+**Class:** {{class}}  |  **Full Marks:** {{marks}}  |  **Time:** {{duration}}  |  **Date:** {{date}}
+
+*Answer all questions. Figures in the margin indicate full marks.*
+
+---
+
+### Section A: Multiple Choice (1 × 10 = 10)
+1. 
+
+### Section B: Short Answer (2 × 5 = 10)
+1. 
+
+### Section C: Creative Questions
+1. 
+`
+  },
+  {
+    id: 'builtin-exam-paper-bn',
+    name: 'প্রশ্নপত্র',
+    description: 'নম্বরসহ বিভাগভিত্তিক প্রশ্নপত্র',
+    language: 'bn',
+    builtIn: true,
+    createdAt: 0,
+    content: `# {{school}}
+## {{exam}} — {{subject}}
+
+**শ্রেণি:** {{class}}  |  **পূর্ণমান:** {{marks}}  |  **সময়:** {{duration}}  |  **তারিখ:** {{date}}
+
+*সকল প্রশ্নের উত্তর দাও। ডান পাশের সংখ্যা প্রশ্নের পূর্ণমান জ্ঞাপক।*
+
+---
+
+### ক বিভাগ: বহুনির্বাচনি প্রশ্ন (১ × ১০ = ১০)
+১. 
+
+### খ বিভাগ: সংক্ষিপ্ত প্রশ্ন (২ × ৫ = ১০)
+১. 
+
+### গ বিভাগ: সৃজনশীল প্রশ্ন
+১. 
+`
+  },
+];
@@ -0,0 +1,176 @@
+import { Schema } from "@google/genai";
+import { AiProviderId, AiSettings, TtsVoice } from "../types";
+import { AI_REQUEST_TIMEOUT_MS, AI_SETTINGS_KEY, AVAILABLE_VOICES, DEFAULT_AI_SETTINGS } from "../constants";
+import { createGeminiProvider } from "./gemini";
+import { createOpenAiCompatibleProvider } from "./openaiCompatible";
+import { createMockProvider } from "./mockAi";
+import { AiError, toAiError, withRetry } from "./aiErrors";
+import { getApiKey, importLegacyApiKey } from "./apiKey";
+
+export interface InlineData {
+  mimeType: string;
+  data: string; // base64
+}
+
+export type ChatHistory = { role: string; parts: { text?: string; inlineData?: InlineData }[] }[];
+
+/**
+ * Everything the app asks of an AI backend. Chat history uses Gemini's shape ('user' / 'model' turns)
+ * and JSON schemas are Gemini schemas; other providers translate them.
+ */
+export interface AiProvider {
+  // Streams the reply, calling onChunk with the text received so far. Aborting the signal stops
+  // reading; the partial text is returned instead of throwing.
+  streamChat: (
+    history: ChatHistory,
+    newMessage: string,
+    image: string | undefined, // base64 JPEG
+    onChunk: (textSoFar: string) => void,
+    signal?: AbortSignal
+  ) => Promise<string>;
+  // One-off prompt without chat history, e.g. rewriting a selection
+  generateText: (prompt: string, systemInstruction: string, signal?: AbortSignal) => Promise<string>;
+  // Structured output, parsed. Images or audio, e.g. photographed scripts, are sent after the prompt in order.
+  generateJson: (
+    prompt: string,
+    schema: Schema,
+    systemInstruction: string,
+    signal?: AbortSignal,
+    media?: InlineData[]
+  ) => Promise<unknown>;
+  // Base64 16-bit mono PCM at 24 kHz
+  generateSpeech: (text: string, voice: TtsVoice, signal?: AbortSignal) => Promise<string>;
+}
+
+export const AI_PROVIDERS: { id: AiProviderId; label: string; description: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', description: 'Chat, vision, audio and speech through the Gemini API.' },
+  { id: 'openai', label: 'OpenAI-compatible', description: 'OpenAI, or a local server such as Ollama or LM Studio, at the base URL below.' },
+  { id: 'mock', label: 'Offline mock', description: 'Canned, repeatable replies for trying the app without a network or key.' },
+];
+
+// Settings
+export const loadAiSettings = (): AiSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(AI_SETTINGS_KEY) || 'null');
+    if (!saved || typeof saved !== 'object') return DEFAULT_AI_SETTINGS;
+    // The OpenAI-compatible key used to be kept here in plain text
+    if (typeof saved.openai?.apiKey === 'string') {
+      importLegacyApiKey('openai', saved.openai.apiKey);
+      delete saved.openai.apiKey;
+      localStorage.setItem(AI_SETTINGS_KEY, JSON.stringify(saved));
+    }
+    return {
+      provider: AI_PROVIDERS.some(p => p.id === saved.provider) ? saved.provider : DEFAULT_AI_SETTINGS.provider,
+      gemini: { ...DEFAULT_AI_SETTINGS.gemini, ...saved.gemini },
+      openai: { ...DEFAULT_AI_SETTINGS.openai, ...saved.openai },
+      systemInstruction: typeof saved.systemInstruction === 'string' && saved.systemInstruction.trim()
+        ? saved.systemInstruction
+        : DEFAULT_AI_SETTINGS.systemInstruction,
+      defaultVoice: AVAILABLE_VOICES.includes(saved.defaultVoice) ? saved.defaultVoice : DEFAULT_AI_SETTINGS.defaultVoice,
+    };
+  } catch {
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const saveAiSettings = (settings: AiSettings) => {
+  localStorage.setItem(AI_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const describeProvider = (settings: AiSettings) => {
+  if (settings.provider === 'gemini') return settings.gemini.chatModel;
+  if (settings.provider === 'openai') return settings.openai.chatModel || 'OpenAI-compatible';
+  return AI_PROVIDERS.find(p => p.id === settings.provider)!.label;
+};
+
+// apiKey overrides the provider's saved key, for testing one before it is saved
+const createProvider = (settings: AiSettings, apiKey?: string): AiProvider => {
+  switch (settings.provider) {
+    case 'openai': return createOpenAiCompatibleProvider(settings.openai, apiKey || getApiKey('openai'), settings.systemInstruction);
+    case 'mock': return createMockProvider();
+    default: return createGeminiProvider({ ...settings.gemini, apiKey: apiKey || getApiKey('gemini'), systemInstruction: settings.systemInstruction });
+  }
+};
+
+// Settings are read on every call, so changes take effect right away
+const getProvider = (): AiProvider => createProvider(loadAiSettings());
+
+/**
+ * Gives one attempt its own signal that also aborts after AI_REQUEST_TIMEOUT_MS without progress.
+ * Calling keepAlive restarts the clock, so a long reply that keeps streaming isn't cut off.
+ */
+const withDeadline = async <T>(
+  signal: AbortSignal | undefined,
+  run: (attemptSignal: AbortSignal, keepAlive: () => void) => Promise<T>
+): Promise<T> => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout>;
+  const keepAlive = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => controller.abort(), AI_REQUEST_TIMEOUT_MS);
+  };
+  const forwardAbort = () => controller.abort();
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+  keepAlive();
+  try {
+    const result = await run(controller.signal, keepAlive);
+    // Streaming returns the partial text when aborted, so a timeout can look like success
+    if (controller.signal.aborted && !signal?.aborted) throw new AiError('timeout');
+    return result;
+  } catch (error) {
+    if (controller.signal.aborted && !signal?.aborted) throw new AiError('timeout');
+    throw error;
+  } finally {
+    clearTimeout(timer!);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+};
+
+// Once part of a reply has been shown, a retry would start it over, so only silent failures are retried
+export const streamChat: AiProvider['streamChat'] = (history, newMessage, image, onChunk, signal) => {
+  let hasStreamed = false;
+  return withRetry(
+    () => withDeadline(signal, (attemptSignal, keepAlive) =>
+      getProvider().streamChat(history, newMessage, image, (textSoFar) => {
+        hasStreamed = true;
+        keepAlive();
+        onChunk(textSoFar);
+      }, attemptSignal)
+    ),
+    { signal, canRetry: () => !hasStreamed }
+  );
+};
+
+export const generateText: AiProvider['generateText'] = (prompt, systemInstruction, signal) =>
+  withRetry(() => withDeadline(signal, attemptSignal => getProvider().generateText(prompt, systemInstruction, attemptSignal)), { signal });
+
+export const generateJson: AiProvider['generateJson'] = (prompt, schema, systemInstruction, signal, media) =>
+  withRetry(() => withDeadline(signal, attemptSignal => getProvider().generateJson(prompt, schema, systemInstruction, attemptSignal, media)), { signal });
+
+export const generateSpeech: AiProvider['generateSpeech'] = (text, voice, signal) =>
+  withRetry(() => withDeadline(signal, attemptSignal => getProvider().generateSpeech(text, voice, attemptSignal)), { signal });
+
+/**
+ * Sends one short prompt with the given settings, without retrying. Speech is tried as well but reported
+ * apart, since plenty of chat servers have no speech model.
+ */
+export const testConnection = async (
+  settings: AiSettings,
+  apiKey?: string
+): Promise<{ ms: number; speechError: AiError | null }> => {
+  const started = Date.now();
+  let provider: AiProvider;
+  try {
+    provider = createProvider(settings, apiKey);
+    await withDeadline(undefined, signal => provider.generateText("Reply with the word OK.", "Reply as briefly as possible.", signal));
+  } catch (error) {
+    throw toAiError(error);
+  }
+  const ms = Date.now() - started;
+  try {
+    await withDeadline(undefined, signal => provider.generateSpeech("OK", settings.defaultVoice, signal));
+    return { ms, speechError: null };
+  } catch (error) {
+    return { ms, speechError: toAiError(error) };
+  }
+};
@@ -0,0 +1,148 @@
+import { AiErrorKind } from "../types";
+import { AI_MAX_RETRIES, AI_RETRY_BASE_MS } from "../constants";
+
+export const AI_ERROR_INFO: Record<AiErrorKind, { title: string; guidance: string; retryable: boolean }> = {
+  'missing-key': {
+    title: "No API key is set up.",
+    guidance: "Add your key in Settings, or switch to the offline mock provider to try things out.",
+    retryable: false,
+  },
+  'key-locked': {
+    title: "Your API key is locked.",
+    guidance: "Enter your passphrase in Settings to unlock it for this session.",
+    retryable: false,
+  },
+  'invalid-key': {
+    title: "The API key was rejected.",
+    guidance: "Check in Settings that the key is copied in full and still active.",
+    retryable: false,
+  },
+  'quota': {
+    title: "Too many requests for now.",
+    guidance: "The usage limit for this key was reached. Wait a minute and try again, or check your plan's quota.",
+    retryable: true,
+  },
+  'safety': {
+    title: "The reply was blocked by the safety filter.",
+    guidance: "Rephrase the question, or leave out the part of the note that may have triggered it.",
+    retryable: false,
+  },
+  'network': {
+    title: "Couldn't reach the AI service.",
+    guidance: "Check your internet connection. For a local server, make sure it is running and allows requests from this page.",
+    retryable: true,
+  },
+  'timeout': {
+    title: "The AI service took too long to answer.",
+    guidance: "Try again, or send a shorter note or question.",
+    retryable: true,
+  },
+  'server': {
+    title: "The AI service is having trouble.",
+    guidance: "This is usually temporary. Try again in a few minutes.",
+    retryable: true,
+  },
+  'bad-request': {
+    title: "The AI service turned the request down.",
+    guidance: "Check the model names and server address in Settings. The model may not exist, or may not accept this kind of input.",
+    retryable: false,
+  },
+  'unsupported-media': {
+    title: "This AI provider can't take this kind of recording.",
+    guidance: "Switch to Gemini in Settings to transcribe it, or use a model that accepts WAV or MP3 audio.",
+    retryable: false,
+  },
+  'empty-audio': {
+    title: "No audio came back for this part.",
+    guidance: "Try again, or pick a different voice.",
+    retryable: false,
+  },
+  'unknown': {
+    title: "Something went wrong with the AI request.",
+    guidance: "Try again. If it keeps happening, check the AI provider in Settings.",
+    retryable: false,
+  },
+};
+
+// Problems the user fixes in Settings rather than by trying again
+export const isSettingsProblem = (kind: AiErrorKind) =>
+  kind === 'missing-key' || kind === 'key-locked' || kind === 'invalid-key' || kind === 'bad-request' || kind === 'unsupported-media';
+
+export class AiError extends Error {
+  constructor(
+    public readonly kind: AiErrorKind,
+    public readonly detail?: string, // Provider's own message, for the console
+    public readonly status?: number
+  ) {
+    super(AI_ERROR_INFO[kind].title);
+    this.name = 'AiError';
+  }
+
+  get guidance() {
+    return AI_ERROR_INFO[this.kind].guidance;
+  }
+
+  get retryable() {
+    return AI_ERROR_INFO[this.kind].retryable;
+  }
+}
+
+export const errorKindForStatus = (status: number, message = ''): AiErrorKind => {
+  if (status === 401 || status === 403 || /api key not valid|invalid api key|incorrect api key/i.test(message)) return 'invalid-key';
+  if (status === 429) return 'quota';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'server';
+  if (status >= 400) return 'bad-request'; // Wrong model name, unsupported input, malformed request
+  return 'unknown';
+};
+
+// Providers throw AiError where they can tell; anything else is sorted by status code and message
+export const toAiError = (error: unknown): AiError => {
+  if (error instanceof AiError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+
+  if (status !== undefined) {
+    const kind = errorKindForStatus(status, message);
+    if (kind !== 'unknown') return new AiError(kind, message, status);
+  }
+  if (/api key not valid|invalid api key|API_KEY_INVALID/i.test(message)) return new AiError('invalid-key', message, status);
+  if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return new AiError('quota', message, status);
+  if (/SAFETY|blocked/i.test(message)) return new AiError('safety', message, status);
+  if (/model.*not found|not found.*model|does not exist|not supported/i.test(message)) return new AiError('bad-request', message, status);
+  if (error instanceof TypeError || /failed to fetch|fetch failed|network|ERR_/i.test(message) || !navigator.onLine) {
+    return new AiError('network', message, status);
+  }
+  return new AiError('unknown', message, status);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => { clearTimeout(timer); reject(signal.reason); }, { once: true });
+});
+
+/**
+ * Runs an AI call, retrying retryable failures after 1s, 2s, 4s (plus jitter). Errors come out as AiError,
+ * except that aborting the signal rethrows whatever the call threw so callers can tell a cancel apart.
+ */
+export const withRetry = async <T>(
+  run: () => Promise<T>,
+  options: { signal?: AbortSignal; canRetry?: () => boolean } = {}
+): Promise<T> => {
+  const { signal, canRetry = () => true } = options;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      const aiError = toAiError(error);
+      if (!aiError.retryable || attempt >= AI_MAX_RETRIES || !canRetry()) {
+        console.error(`AI request failed (${aiError.kind})`, aiError.detail ?? error);
+        throw aiError;
+      }
+      const delay = AI_RETRY_BASE_MS * 2 ** attempt * (1 + Math.random() * 0.25);
+      console.warn(`AI request failed (${aiError.kind}), retrying in ${Math.round(delay)} ms`);
+      await sleep(delay, signal);
+    }
+  }
+};
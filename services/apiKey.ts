@@ -0,0 +1,116 @@
+import { API_KEY_STORAGE_KEY, OPENAI_API_KEY_STORAGE_KEY, API_KEY_PBKDF2_ITERATIONS } from "../constants";
+import { decodeBase64 } from "./audioUtils";
+import { blobToBase64 } from "./fileUtils";
+import { AiError } from "./aiErrors";
+
+type StoredKey =
+  | { encrypted: false; key: string }
+  | { encrypted: true; salt: string; iv: string; data: string }; // base64; AES-GCM with a PBKDF2-derived key
+
+// Each provider that takes a key has its own, saved and encrypted the same way
+export type ApiKeyOwner = 'gemini' | 'openai';
+
+// 'build' is a key baked in at build time, used only when the user hasn't saved their own Gemini key
+export type ApiKeyStatus = 'none' | 'build' | 'saved' | 'locked' | 'unlocked';
+
+const STORAGE_KEYS: Record<ApiKeyOwner, string> = {
+  gemini: API_KEY_STORAGE_KEY,
+  openai: OPENAI_API_KEY_STORAGE_KEY,
+};
+
+// An encrypted key is decrypted into memory only, so it has to be unlocked again after a reload
+const unlockedKeys = new Map<ApiKeyOwner, string>();
+
+const readStored = (owner: ApiKeyOwner): StoredKey | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEYS[owner]) || 'null');
+    return stored && typeof stored === 'object' ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+const buildKey = (owner: ApiKeyOwner): string | null => {
+  if (owner !== 'gemini') return null;
+  try {
+    return process.env.API_KEY || null;
+  } catch {
+    return null; // No process object outside AI Studio builds
+  }
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: API_KEY_PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const bytesToBase64 = (bytes: Uint8Array | ArrayBuffer) => blobToBase64(new Blob([bytes]));
+
+export const getApiKeyStatus = (owner: ApiKeyOwner): ApiKeyStatus => {
+  const stored = readStored(owner);
+  if (!stored) return buildKey(owner) ? 'build' : 'none';
+  if (!stored.encrypted) return 'saved';
+  return unlockedKeys.has(owner) ? 'unlocked' : 'locked';
+};
+
+// Throws when the saved key is encrypted and hasn't been unlocked this session
+export const getApiKey = (owner: ApiKeyOwner): string | null => {
+  const stored = readStored(owner);
+  if (!stored) return buildKey(owner);
+  if (stored.encrypted === false) return stored.key;
+  const key = unlockedKeys.get(owner);
+  if (!key) throw new AiError('key-locked');
+  return key;
+};
+
+export const saveApiKey = async (owner: ApiKeyOwner, key: string, passphrase?: string) => {
+  let stored: StoredKey = { encrypted: false, key };
+  if (passphrase) {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await deriveKey(passphrase, salt), new TextEncoder().encode(key));
+    stored = { encrypted: true, salt: await bytesToBase64(salt), iv: await bytesToBase64(iv), data: await bytesToBase64(data) };
+  }
+  localStorage.setItem(STORAGE_KEYS[owner], JSON.stringify(stored));
+  if (passphrase) unlockedKeys.set(owner, key);
+  else unlockedKeys.delete(owner);
+};
+
+// Keys saved in plain settings by older versions move here, unless a key was already saved
+export const importLegacyApiKey = (owner: ApiKeyOwner, key: string) => {
+  if (!key || readStored(owner)) return;
+  const stored: StoredKey = { encrypted: false, key };
+  localStorage.setItem(STORAGE_KEYS[owner], JSON.stringify(stored));
+};
+
+export const unlockApiKey = async (owner: ApiKeyOwner, passphrase: string) => {
+  const stored = readStored(owner);
+  if (!stored?.encrypted) return;
+  try {
+    const key = await deriveKey(passphrase, decodeBase64(stored.salt));
+    const data = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: decodeBase64(stored.iv) },
+      key,
+      decodeBase64(stored.data)
+    );
+    unlockedKeys.set(owner, new TextDecoder().decode(data));
+  } catch {
+    // AES-GCM fails its integrity check when the passphrase is wrong
+    throw new Error("That passphrase doesn't unlock the saved key.");
+  }
+};
+
+export const lockApiKey = (owner: ApiKeyOwner) => {
+  unlockedKeys.delete(owner);
+};
+
+export const removeApiKey = (owner: ApiKeyOwner) => {
+  localStorage.removeItem(STORAGE_KEYS[owner]);
+  unlockedKeys.delete(owner);
+};
@@ -26,4 +26,47 @@ export async function decodeAudioData(
     }
   }
   return buffer;
-}
\ No newline at end of file
+}
+
+// Re-encodes any recording the browser can play as 16-bit mono WAV
+export async function encodeWav(data: Uint8Array, sampleRate: number = 16000): Promise<Uint8Array> {
+  const decoded = await new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(data.slice().buffer);
+  // Rendering through a mono context at the target rate mixes the channels down and resamples
+  const ctx = new OfflineAudioContext(1, Math.max(1, Math.ceil(decoded.duration * sampleRate)), sampleRate);
+  const source = ctx.createBufferSource();
+  source.buffer = decoded;
+  source.connect(ctx.destination);
+  source.start();
+  const samples = (await ctx.startRendering()).getChannelData(0);
+
+  const view = new DataView(new ArrayBuffer(44 + samples.length * 2));
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeText(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 32768 : sample * 32767, true);
+  }
+  return new Uint8Array(view.buffer);
+}
+
+// Markdown symbols would otherwise be read out loud
+export function cleanSpeechText(text: string): string {
+  return text
+    .replace(/[#*`_~]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
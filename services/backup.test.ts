@@ -0,0 +1,198 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnswerScript, ChatThread, Flashcard, Folder, GradingSession, MediaItem, Note } from '../types';
+import { applyImport, exportWorkspace, parseArchive, planImport } from './backup';
+import { saveSnapshot } from './history';
+
+// IndexedDB stores, kept in memory
+const db = vi.hoisted(() => new Map<string, { id: string }[]>());
+
+vi.mock('./storage', async importOriginal => {
+  const { normalizeNote } = await importOriginal<typeof import('./storage')>();
+  const getAll = (store: string) => async () => [...(db.get(store) || [])];
+  const put = (store: string) => async (items: { id: string }[]) => {
+    const ids = new Set(items.map(item => item.id));
+    db.set(store, [...(db.get(store) || []).filter(item => !ids.has(item.id)), ...items]);
+  };
+  return {
+    normalizeNote,
+    getAllChatThreads: getAll('chatThreads'), putChatThreads: put('chatThreads'),
+    getAllMedia: getAll('media'), putMediaItems: put('media'),
+    getAllQuizzes: getAll('quizzes'), putQuizzes: put('quizzes'),
+    getAllFlashcards: getAll('flashcards'), putFlashcards: put('flashcards'),
+    getAllPapers: getAll('papers'), putPapers: put('papers'),
+    getAllTranslations: getAll('translations'), putTranslations: put('translations'),
+    getAllLectures: getAll('lectures'), putLectures: put('lectures'),
+    getAllGradingSessions: getAll('gradingSessions'), putGradingSessions: put('gradingSessions'),
+    getAllAnswerScripts: getAll('answerScripts'), putAnswerScripts: put('answerScripts'),
+  };
+});
+
+vi.mock('./history', () => ({ saveSnapshot: vi.fn(async () => {}) }));
+
+// Node has Blob but not FileReader
+class DataUrlReader {
+  result: string | null = null;
+  error: Error | null = null;
+  onloadend: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  readAsDataURL(blob: Blob) {
+    blob.arrayBuffer().then(buffer => {
+      this.result = `data:${blob.type};base64,${Buffer.from(buffer).toString('base64')}`;
+      this.onloadend?.();
+    });
+  }
+}
+
+const note: Note = {
+  id: 'note-1',
+  title: 'The water cycle',
+  content: 'Evaporation, condensation, precipitation.',
+  updatedAt: 1000,
+  folderId: 'folder-1',
+  tags: ['science'],
+  deletedAt: null,
+};
+const folder: Folder = { id: 'folder-1', name: 'Class 8', parentId: null, createdAt: 0 };
+const thread: ChatThread = {
+  id: 'thread-1',
+  noteId: 'note-1',
+  title: 'Rain',
+  messages: [{ id: 'm1', role: 'user', text: 'Why does it rain?', timestamp: 0 }],
+  createdAt: 0,
+  updatedAt: 0,
+};
+const media: MediaItem = { id: 'media-1', noteId: 'note-1', mimeType: 'image/png', data: new Blob(['clouds'], { type: 'image/png' }), createdAt: 0 };
+const card: Flashcard = {
+  id: 'card-1',
+  noteId: 'note-1',
+  front: 'What falls from clouds?',
+  back: 'Rain',
+  source: 'note',
+  easeFactor: 2.5,
+  interval: 0,
+  repetitions: 0,
+  dueAt: 0,
+  history: [],
+  createdAt: 0,
+};
+const session: GradingSession = {
+  id: 'session-1',
+  title: 'Unit test',
+  rubric: [{ id: 'q1', label: '1', question: 'Explain rain', modelAnswer: 'Condensation', criteria: [{ id: 'c1', description: 'Mentions condensation', maxMarks: 2 }] }],
+  createdAt: 0,
+  updatedAt: 0,
+};
+const script: AnswerScript = {
+  id: 'script-1',
+  sessionId: 'session-1',
+  studentName: 'Rahim',
+  roll: '7',
+  photos: [new Blob(['page one'], { type: 'image/jpeg' })],
+  status: 'graded',
+  scores: [{ criterionId: 'c1', score: 2, suggestedScore: 2, justification: 'Correct' }],
+  createdAt: 0,
+};
+
+const exportText = async (notes: Note[] = [note]) => (await exportWorkspace(notes, [folder])).text();
+
+beforeEach(() => {
+  db.clear();
+  db.set('chatThreads', [thread]);
+  db.set('media', [media]);
+  db.set('flashcards', [card]);
+  db.set('gradingSessions', [session]);
+  db.set('answerScripts', [script]);
+  vi.mocked(saveSnapshot).mockClear();
+  vi.stubGlobal('FileReader', DataUrlReader);
+});
+
+describe('backup', () => {
+  it('restores everything it exported onto an empty device', async () => {
+    const text = await exportText();
+    db.clear();
+
+    const plan = planImport(parseArchive(text), []);
+    const result = await applyImport(plan, {}, []);
+
+    expect(result.notes).toEqual([note]);
+    expect(result.folders).toEqual([folder]);
+    expect(db.get('chatThreads')).toEqual([thread]);
+    expect(db.get('flashcards')).toEqual([card]);
+    expect(db.get('gradingSessions')).toEqual([session]);
+    const [restoredMedia] = db.get('media') as MediaItem[];
+    expect(await restoredMedia.data.text()).toBe('clouds');
+    const [restoredScript] = db.get('answerScripts') as AnswerScript[];
+    expect(await restoredScript.photos[0].text()).toBe('page one');
+    expect(restoredScript.photos[0].type).toBe('image/jpeg');
+  });
+
+  it('rejects files that are not backups', () => {
+    expect(() => parseArchive('not json')).toThrow('not a valid backup');
+    expect(() => parseArchive('{"format":"something-else","version":1}')).toThrow('not a Smart Teacher Notepad backup');
+  });
+
+  it('leaves out damaged entries and counts them', async () => {
+    const data = JSON.parse(await exportText());
+    data.media.push({ id: 'media-2', noteId: 'note-1', mimeType: 'image/png', data: 'not base64!' });
+    data.lectures = [{ id: 'lecture-1', noteId: 'note-1', title: 'No segments' }];
+    data.answerScripts.push({ ...data.answerScripts[0], id: 'script-2', photos: undefined });
+
+    const archive = parseArchive(JSON.stringify(data));
+
+    expect(archive.skipped).toBe(3);
+    expect(archive.media.map(m => m.id)).toEqual(['media-1']);
+    expect(archive.lectures).toEqual([]);
+    expect(archive.answerScripts.map(s => s.id)).toEqual(['script-1']);
+  });
+
+  it('copies attachments under a new id when both versions are kept', async () => {
+    const text = await exportText();
+    const edited = { ...note, content: 'Edited on this device.', updatedAt: 2000 };
+
+    const plan = planImport(parseArchive(text), [edited]);
+    const result = await applyImport(plan, { 'note-1': 'keep-both' }, [folder]);
+
+    const copy = result.notes[0];
+    expect(plan.conflicts).toHaveLength(1);
+    expect(copy.id).not.toBe('note-1');
+    expect(copy.title).toBe('The water cycle (imported)');
+    expect(result.folders).toEqual([]);
+    expect((db.get('chatThreads') as ChatThread[]).map(t => t.noteId)).toEqual(['note-1', copy.id]);
+    expect((db.get('flashcards') as Flashcard[]).map(c => c.noteId)).toEqual(['note-1', copy.id]);
+    expect(saveSnapshot).not.toHaveBeenCalled();
+  });
+
+  it('merges into the newer text and keeps the older one in history', async () => {
+    const text = await exportText([{ ...note, content: 'From the backup.', updatedAt: 3000, tags: ['exam'] }]);
+
+    const plan = planImport(parseArchive(text), [note]);
+    const result = await applyImport(plan, {}, [folder]);
+
+    expect(result.notes[0].content).toBe('From the backup.');
+    expect(result.notes[0].tags).toEqual(['science', 'exam']);
+    expect(saveSnapshot).toHaveBeenCalledWith(expect.objectContaining({ id: 'note-1', content: note.content }), 'import');
+  });
+
+  it('keeps a grading session marked further on both sides', async () => {
+    const text = await exportText();
+    const markedHere: GradingSession = { ...session, updatedAt: 5 };
+    db.set('gradingSessions', [markedHere]);
+
+    await applyImport(planImport(parseArchive(text), []), {}, []);
+
+    const sessions = db.get('gradingSessions') as GradingSession[];
+    const copy = sessions.find(s => s.id !== 'session-1')!;
+    expect(copy.title).toBe('Unit test (imported)');
+    expect((db.get('answerScripts') as AnswerScript[]).map(s => s.sessionId)).toEqual(['session-1', copy.id]);
+  });
+
+  it('writes nothing when an attachment cannot be decoded', async () => {
+    const archive = parseArchive(await exportText());
+    archive.media[0].data = '@@@@';
+    db.clear();
+
+    await expect(applyImport(planImport(archive, [{ ...note, updatedAt: 0 }]), {}, [])).rejects.toThrow();
+    expect(db.size).toBe(0);
+    expect(saveSnapshot).not.toHaveBeenCalled();
+  });
+});
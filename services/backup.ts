@@ -0,0 +1,347 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Note, Folder, ChatThread, MediaItem, Quiz, Flashcard, ExamPaper, NoteTranslation, Lecture, GradingSession, AnswerScript } from "../types";
+import {
+  getAllChatThreads,
+  getAllMedia,
+  getAllQuizzes,
+  getAllFlashcards,
+  getAllPapers,
+  getAllTranslations,
+  getAllLectures,
+  getAllGradingSessions,
+  getAllAnswerScripts,
+  putChatThreads,
+  putMediaItems,
+  putQuizzes,
+  putFlashcards,
+  putPapers,
+  putTranslations,
+  putLectures,
+  putGradingSessions,
+  putAnswerScripts,
+  normalizeNote
+} from "./storage";
+import { saveSnapshot } from "./history";
+import { blobToBase64, base64ToBlob } from "./fileUtils";
+import {
+  isRecord,
+  isArchivedNote,
+  isFolder,
+  isChatThread,
+  isArchivedMedia,
+  isQuiz,
+  isFlashcard,
+  isExamPaper,
+  isNoteTranslation,
+  isLecture,
+  isGradingSession,
+  isArchivedScript
+} from "./guards";
+
+const ARCHIVE_FORMAT = 'smart-teacher-notepad-backup';
+const ARCHIVE_VERSION = 1;
+
+interface ArchivedMedia extends Omit<MediaItem, 'data'> {
+  data: string; // base64
+}
+
+interface ArchivedScript extends Omit<AnswerScript, 'photos'> {
+  photos: { mimeType: string; data: string }[]; // base64
+}
+
+export interface WorkspaceArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  notes: Note[];
+  folders: Folder[];
+  chatThreads: ChatThread[];
+  media: ArchivedMedia[];
+  quizzes: Quiz[];
+  flashcards: Flashcard[];
+  papers: ExamPaper[];
+  translations: NoteTranslation[];
+  lectures: Lecture[];
+  gradingSessions: GradingSession[];
+  answerScripts: ArchivedScript[];
+}
+
+export interface ParsedArchive extends WorkspaceArchive {
+  skipped: number; // Damaged or incomplete entries left out when the file was read
+}
+
+export type ConflictResolution = 'merge' | 'overwrite' | 'keep-both';
+
+export interface ImportConflict {
+  existing: Note;
+  incoming: Note;
+}
+
+export interface ImportPlan {
+  archive: ParsedArchive;
+  newNotes: Note[];
+  unchangedCount: number;
+  conflicts: ImportConflict[];
+}
+
+export interface ImportResult {
+  notes: Note[]; // Notes to add or replace, by id
+  folders: Folder[]; // Folders that did not exist yet
+  flashcards: Flashcard[]; // Already saved; returned so review counts can update
+}
+
+// Export
+export const exportWorkspace = async (notes: Note[], folders: Folder[]): Promise<Blob> => {
+  const [chatThreads, media, quizzes, flashcards, papers, translations, lectures, gradingSessions, answerScripts] = await Promise.all([
+    getAllChatThreads(),
+    getAllMedia(),
+    getAllQuizzes(),
+    getAllFlashcards(),
+    getAllPapers(),
+    getAllTranslations(),
+    getAllLectures(),
+    getAllGradingSessions(),
+    getAllAnswerScripts()
+  ]);
+  const noteIds = new Set(notes.map(n => n.id));
+
+  const archive: WorkspaceArchive = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    notes,
+    folders,
+    chatThreads: chatThreads.filter(t => noteIds.has(t.noteId)),
+    media: await Promise.all(
+      media
+        .filter(m => noteIds.has(m.noteId))
+        .map(async m => ({ ...m, data: await blobToBase64(m.data) }))
+    ),
+    quizzes: quizzes.filter(q => noteIds.has(q.noteId)),
+    flashcards: flashcards.filter(c => noteIds.has(c.noteId)),
+    papers,
+    translations: translations.filter(t => noteIds.has(t.noteId)),
+    lectures: lectures.filter(l => noteIds.has(l.noteId)),
+    gradingSessions,
+    answerScripts: await Promise.all(
+      answerScripts.map(async s => ({
+        ...s,
+        photos: await Promise.all(s.photos.map(async p => ({ mimeType: p.type, data: await blobToBase64(p) }))),
+      }))
+    ),
+  };
+
+  return new Blob([JSON.stringify(archive)], { type: 'application/json' });
+};
+
+export const backupFilename = (date = new Date()) =>
+  `smart-teacher-backup-${date.toISOString().slice(0, 10)}.json`;
+
+// Import
+export const parseArchive = (text: string): ParsedArchive => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("This file is not a valid backup archive.");
+  }
+
+  if (!isRecord(data) || data.format !== ARCHIVE_FORMAT || typeof data.version !== 'number') {
+    throw new Error("This file is not a Smart Teacher Notepad backup.");
+  }
+  if (data.version > ARCHIVE_VERSION) {
+    throw new Error("This backup was made by a newer version of the app. Please update and try again.");
+  }
+
+  // A damaged entry is left out rather than failing the import halfway through
+  let skipped = 0;
+  const entries = <T>(value: unknown, guard: (item: unknown) => item is T): T[] => {
+    const list: unknown[] = Array.isArray(value) ? value : [];
+    const valid = list.filter(guard);
+    skipped += list.length - valid.length;
+    return valid;
+  };
+
+  // Older archive versions are upgraded here as the format evolves
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: typeof data.exportedAt === 'number' ? data.exportedAt : 0,
+    notes: entries(data.notes, isArchivedNote).map(normalizeNote),
+    folders: entries(data.folders, isFolder),
+    chatThreads: entries(data.chatThreads, isChatThread),
+    media: entries(data.media, isArchivedMedia),
+    quizzes: entries(data.quizzes, isQuiz),
+    flashcards: entries(data.flashcards, isFlashcard),
+    papers: entries(data.papers, isExamPaper),
+    translations: entries(data.translations, isNoteTranslation),
+    lectures: entries(data.lectures, isLecture),
+    gradingSessions: entries(data.gradingSessions, isGradingSession),
+    answerScripts: entries(data.answerScripts, isArchivedScript),
+    skipped,
+  };
+};
+
+export const planImport = (archive: ParsedArchive, existingNotes: Note[]): ImportPlan => {
+  const existingById = new Map(existingNotes.map(n => [n.id, n]));
+  const plan: ImportPlan = { archive, newNotes: [], unchangedCount: 0, conflicts: [] };
+
+  archive.notes.forEach(incoming => {
+    const existing = existingById.get(incoming.id);
+    if (!existing) {
+      plan.newNotes.push(incoming);
+    } else if (existing.updatedAt === incoming.updatedAt && existing.content === incoming.content) {
+      plan.unchangedCount++;
+    } else {
+      plan.conflicts.push({ existing, incoming });
+    }
+  });
+  return plan;
+};
+
+// "Merge" keeps the most recently edited text, unions the tags, and snapshots the other side into history
+const mergeNotes = (existing: Note, incoming: Note): { note: Note; replaced: Note } => {
+  const [newer, older] = incoming.updatedAt > existing.updatedAt ? [incoming, existing] : [existing, incoming];
+  return {
+    note: { ...newer, tags: Array.from(new Set([...existing.tags, ...incoming.tags])) },
+    replaced: older,
+  };
+};
+
+export const applyImport = async (
+  plan: ImportPlan,
+  resolutions: Record<string, ConflictResolution>,
+  existingFolders: Folder[]
+): Promise<ImportResult> => {
+  const { archive } = plan;
+  const result: ImportResult = { notes: [...plan.newNotes], folders: [], flashcards: [] };
+  const [existingPapers, existingSessions, existingScripts] = await Promise.all([
+    getAllPapers(),
+    getAllGradingSessions(),
+    getAllAnswerScripts()
+  ]);
+
+  // Everything is built, and every attachment decoded, before the first write, so a bad archive
+  // fails without leaving a half-applied restore behind
+  const snapshots: Pick<Note, 'id' | 'title' | 'content'>[] = [];
+
+  // Attachments of a "keep both" copy are duplicated under the copy's id
+  const copiedNoteIds = new Map<string, string>();
+  const importedNoteIds = new Set(plan.newNotes.map(n => n.id));
+
+  plan.conflicts.forEach(({ existing, incoming }) => {
+    const resolution = resolutions[incoming.id] || 'merge';
+    if (resolution === 'keep-both') {
+      const copyId = uuidv4();
+      copiedNoteIds.set(incoming.id, copyId);
+      result.notes.push({ ...incoming, id: copyId, title: `${incoming.title} (imported)` });
+    } else if (resolution === 'overwrite') {
+      snapshots.push(existing);
+      result.notes.push(incoming);
+      importedNoteIds.add(incoming.id);
+    } else {
+      const { note, replaced } = mergeNotes(existing, incoming);
+      snapshots.push({ ...note, content: replaced.content, title: replaced.title });
+      result.notes.push(note);
+      importedNoteIds.add(incoming.id);
+    }
+  });
+
+  const existingFolderIds = new Set(existingFolders.map(f => f.id));
+  result.folders = archive.folders.filter(f => !existingFolderIds.has(f.id));
+
+  const threads: ChatThread[] = [];
+  const media: MediaItem[] = [];
+  const copiedMediaIds = new Map<string, string>();
+  archive.chatThreads.forEach(t => {
+    if (importedNoteIds.has(t.noteId)) threads.push(t);
+    const copyId = copiedNoteIds.get(t.noteId);
+    if (copyId) threads.push({ ...t, id: uuidv4(), noteId: copyId });
+  });
+  archive.media.forEach(m => {
+    const copyId = copiedNoteIds.get(m.noteId);
+    if (!importedNoteIds.has(m.noteId) && !copyId) return;
+    const item: MediaItem = { ...m, data: base64ToBlob(m.data, m.mimeType) };
+    if (importedNoteIds.has(m.noteId)) media.push(item);
+    if (!copyId) return;
+    const mediaId = uuidv4();
+    copiedMediaIds.set(m.id, mediaId);
+    media.push({ ...item, id: mediaId, noteId: copyId });
+  });
+
+  const quizzes: Quiz[] = [];
+  archive.quizzes.forEach(q => {
+    if (importedNoteIds.has(q.noteId)) quizzes.push(q);
+    const copyId = copiedNoteIds.get(q.noteId);
+    if (copyId) quizzes.push({ ...q, id: uuidv4(), noteId: copyId });
+  });
+
+  const flashcards: Flashcard[] = [];
+  archive.flashcards.forEach(c => {
+    if (importedNoteIds.has(c.noteId)) flashcards.push(c);
+    const copyId = copiedNoteIds.get(c.noteId);
+    if (copyId) flashcards.push({ ...c, id: uuidv4(), noteId: copyId });
+  });
+
+  const translations: NoteTranslation[] = [];
+  archive.translations.forEach(t => {
+    if (importedNoteIds.has(t.noteId)) translations.push(t);
+    const copyId = copiedNoteIds.get(t.noteId);
+    if (copyId) translations.push({ ...t, id: copyId, noteId: copyId });
+  });
+
+  const lectures: Lecture[] = [];
+  archive.lectures.forEach(l => {
+    if (importedNoteIds.has(l.noteId)) lectures.push(l);
+    const copyId = copiedNoteIds.get(l.noteId);
+    if (copyId) lectures.push({
+      ...l,
+      id: uuidv4(),
+      noteId: copyId,
+      segments: l.segments.map(s => ({ ...s, mediaId: copiedMediaIds.get(s.mediaId) || s.mediaId })),
+    });
+  });
+
+  // Papers don't belong to a note; only ones not already here are added
+  const existingPaperIds = new Set(existingPapers.map(p => p.id));
+  const papers = archive.papers.filter(p => !existingPaperIds.has(p.id));
+
+  // Grading sessions don't belong to a note either. One that was marked further on either side is
+  // kept both ways, since scores are never merged, and the copy takes its scripts along.
+  const existingSessionsById = new Map(existingSessions.map(s => [s.id, s]));
+  const existingScriptIds = new Set(existingScripts.map(s => s.id));
+  const sessions: GradingSession[] = [];
+  const copiedSessionIds = new Map<string, string>();
+  archive.gradingSessions.forEach(session => {
+    const existing = existingSessionsById.get(session.id);
+    if (!existing) {
+      sessions.push(session);
+    } else if (existing.updatedAt !== session.updatedAt) {
+      const copyId = uuidv4();
+      copiedSessionIds.set(session.id, copyId);
+      sessions.push({ ...session, id: copyId, title: `${session.title} (imported)` });
+    }
+  });
+
+  const scripts: AnswerScript[] = [];
+  archive.answerScripts.forEach(s => {
+    const copyId = copiedSessionIds.get(s.sessionId);
+    if (!copyId && existingScriptIds.has(s.id)) return;
+    const script: AnswerScript = { ...s, photos: s.photos.map(p => base64ToBlob(p.data, p.mimeType)) };
+    scripts.push(copyId ? { ...script, id: uuidv4(), sessionId: copyId } : script);
+  });
+
+  for (const snapshot of snapshots) await saveSnapshot(snapshot, 'import');
+  await putChatThreads(threads);
+  await putMediaItems(media);
+  await putQuizzes(quizzes);
+  await putFlashcards(flashcards);
+  await putTranslations(translations);
+  await putLectures(lectures);
+  await putPapers(papers);
+  await putGradingSessions(sessions);
+  await putAnswerScripts(scripts);
+  result.flashcards = flashcards;
+
+  return result;
+};
@@ -0,0 +1,143 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Schema, Type } from "@google/genai";
+import { NoteTranslation, ParallelParagraph } from "../types";
+import { SYSTEM_INSTRUCTION_TRANSLATE } from "../constants";
+import { generateJson } from "./ai";
+import { diffItems } from "./diff";
+import { isRecord } from "./guards";
+import { isMostlyBangla } from "./rewrite";
+
+export type TranslationLanguage = NoteTranslation['targetLanguage'];
+
+export const LANGUAGE_NAMES: Record<TranslationLanguage, string> = { en: 'English', bn: 'বাংলা' };
+
+export const otherLanguage = (language: TranslationLanguage): TranslationLanguage => language === 'en' ? 'bn' : 'en';
+
+const MAX_PARAGRAPHS_PER_REQUEST = 20;
+
+const TRANSLATION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    translations: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ['translations'],
+};
+
+// Paragraphs
+export interface SourceParagraph {
+  text: string;
+  start: number; // Offsets in the note, so an edit to one paragraph can be written back in place
+  end: number;
+}
+
+// Blocks of text separated by blank lines; a fenced code block stays one paragraph even if it contains blank lines
+export const splitParagraphs = (content: string): SourceParagraph[] => {
+  const paragraphs: SourceParagraph[] = [];
+  let start = -1;
+  let end = 0;
+  let offset = 0;
+  let inFence = false;
+
+  content.split('\n').forEach(line => {
+    const lineStart = offset;
+    offset += line.length + 1;
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    if (!line.trim() && !inFence) {
+      if (start >= 0) paragraphs.push({ text: content.slice(start, end), start, end });
+      start = -1;
+      return;
+    }
+    if (start < 0) start = lineStart;
+    end = lineStart + line.length;
+  });
+  if (start >= 0) paragraphs.push({ text: content.slice(start, end), start, end });
+  return paragraphs;
+};
+
+// Code, display math and lines without any words are copied across unchanged
+export const needsTranslation = (source: string) =>
+  !/^\s*(```|~~~|\$\$)/.test(source) && /\p{L}/u.test(source);
+
+export const needsRetranslation = (p: ParallelParagraph) =>
+  !p.locked && needsTranslation(p.source) && p.translatedFrom !== p.source;
+
+export const createParallelParagraph = (source: string): ParallelParagraph => ({
+  id: uuidv4(),
+  source,
+  translation: '',
+  translatedFrom: null,
+  locked: false,
+});
+
+export const createNoteTranslation = (noteId: string, content: string): NoteTranslation => ({
+  id: noteId,
+  noteId,
+  targetLanguage: isMostlyBangla(content) ? 'en' : 'bn',
+  paragraphs: [],
+  updatedAt: Date.now(),
+});
+
+/**
+ * Lines the previous pairs up with the note's current paragraphs. Unchanged paragraphs keep their pair;
+ * within a changed stretch, edited paragraphs take over the pairs they replaced in order, keeping the old
+ * translation until a new one arrives (or for good, if locked). Extra paragraphs start empty.
+ */
+export const alignParagraphs = (sources: string[], previous: ParallelParagraph[]): ParallelParagraph[] => {
+  const result: ParallelParagraph[] = [];
+  let oldIndex = 0;
+  let removed: ParallelParagraph[] = [];
+  let added: string[] = [];
+
+  const flush = () => {
+    added.forEach((source, i) => {
+      const replaced = removed[i];
+      result.push(replaced ? { ...replaced, source } : createParallelParagraph(source));
+    });
+    removed = [];
+    added = [];
+  };
+
+  diffItems(previous.map(p => p.source), sources).forEach(({ op, text }) => {
+    if (op === 'equal') {
+      flush();
+      result.push(previous[oldIndex++]);
+    } else if (op === 'delete') {
+      removed.push(previous[oldIndex++]);
+    } else {
+      added.push(text);
+    }
+  });
+  flush();
+  return result;
+};
+
+export const sameSources = (pairs: ParallelParagraph[], paragraphs: SourceParagraph[]) =>
+  pairs.length === paragraphs.length && pairs.every((p, i) => p.source === paragraphs[i].text);
+
+// Translating
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(t => typeof t === 'string');
+
+export const translateParagraphs = async (
+  sources: string[],
+  targetLanguage: TranslationLanguage,
+  signal?: AbortSignal
+): Promise<string[]> => {
+  const results: string[] = [];
+  for (let i = 0; i < sources.length; i += MAX_PARAGRAPHS_PER_REQUEST) {
+    const batch = sources.slice(i, i + MAX_PARAGRAPHS_PER_REQUEST);
+    const target = targetLanguage === 'bn' ? 'natural, fluent Bangla' : 'clear English';
+    const prompt = `Translate each paragraph in this JSON array into ${target}. ` +
+      `Return exactly ${batch.length} translations, in the same order.\n\n${JSON.stringify(batch)}`;
+
+    const data = await generateJson(prompt, TRANSLATION_SCHEMA, SYSTEM_INSTRUCTION_TRANSLATE, signal);
+    const translations = isRecord(data) ? data.translations : undefined;
+    if (!isStringList(translations) || translations.length !== batch.length) {
+      throw new Error("The translation did not match the paragraphs that were sent.");
+    }
+    results.push(...translations.map(t => t.trim()));
+  }
+  return results;
+};
+
+export const handoutTitle = (content: string) =>
+  content.split('\n').find(line => line.trim())?.replace(/^#+\s*/, '').trim() || 'Untitled Note';
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { CONTEXT_CHUNK_CHARS, CONTEXT_NOTE_BUDGET_CHARS } from '../constants';
+import { chunkNote, excerptNote } from './chatContext';
+
+const sentence = (i: number) => `Sentence ${i} is about the water cycle and how rain forms over the sea.`;
+const longParagraph = Array.from({ length: 200 }, (_, i) => sentence(i)).join(' ');
+
+describe('chunkNote', () => {
+  it('splits a paragraph longer than the chunk limit between sentences', () => {
+    const chunks = chunkNote(longParagraph);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(c => {
+      expect(c.end - c.start).toBeLessThanOrEqual(CONTEXT_CHUNK_CHARS);
+      expect(longParagraph.slice(c.start, c.end)).toMatch(/\.$/);
+    });
+  });
+
+  it('keeps a heading with the section under it', () => {
+    const chunks = chunkNote('# Rain\n\nDrops form around dust.\n\n# Snow\n\nCrystals grow in cold air.');
+
+    expect(chunks.map(c => c.heading)).toEqual(['Rain', 'Snow']);
+  });
+});
+
+describe('excerptNote', () => {
+  it('sends part of a long single-paragraph note instead of nothing', () => {
+    const excerpt = excerptNote(longParagraph, 'sentence 150');
+
+    expect(longParagraph.length).toBeGreaterThan(CONTEXT_NOTE_BUDGET_CHARS);
+    expect(excerpt.sent).toBeGreaterThan(0);
+    expect(excerpt.text).toContain(sentence(150));
+    expect(excerpt.text.length).toBeLessThanOrEqual(CONTEXT_NOTE_BUDGET_CHARS + 100);
+  });
+
+  it('sends a short note whole', () => {
+    expect(excerptNote('Evaporation, then condensation.', 'rain').text).toBe('Evaporation, then condensation.');
+  });
+});
@@ -0,0 +1,217 @@
+import { ChatContextStats, ChatMessage, ChatThread } from "../types";
+import {
+  CONTEXT_CHUNK_CHARS,
+  CONTEXT_MESSAGE_CHARS,
+  CONTEXT_NOTE_BUDGET_CHARS,
+  CONTEXT_RECENT_MESSAGES,
+  CONTEXT_SUMMARY_BATCH,
+  SYSTEM_INSTRUCTION_CHAT_SUMMARY
+} from "../constants";
+import { ChatHistory, generateText } from "./ai";
+import { splitParagraphs } from "./bilingual";
+import { tokenize } from "./search";
+
+export interface NoteChunk {
+  heading: string; // Nearest heading above, without the #s
+  start: number;
+  end: number;
+}
+
+// Part of the note picked for a question, in note order
+export interface NoteExcerpt {
+  text: string;
+  sent: number;
+  total: number;
+}
+
+type ChatSummary = NonNullable<ChatThread['summary']>;
+
+const HEADING_REGEX = /^#{1,6}\s+(.*)/;
+
+// Bangla takes roughly twice as many tokens per character as English
+export const estimateTokens = (text: string) => {
+  const bangla = (text.match(/[\u0980-\u09FF]/g) || []).length;
+  return Math.ceil((text.length - bangla) / 4 + bangla / 2);
+};
+
+const clip = (text: string, max: number) => text.length > max ? `${text.slice(0, max)}… [cut short]` : text;
+
+const historyText = (message: ChatMessage) => message.historyText ?? message.text;
+
+// Splits a paragraph longer than CONTEXT_CHUNK_CHARS at the last sentence end before the limit, or the last
+// space when a sentence runs on past it
+const splitLongParagraph = (content: string, start: number, end: number) => {
+  const pieces: { text: string; start: number; end: number }[] = [];
+  while (end - start > CONTEXT_CHUNK_CHARS) {
+    const window = content.slice(start, start + CONTEXT_CHUNK_CHARS);
+    const sentenceEnd = Math.max(...[...window.matchAll(/[.!?।]\s/g)].map(m => m.index! + 1), 0);
+    const cut = sentenceEnd || window.lastIndexOf(' ') + 1 || CONTEXT_CHUNK_CHARS;
+    pieces.push({ text: content.slice(start, start + cut), start, end: start + cut });
+    start += cut;
+    while (start < end && /\s/.test(content[start])) start++;
+  }
+  if (end > start) pieces.push({ text: content.slice(start, end), start, end });
+  return pieces;
+};
+
+/**
+ * Cuts a note into sections at its headings, and sections longer than CONTEXT_CHUNK_CHARS into runs of
+ * whole paragraphs. Paragraphs longer than that are split between sentences first.
+ */
+export const chunkNote = (content: string): NoteChunk[] => {
+  const chunks: NoteChunk[] = [];
+  let heading = '';
+  let current: NoteChunk | null = null;
+
+  let headingOnly = false; // A heading always keeps the paragraph after it
+  splitParagraphs(content).flatMap(p => splitLongParagraph(content, p.start, p.end)).forEach(p => {
+    const headingMatch = HEADING_REGEX.exec(p.text);
+    if (headingMatch) heading = headingMatch[1].trim();
+    if (current && !headingMatch && (headingOnly || p.end - current.start <= CONTEXT_CHUNK_CHARS)) {
+      current.end = p.end;
+      headingOnly = false;
+      return;
+    }
+    current = { heading, start: p.start, end: p.end };
+    headingOnly = !!headingMatch && !p.text.includes('\n');
+    chunks.push(current);
+  });
+  return chunks;
+};
+
+// Terms rarer across the note count for more; ones in most sections, like "the" or the note's own topic, don't count
+const scoreChunks = (content: string, chunks: NoteChunk[], query: string) => {
+  const queryTerms = new Set(tokenize(query).map(t => t.term).filter(term => term.length > 1));
+  const chunkTerms = chunks.map(chunk => {
+    const counts = new Map<string, number>();
+    tokenize(`${chunk.heading} ${content.slice(chunk.start, chunk.end)}`).forEach(({ term }) => {
+      if (queryTerms.has(term)) counts.set(term, (counts.get(term) || 0) + 1);
+    });
+    return counts;
+  });
+  const idf = new Map([...queryTerms].map(term => {
+    const df = chunkTerms.filter(counts => counts.has(term)).length;
+    return [term, df > chunks.length / 2 ? 0 : Math.log(1 + chunks.length / Math.max(df, 1))];
+  }));
+  return chunkTerms.map(counts =>
+    [...counts].reduce((score, [term, tf]) => score + idf.get(term)! * (1 + Math.log(tf)), 0)
+  );
+};
+
+/**
+ * Picks the sections of a long note that matter for a question, up to CONTEXT_NOTE_BUDGET_CHARS.
+ * The section around the caret always goes in, since that's usually what the question is about.
+ * When nothing matches (e.g. "summarize this"), the note is sent from the top.
+ */
+export const excerptNote = (content: string, query: string, focus?: number): NoteExcerpt => {
+  const chunks = chunkNote(content);
+  if (content.length <= CONTEXT_NOTE_BUDGET_CHARS) return { text: content, sent: chunks.length, total: chunks.length };
+
+  const scores = scoreChunks(content, chunks, query);
+  const focused = focus === undefined ? -1 : chunks.findIndex(c => focus >= c.start && focus <= c.end);
+  const matched = chunks.map((_, i) => i).filter(i => scores[i] > 0).sort((a, b) => scores[b] - scores[a]);
+  const ranked = matched.length > 0 ? matched : chunks.map((_, i) => i);
+  const order = focused === -1 ? ranked : [focused, ...ranked.filter(i => i !== focused)];
+
+  const picked = new Set<number>();
+  let used = 0;
+  order.forEach(i => {
+    const length = chunks[i].end - chunks[i].start;
+    if (used + length > CONTEXT_NOTE_BUDGET_CHARS) return;
+    picked.add(i);
+    used += length;
+  });
+
+  // Sections are kept in note order, with a marker where something was left out. The second half of a
+  // long section is labelled with its heading when the first half isn't there to show it.
+  const parts: string[] = [];
+  chunks.forEach((chunk, i) => {
+    const text = content.slice(chunk.start, chunk.end);
+    if (picked.has(i)) {
+      const needsLabel = chunk.heading && !HEADING_REGEX.test(text) && !picked.has(i - 1);
+      parts.push(needsLabel ? `(${chunk.heading}, continued)\n${text}` : text);
+    } else if (parts[parts.length - 1] !== '[…]') {
+      parts.push('[…]');
+    }
+  });
+  const skippedHeadings = [...new Set(chunks.filter((c, i) => !picked.has(i) && c.heading).map(c => c.heading))];
+  const outline = skippedHeadings.length > 0 ? `\n\nSections not included: ${skippedHeadings.join('; ')}` : '';
+  return { text: parts.join('\n\n') + outline, sent: picked.size, total: chunks.length };
+};
+
+/**
+ * Splits earlier messages into the ones sent word for word and the ones to fold into the summary.
+ * Older messages wait until CONTEXT_SUMMARY_BATCH have built up, so the summary isn't redone every turn.
+ */
+export const splitHistory = (messages: ChatMessage[], summary?: ChatSummary) => {
+  const covered = summary ? messages.findIndex(m => m.id === summary.throughId) + 1 : 0;
+  const validSummary = covered > 0 ? summary! : null;
+  let recentStart = Math.max(covered, messages.length - CONTEXT_RECENT_MESSAGES);
+  // Chat history has to open with a question
+  while (recentStart < messages.length && messages[recentStart].role !== 'user') recentStart++;
+  const older = messages.slice(covered, recentStart);
+  return older.length < CONTEXT_SUMMARY_BATCH
+    ? { summary: validSummary, toSummarize: [], recent: messages.slice(covered) }
+    : { summary: validSummary, toSummarize: older, recent: messages.slice(recentStart) };
+};
+
+export const summarizeMessages = async (
+  previous: ChatSummary | null,
+  messages: ChatMessage[],
+  signal?: AbortSignal
+): Promise<ChatSummary> => {
+  const transcript = messages
+    .map(m => `${m.role === 'user' ? 'Teacher' : 'Assistant'}: ${clip(historyText(m), CONTEXT_MESSAGE_CHARS)}`)
+    .join('\n\n');
+  const prompt = previous
+    ? `Summary of the chat so far:\n${previous.text}\n\nAdd these later messages to it:\n\n${transcript}`
+    : `Summarize this chat:\n\n${transcript}`;
+  const text = (await generateText(prompt, SYSTEM_INSTRUCTION_CHAT_SUMMARY, signal)).trim();
+  return { text, throughId: messages[messages.length - 1].id, messageCount: (previous?.messageCount || 0) + messages.length };
+};
+
+/**
+ * Puts together what is sent for one question: the summary of older messages and the relevant part of the
+ * note go into the question itself, once, and recent messages go in as history.
+ */
+export const buildChatRequest = (options: {
+  question: string;
+  note: string | null; // null to leave the note out
+  focus?: number; // Caret offset in the note
+  summary: ChatSummary | null;
+  recent: ChatMessage[];
+  trimmed?: number; // Older messages dropped instead of summarized
+  systemInstruction: string;
+}): { prompt: string; history: ChatHistory; stats: ChatContextStats } => {
+  const { question, note, focus, summary, recent, trimmed = 0, systemInstruction } = options;
+  // Follow-ups like "explain that again" borrow the keywords of the previous question
+  const lastQuestion = [...recent].reverse().find(m => m.role === 'user');
+  const lastQuestionText = lastQuestion ? historyText(lastQuestion) : '';
+  const excerpt = note ? excerptNote(note, `${question} ${clip(lastQuestionText, 500)}`, focus) : null;
+
+  const sections: string[] = [];
+  if (summary) sections.push(`Summary of our earlier conversation:\n${summary.text}`);
+  if (excerpt) {
+    sections.push(excerpt.sent < excerpt.total
+      ? `Context from current note (the ${excerpt.sent} of ${excerpt.total} sections most relevant to the question):\n${excerpt.text}`
+      : `Context from current note:\n${excerpt.text}`);
+  }
+  const prompt = sections.length > 0 ? `\n\n${sections.join('\n\n')}\n\nUser Question: ${question}` : question;
+
+  const history = recent.map(m => ({
+    role: m.role,
+    parts: [{ text: clip(historyText(m), CONTEXT_MESSAGE_CHARS) }]
+  }));
+
+  return {
+    prompt,
+    history,
+    stats: {
+      tokens: estimateTokens(systemInstruction + prompt + history.map(h => h.parts[0].text).join('')),
+      noteSections: excerpt ? { sent: excerpt.sent, total: excerpt.total } : null,
+      recentMessages: recent.length,
+      summarizedMessages: summary?.messageCount || 0,
+      trimmedMessages: trimmed,
+    },
+  };
+};
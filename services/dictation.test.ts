@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { applyUtterance, parseUtterance } from './dictation';
+
+const dictate = (content: string, transcript: string, language: 'en-US' | 'bn-BD' = 'en-US') =>
+  applyUtterance(content, content.length, parseUtterance(transcript), language).content;
+
+describe('parseUtterance', () => {
+  it('keeps "period" as a word in the middle of a sentence', () => {
+    expect(parseUtterance('the Mughal period was long')).toEqual([{ text: 'the Mughal period was long' }]);
+  });
+
+  it('treats "period" as a full stop when it is the last word', () => {
+    expect(parseUtterance('the Mughal period was long period')).toEqual([
+      { text: 'the Mughal period was long' },
+      { command: 'fullStop' },
+    ]);
+  });
+
+  it('reads inline commands anywhere', () => {
+    expect(parseUtterance('rain comma snow new line hail')).toEqual([
+      { text: 'rain' },
+      { command: 'comma' },
+      { text: 'snow' },
+      { command: 'newLine' },
+      { text: 'hail' },
+    ]);
+  });
+
+  it('reads heading and bullet only at the start of a line', () => {
+    expect(parseUtterance('heading the water cycle')).toEqual([{ command: 'heading' }, { text: 'the water cycle' }]);
+    expect(parseUtterance('read the heading')).toEqual([{ text: 'read the heading' }]);
+  });
+
+  it('reads undo only on its own', () => {
+    expect(parseUtterance('undo that')).toEqual([{ command: 'undo' }]);
+    expect(parseUtterance('undo the knot')).toEqual([{ text: 'undo the knot' }]);
+  });
+
+  it('understands Bangla commands', () => {
+    expect(parseUtterance('বৃষ্টি হয় দাঁড়ি')).toEqual([{ text: 'বৃষ্টি হয়' }, { command: 'fullStop' }]);
+  });
+});
+
+describe('applyUtterance', () => {
+  it('punctuates, spaces and capitalizes English', () => {
+    expect(dictate('Clouds form.', 'rain falls full stop')).toBe('Clouds form. Rain falls.');
+  });
+
+  it('uses the dari for a Bangla full stop', () => {
+    expect(dictate('', 'বৃষ্টি হয় দাঁড়ি', 'bn-BD')).toBe('বৃষ্টি হয়।');
+  });
+
+  it('starts a bullet on a new line', () => {
+    expect(dictate('Kinds of rain', 'bullet drizzle')).toBe('Kinds of rain\n- Drizzle');
+  });
+});
@@ -0,0 +1,155 @@
+import { DICTATION_LANGUAGE_KEY } from "../constants";
+
+export type RecognitionLanguage = 'bn-BD' | 'en-US';
+export type DictationLanguage = RecognitionLanguage | 'auto';
+
+export const DICTATION_LANGUAGES: { value: DictationLanguage; label: string }[] = [
+  { value: 'bn-BD', label: 'বাংলা' },
+  { value: 'en-US', label: 'English' },
+  { value: 'auto', label: 'Auto ⇄' },
+];
+
+export const loadDictationLanguage = (): DictationLanguage => {
+  const saved = localStorage.getItem(DICTATION_LANGUAGE_KEY);
+  return DICTATION_LANGUAGES.some(l => l.value === saved) ? saved as DictationLanguage : 'en-US';
+};
+
+export const saveDictationLanguage = (language: DictationLanguage) => {
+  localStorage.setItem(DICTATION_LANGUAGE_KEY, language);
+};
+
+export interface DictationSession {
+  recognition: any; // SpeechRecognition
+  language: RecognitionLanguage;
+  heard: boolean; // Whether the last utterance was understood, which keeps auto mode on this language
+}
+
+export const otherRecognitionLanguage = (language: RecognitionLanguage): RecognitionLanguage =>
+  language === 'bn-BD' ? 'en-US' : 'bn-BD';
+
+// Voice commands
+export type DictationCommand = 'newLine' | 'newParagraph' | 'heading' | 'bullet' | 'undo' | 'fullStop' | 'comma' | 'questionMark';
+
+export type DictationPart = { text: string } | { command: DictationCommand };
+
+const COMMAND_PHRASES: Record<DictationCommand, string[]> = {
+  newLine: ['new line', 'next line', 'নতুন লাইন', 'পরের লাইন'],
+  newParagraph: ['new paragraph', 'নতুন অনুচ্ছেদ', 'নতুন প্যারা'],
+  heading: ['heading', 'শিরোনাম', 'হেডিং'],
+  bullet: ['bullet point', 'bullet', 'বুলেট'],
+  undo: ['undo that', 'undo', 'আগেরটা মুছে দাও', 'আগেরটা মুছো', 'আনডু'],
+  fullStop: ['full stop', 'দাঁড়ি', 'দাড়ি'],
+  comma: ['comma', 'কমা'],
+  questionMark: ['question mark', 'প্রশ্নবোধক চিহ্ন', 'প্রশ্নচিহ্ন'],
+};
+
+// Heading and bullet format what follows them, so they only count at the start of an utterance or
+// a new line; undo only counts on its own. The rest can be said anywhere.
+const LEADING_COMMANDS: DictationCommand[] = ['heading', 'bullet'];
+const INLINE_COMMANDS: DictationCommand[] = ['newLine', 'newParagraph', 'fullStop', 'comma', 'questionMark'];
+
+const normalize = (text: string) => text.normalize('NFC').toLowerCase();
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const phrasePattern = (commands: DictationCommand[]) => commands
+  .flatMap(command => COMMAND_PHRASES[command])
+  .map(phrase => normalize(phrase).split(' ').map(escapeRegex).join('\\s+'))
+  .join('|');
+
+// \b only knows ASCII letters, so word edges are spelled out for Bangla
+const WORD_CHAR = '[\\p{L}\\p{M}\\p{N}]';
+const LEADING_REGEX = new RegExp(`^(${phrasePattern(LEADING_COMMANDS)})(?!${WORD_CHAR})[\\s,:.\\u0964]*`, 'u');
+const INLINE_REGEX = new RegExp(`(?<!${WORD_CHAR})(${phrasePattern(INLINE_COMMANDS)})(?!${WORD_CHAR})`, 'gu');
+const UNDO_REGEX = new RegExp(`^(${phrasePattern(['undo'])})[\\s.!\\u0964]*$`, 'u');
+// "Period" is also an ordinary word ("the Mughal period was…"), so it only counts as the last word said
+const TRAILING_PERIOD_REGEX = new RegExp(`(?<!${WORD_CHAR})period[\\s.]*$`, 'u');
+
+const commandForPhrase = (phrase: string, commands: DictationCommand[]) => {
+  const spoken = phrase.replace(/\s+/g, ' ');
+  return commands.find(command => COMMAND_PHRASES[command].some(p => normalize(p) === spoken))!;
+};
+
+// Splits a final transcript into text to insert and the commands spoken between it
+export const parseUtterance = (transcript: string): DictationPart[] => {
+  let text = transcript.trim().normalize('NFC');
+  if (UNDO_REGEX.test(text.toLowerCase())) return [{ command: 'undo' }];
+  const trailingPeriod = TRAILING_PERIOD_REGEX.exec(text.toLowerCase());
+  if (trailingPeriod) text = text.slice(0, trailingPeriod.index);
+
+  const parts: DictationPart[] = [];
+  const pushText = (segment: string) => {
+    let rest = segment.trim();
+    const previous = parts[parts.length - 1];
+    const lineStart = !previous || ('command' in previous && (previous.command === 'newLine' || previous.command === 'newParagraph'));
+    const leading = lineStart ? LEADING_REGEX.exec(rest.toLowerCase()) : null;
+    if (leading) {
+      parts.push({ command: commandForPhrase(leading[1], LEADING_COMMANDS) });
+      rest = rest.slice(leading[0].length);
+    }
+    if (rest) parts.push({ text: rest });
+  };
+
+  let last = 0;
+  for (const match of text.toLowerCase().matchAll(INLINE_REGEX)) {
+    pushText(text.slice(last, match.index));
+    parts.push({ command: commandForPhrase(match[1], INLINE_COMMANDS) });
+    last = match.index! + match[0].length;
+  }
+  pushText(text.slice(last));
+  if (trailingPeriod) parts.push({ command: 'fullStop' });
+  return parts;
+};
+
+// Applying
+export interface DictationEdit {
+  content: string;
+  caret: number;
+}
+
+const PUNCTUATION: Partial<Record<DictationCommand, Record<RecognitionLanguage, string>>> = {
+  fullStop: { 'en-US': '.', 'bn-BD': '।' },
+  comma: { 'en-US': ',', 'bn-BD': ',' },
+  questionMark: { 'en-US': '?', 'bn-BD': '?' },
+};
+
+/**
+ * Inserts an utterance at the caret, running its commands in order. Words are spaced from the text
+ * around them, and English sentences get a capital letter.
+ */
+export const applyUtterance = (
+  content: string,
+  caret: number,
+  parts: DictationPart[],
+  language: RecognitionLanguage
+): DictationEdit => {
+  let before = content.slice(0, caret);
+  const after = content.slice(caret);
+  const atLineStart = () => before === '' || before.endsWith('\n');
+
+  parts.forEach(part => {
+    if ('text' in part) {
+      let text = part.text;
+      if (language === 'en-US' && (/[.?!]\s*$/.test(before) || /(^|\n)(#+ |- )?$/.test(before))) {
+        text = text.charAt(0).toUpperCase() + text.slice(1);
+      }
+      before += (/\S$/.test(before) ? ' ' : '') + text;
+      return;
+    }
+    const mark = PUNCTUATION[part.command];
+    if (mark) {
+      before = before.replace(/[ \t]+$/, '') + mark[language];
+    } else if (part.command === 'newLine') {
+      before = before.replace(/[ \t]+$/, '') + '\n';
+    } else if (part.command === 'newParagraph') {
+      before = before.replace(/[ \t]+$/, '') + (before.endsWith('\n') ? '\n' : '\n\n');
+    } else if (part.command === 'heading' || part.command === 'bullet') {
+      if (!atLineStart()) before = before.replace(/[ \t]+$/, '') + '\n';
+      before += part.command === 'heading' ? '## ' : '- ';
+    }
+  });
+
+  // Keep the next word from running into the dictated text
+  const separator = /\S$/.test(before) && /^[\p{L}\p{N}]/u.test(after) ? ' ' : '';
+  return { content: before + separator + after, caret: before.length };
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { countChanges, diffLines } from './diff';
+
+describe('diffLines', () => {
+  it('marks lines that were added and removed', () => {
+    const diff = diffLines('rain\nsnow\nhail', 'rain\nsleet\nhail\nfog');
+
+    expect(diff).toEqual([
+      { op: 'equal', text: 'rain' },
+      { op: 'delete', text: 'snow' },
+      { op: 'insert', text: 'sleet' },
+      { op: 'equal', text: 'hail' },
+      { op: 'insert', text: 'fog' },
+    ]);
+    expect(countChanges(diff)).toEqual({ added: 2, removed: 1 });
+  });
+
+  it('finds the longest run of unchanged lines', () => {
+    const diff = diffLines('a\nb\nc\nd', 'b\nc\nd\na');
+
+    expect(diff.filter(d => d.op === 'equal').map(d => d.text)).toEqual(['b', 'c', 'd']);
+  });
+
+  it('reports no changes for the same text', () => {
+    expect(countChanges(diffLines('same\ntext', 'same\ntext'))).toEqual({ added: 0, removed: 0 });
+  });
+});
@@ -0,0 +1,57 @@
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffLine {
+  op: DiffOp;
+  text: string;
+}
+
+// Diff of two sequences of strings (LCS). Common leading/trailing items are trimmed first so typical edits stay cheap.
+export const diffItems = (a: string[], b: string[]): DiffLine[] => {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  // lcs[i][j] = length of the LCS of midA[i..] and midB[j..]
+  const lcs: Uint32Array[] = Array.from({ length: midA.length + 1 }, () => new Uint32Array(midB.length + 1));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = a.slice(0, prefix).map(text => ({ op: 'equal', text }));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      result.push({ op: 'equal', text: midA[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ op: 'delete', text: midA[i++] });
+    } else {
+      result.push({ op: 'insert', text: midB[j++] });
+    }
+  }
+  while (i < midA.length) result.push({ op: 'delete', text: midA[i++] });
+  while (j < midB.length) result.push({ op: 'insert', text: midB[j++] });
+  a.slice(a.length - suffix).forEach(text => result.push({ op: 'equal', text }));
+
+  return result;
+};
+
+export const diffLines = (before: string, after: string): DiffLine[] =>
+  diffItems(before.split('\n'), after.split('\n'));
+
+export const countChanges = (diff: DiffLine[]) => ({
+  added: diff.filter(d => d.op === 'insert').length,
+  removed: diff.filter(d => d.op === 'delete').length,
+});
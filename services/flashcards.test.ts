@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { Note } from '../types';
+import { createFlashcard, parseCardSyntax, reviewCard, syncNoteCards } from './flashcards';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const note = (content: string): Note =>
+  ({ id: 'note-1', title: 'Rain', content, updatedAt: 0, folderId: null, tags: [], deletedAt: null });
+
+describe('reviewCard', () => {
+  it('spaces reviews out 1, 6, then interval × ease days', () => {
+    let card = createFlashcard('note-1', 'Q', 'A', 'note', 0);
+    card = reviewCard(card, 4, 0);
+    expect(card.interval).toBe(1);
+    card = reviewCard(card, 4, 0);
+    expect(card.interval).toBe(6);
+    card = reviewCard(card, 4, 0);
+    expect(card.interval).toBe(15);
+    expect(card.dueAt).toBe(15 * DAY_MS);
+    expect(card.history).toHaveLength(3);
+  });
+
+  it('starts a failed card over and brings it back at once', () => {
+    const learned = { ...createFlashcard('note-1', 'Q', 'A', 'note', 0), repetitions: 3, interval: 15 };
+    const card = reviewCard(learned, 1, 1000);
+
+    expect(card.repetitions).toBe(0);
+    expect(card.interval).toBe(1);
+    expect(card.dueAt).toBe(1000);
+    expect(card.easeFactor).toBeCloseTo(1.96);
+  });
+
+  it('never lets the ease drop below 1.3', () => {
+    let card = createFlashcard('note-1', 'Q', 'A', 'note', 0);
+    for (let i = 0; i < 10; i++) card = reviewCard(card, 1, 0);
+
+    expect(card.easeFactor).toBe(1.3);
+  });
+});
+
+describe('parseCardSyntax', () => {
+  it('reads "Q:: A" lines outside code blocks', () => {
+    const content = '- What falls? :: Rain\nstd::vector<int> v;\n```\nKey:: value\n```\nWhy?:: Clouds';
+
+    expect(parseCardSyntax(content)).toEqual([
+      { front: 'What falls?', back: 'Rain' },
+      { front: 'Why?', back: 'Clouds' },
+    ]);
+  });
+});
+
+describe('syncNoteCards', () => {
+  it('keeps the schedule when only the answer changes, and drops removed cards', () => {
+    const kept = { ...createFlashcard('note-1', 'What falls?', 'Rain', 'note', 0), repetitions: 2 };
+    const removed = createFlashcard('note-1', 'Gone?', 'Yes', 'note', 0);
+    const ai = createFlashcard('note-1', 'From AI?', 'Yes', 'ai', 0);
+
+    const { upserts, deletes } = syncNoteCards(note('What falls?:: Rain and snow\nNew?:: Card'), [kept, removed, ai]);
+
+    expect(upserts.map(c => [c.front, c.back, c.repetitions])).toEqual([
+      ['What falls?', 'Rain and snow', 2],
+      ['New?', 'Card', 0],
+    ]);
+    expect(deletes).toEqual([removed.id]);
+  });
+});
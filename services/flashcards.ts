@@ -0,0 +1,159 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Schema, Type } from "@google/genai";
+import { Note, Flashcard } from "../types";
+import { SYSTEM_INSTRUCTION_FLASHCARDS } from "../constants";
+import { generateJson } from "./ai";
+import { isRecord, isText } from "./guards";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// "Question:: Answer" on one line, optionally as a list item. The space after "::" keeps
+// code such as std::vector from turning into cards.
+const CARD_LINE_REGEX = /^\s*(?:[-*+]\s+)?(.+?)\s*::\s+(.+?)\s*$/;
+
+export type ReviewGrade = 1 | 3 | 4 | 5;
+
+export const REVIEW_GRADES: { grade: ReviewGrade; label: string; style: string }[] = [
+  { grade: 1, label: 'Again', style: 'bg-red-500 hover:bg-red-600' },
+  { grade: 3, label: 'Hard', style: 'bg-orange-500 hover:bg-orange-600' },
+  { grade: 4, label: 'Good', style: 'bg-green-600 hover:bg-green-700' },
+  { grade: 5, label: 'Easy', style: 'bg-primary hover:bg-primary/90' },
+];
+
+const FLASHCARD_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    cards: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          front: { type: Type.STRING },
+          back: { type: Type.STRING },
+        },
+        required: ['front', 'back'],
+        propertyOrdering: ['front', 'back'],
+      },
+    },
+  },
+  required: ['cards'],
+};
+
+const cardKey = (front: string) => front.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const createFlashcard = (noteId: string, front: string, back: string, source: Flashcard['source'], now = Date.now()): Flashcard => ({
+  id: uuidv4(),
+  noteId,
+  front,
+  back,
+  source,
+  easeFactor: INITIAL_EASE,
+  interval: 0,
+  repetitions: 0,
+  dueAt: now,
+  history: [],
+  createdAt: now,
+});
+
+// Card lines outside fenced code blocks
+export const parseCardSyntax = (content: string): { front: string; back: string }[] => {
+  const cards: { front: string; back: string }[] = [];
+  let inFence = false;
+  content.split('\n').forEach(line => {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    if (inFence) return;
+    const match = CARD_LINE_REGEX.exec(line);
+    if (match) cards.push({ front: match[1], back: match[2] });
+  });
+  return cards;
+};
+
+/**
+ * Brings a note's "Q:: A" cards in line with its text. Cards are matched by their question,
+ * so fixing a typo in an answer keeps the review schedule. AI-made cards are left alone.
+ */
+export const syncNoteCards = (note: Note, existing: Flashcard[], now = Date.now()) => {
+  const noteCards = existing.filter(c => c.noteId === note.id && c.source === 'note');
+  const byKey = new Map(noteCards.map(c => [cardKey(c.front), c]));
+  const seen = new Set<string>();
+  const upserts: Flashcard[] = [];
+
+  parseCardSyntax(note.content).forEach(({ front, back }) => {
+    const key = cardKey(front);
+    if (seen.has(key)) return;
+    seen.add(key);
+    const card = byKey.get(key);
+    if (!card) upserts.push(createFlashcard(note.id, front, back, 'note', now));
+    else if (card.front !== front || card.back !== back) upserts.push({ ...card, front, back });
+  });
+
+  const deletes = noteCards.filter(c => !seen.has(cardKey(c.front))).map(c => c.id);
+  return { upserts, deletes };
+};
+
+// Scheduling (SM-2)
+export const reviewCard = (card: Flashcard, grade: number, now = Date.now()): Flashcard => {
+  let { easeFactor, interval, repetitions } = card;
+
+  if (grade < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions += 1;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(interval * easeFactor);
+  }
+  easeFactor = Math.max(MIN_EASE, easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+
+  return {
+    ...card,
+    easeFactor,
+    interval,
+    repetitions,
+    // A failed card comes back later in the same session rather than tomorrow
+    dueAt: grade < 3 ? now : now + interval * DAY_MS,
+    history: [...card.history, { reviewedAt: now, grade }],
+  };
+};
+
+export const isDue = (card: Flashcard, now = Date.now()) => card.dueAt <= now;
+
+export const countDueByNote = (cards: Flashcard[], now = Date.now()): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  cards.forEach(card => {
+    if (isDue(card, now)) counts[card.noteId] = (counts[card.noteId] || 0) + 1;
+  });
+  return counts;
+};
+
+// Shown on the grade buttons, e.g. "6d"
+export const formatInterval = (card: Flashcard, grade: number) => {
+  const next = reviewCard(card, grade, 0);
+  return grade < 3 ? '<1d' : next.interval < 31 ? `${next.interval}d` : `${Math.round(next.interval / 30)}mo`;
+};
+
+// AI extraction
+const isCardReply = (value: unknown): value is { front: string; back: string } =>
+  isRecord(value) && isText(value.front) && isText(value.back);
+
+export const extractFlashcards = async (note: Note, existing: Flashcard[], signal?: AbortSignal): Promise<Flashcard[]> => {
+  const prompt = `Turn the key facts, definitions and formulas in this note into flashcards. ` +
+    `Write them in the same language as the note.\n\nNote title: ${note.title}\n\n${note.content}`;
+  const data = await generateJson(prompt, FLASHCARD_SCHEMA, SYSTEM_INSTRUCTION_FLASHCARDS, signal);
+  const cards = isRecord(data) ? data.cards : undefined;
+  if (!Array.isArray(cards)) throw new Error("The reply did not contain any flashcards.");
+
+  // Skip questions the note already has a card for
+  const known = new Set(existing.filter(c => c.noteId === note.id).map(c => cardKey(c.front)));
+  const now = Date.now();
+  return cards
+    .filter(isCardReply)
+    .filter(c => {
+      const key = cardKey(c.front);
+      if (known.has(key)) return false;
+      known.add(key);
+      return true;
+    })
+    .map(c => createFlashcard(note.id, c.front.trim(), c.back.trim(), 'ai', now));
+};
@@ -0,0 +1,62 @@
+import { Folder, Note } from "../types";
+
+export interface FolderNode {
+  folder: Folder;
+  children: FolderNode[];
+}
+
+export const buildFolderTree = (folders: Folder[], parentId: string | null = null): FolderNode[] =>
+  folders
+    .filter(f => f.parentId === parentId)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(folder => ({ folder, children: buildFolderTree(folders, folder.id) }));
+
+// The folder itself plus everything nested below it
+export const getFolderSubtreeIds = (folders: Folder[], folderId: string): Set<string> => {
+  const ids = new Set<string>([folderId]);
+  let added = true;
+  while (added) {
+    added = false;
+    folders.forEach(f => {
+      if (f.parentId && ids.has(f.parentId) && !ids.has(f.id)) {
+        ids.add(f.id);
+        added = true;
+      }
+    });
+  }
+  return ids;
+};
+
+// Moving a folder into itself or one of its descendants would detach the subtree
+export const canMoveFolder = (folders: Folder[], folderId: string, targetParentId: string | null) =>
+  targetParentId === null || !getFolderSubtreeIds(folders, folderId).has(targetParentId);
+
+export const getFolderPath = (folders: Folder[], folderId: string | null): Folder[] => {
+  const path: Folder[] = [];
+  let current = folders.find(f => f.id === folderId);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = folders.find(f => f.id === current!.parentId);
+  }
+  return path;
+};
+
+export const normalizeTag = (tag: string) =>
+  tag.trim().replace(/^#+/, '').replace(/\s+/g, '-').toLowerCase();
+
+export const collectTags = (notes: Note[]): string[] =>
+  Array.from(new Set(notes.flatMap(n => n.tags))).sort((a, b) => a.localeCompare(b));
+
+// Notes in the selected folder (including subfolders) that carry every selected tag
+export const filterNotes = (
+  notes: Note[],
+  folders: Folder[],
+  folderId: string | null,
+  tags: string[]
+): Note[] => {
+  const folderIds = folderId ? getFolderSubtreeIds(folders, folderId) : null;
+  return notes.filter(n =>
+    (!folderIds || (n.folderId !== null && folderIds.has(n.folderId))) &&
+    tags.every(t => n.tags.includes(t))
+  );
+};
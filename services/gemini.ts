@@ -1,73 +1,123 @@
-import { GoogleGenAI, Modality, Part } from "@google/genai";
-import { GEMINI_CHAT_MODEL, GEMINI_TTS_MODEL, SYSTEM_INSTRUCTION_CHAT, TTS_PREAMBLE } from "../constants";
-import { TtsVoice } from "../types";
+import { FinishReason, GenerateContentResponse, GoogleGenAI, Modality, Part } from "@google/genai";
+import { GeminiSettings } from "../types";
+import { TTS_PREAMBLE } from "../constants";
+import { AiProvider, ChatHistory } from "./ai";
+import { cleanSpeechText } from "./audioUtils";
+import { AiError } from "./aiErrors";
+
+interface GeminiProviderOptions extends GeminiSettings {
+  apiKey: string | null;
+  systemInstruction: string;
+}
 
 // Helper to get client
-const getClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) throw new Error("API Key not found in process.env.API_KEY");
+const getClient = (apiKey: string | null) => {
+  if (!apiKey) throw new AiError('missing-key', "No Gemini API key saved in Settings");
   return new GoogleGenAI({ apiKey });
 };
 
-// Chat
-export const sendMessageToGemini = async (
-  history: { role: string; parts: { text?: string; inlineData?: any }[] }[],
-  newMessage: string,
-  image?: string // base64
-): Promise<string> => {
-  try {
-    const ai = getClient();
-    
-    // Convert history to match the API expected format
-    const chat = ai.chats.create({
-      model: GEMINI_CHAT_MODEL,
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION_CHAT,
-      },
-      history: history.map(h => ({
-        role: h.role,
-        parts: h.parts
-      })),
+const createChat = (ai: GoogleGenAI, history: ChatHistory, options: GeminiProviderOptions) =>
+  ai.chats.create({
+    model: options.chatModel,
+    config: {
+      systemInstruction: options.systemInstruction,
+    },
+    history: history.map(h => ({
+      role: h.role,
+      parts: h.parts
+    })),
+  });
+
+// Blocked prompts and replies come back as a normal response with no text
+const checkBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || finishReason === FinishReason.SAFETY || finishReason === FinishReason.PROHIBITED_CONTENT) {
+    throw new AiError('safety', `${blockReason || finishReason}`);
+  }
+  return response;
+};
+
+const buildMessageParts = (newMessage: string, image?: string): Part[] => {
+  const parts: Part[] = [{ text: newMessage }];
+  if (image) {
+    parts.push({
+      inlineData: {
+        mimeType: 'image/jpeg', // Assuming jpeg for simplicity, can detect from base64 header
+        data: image
+      }
     });
+  }
+  return parts;
+};
+
+export const createGeminiProvider = (options: GeminiProviderOptions): AiProvider => ({
+  streamChat: async (history, newMessage, image, onChunk, signal) => {
+    let text = '';
+    try {
+      const ai = getClient(options.apiKey);
+      const chat = createChat(ai, history, options);
 
-    const parts: Part[] = [{ text: newMessage }];
-    if (image) {
-      parts.push({
-        inlineData: {
-          mimeType: 'image/jpeg', // Assuming jpeg for simplicity, can detect from base64 header
-          data: image
+      const stream = await chat.sendMessageStream({
+        message: buildMessageParts(newMessage, image),
+        config: {
+          systemInstruction: options.systemInstruction,
+          abortSignal: signal
         }
       });
+
+      for await (const chunk of stream) {
+        if (signal?.aborted) break;
+        checkBlocked(chunk);
+        text += chunk.text || '';
+        onChunk(text);
+      }
+      return text;
+    } catch (error) {
+      if (signal?.aborted) return text;
+      throw error;
     }
+  },
 
-    // Use message parameter correctly as per guidelines
-    const result = await chat.sendMessage({
-      message: parts
+  generateText: async (prompt, systemInstruction, signal) => {
+    const ai = getClient(options.apiKey);
+    const response = await ai.models.generateContent({
+      model: options.chatModel,
+      contents: [{
+        parts: [{ text: prompt }]
+      }],
+      config: {
+        systemInstruction,
+        abortSignal: signal
+      }
     });
+    return checkBlocked(response).text || "";
+  },
 
-    return result.text || "";
-  } catch (error) {
-    console.error("Gemini Chat Error:", error);
-    throw error;
-  }
-};
-
-// TTS
-export const generateSpeech = async (text: string, voice: TtsVoice): Promise<string> => {
-  try {
-    const ai = getClient();
-    
-    // Clean text: Remove markdown symbols roughly
-    const cleanText = text
-      .replace(/[#*`_~]/g, '') // remove common markdown chars
-      .replace(/\s+/g, ' ') // normalize whitespace
-      .trim();
+  generateJson: async (prompt, schema, systemInstruction, signal, media = []) => {
+    const ai = getClient(options.apiKey);
+    const response = await ai.models.generateContent({
+      model: options.chatModel,
+      contents: [{
+        parts: [{ text: prompt }, ...media.map(inlineData => ({ inlineData }))]
+      }],
+      config: {
+        systemInstruction,
+        responseMimeType: 'application/json',
+        responseSchema: schema,
+        abortSignal: signal
+      }
+    });
+    return JSON.parse(checkBlocked(response).text || 'null');
+  },
 
-    const fullPrompt = `${TTS_PREAMBLE}\n\nText: ${cleanText}`;
+  generateSpeech: async (text, voice, signal) => {
+    const ai = getClient(options.apiKey);
+    const fullPrompt = `${TTS_PREAMBLE}\n\nText: ${cleanSpeechText(text)}`;
 
     // Update contents structure to match array format in guidelines
     const response = await ai.models.generateContent({
-      model: GEMINI_TTS_MODEL,
+      model: options.ttsModel,
       contents: [{
         parts: [{ text: fullPrompt }]
       }],
@@ -77,16 +127,14 @@ export const generateSpeech = async (text: string, voice: TtsVoice): Promise<str
           voiceConfig: {
             prebuiltVoiceConfig: { voiceName: voice }
           }
-        }
+        },
+        abortSignal: signal
       }
     });
 
-    const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!audioData) throw new Error("No audio data returned");
-    
+    const audioData = checkBlocked(response).candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!audioData) throw new AiError('empty-audio', "No audio data returned");
+
     return audioData;
-  } catch (error) {
-    console.error("Gemini TTS Error:", error);
-    throw error;
-  }
-};
\ No newline at end of file
+  },
+});
@@ -0,0 +1,162 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Schema, Type } from "@google/genai";
+import { GradingSession, RubricQuestion, RubricCriterion, AnswerScript, CriterionScore } from "../types";
+import { SYSTEM_INSTRUCTION_GRADING } from "../constants";
+import { generateJson } from "./ai";
+import { blobToBase64 } from "./fileUtils";
+import { isRecord } from "./guards";
+
+const GRADING_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    studentName: { type: Type.STRING, description: 'As written on the script, or empty' },
+    roll: { type: Type.STRING, description: 'As written on the script, or empty' },
+    scores: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          criterionId: { type: Type.STRING },
+          score: { type: Type.NUMBER },
+          justification: { type: Type.STRING },
+        },
+        required: ['criterionId', 'score', 'justification'],
+        propertyOrdering: ['criterionId', 'score', 'justification'],
+      },
+    },
+  },
+  required: ['studentName', 'roll', 'scores'],
+  propertyOrdering: ['studentName', 'roll', 'scores'],
+};
+
+// Creating
+export const createCriterion = (): RubricCriterion => ({ id: uuidv4(), description: '', maxMarks: 1 });
+
+export const createRubricQuestion = (label: string): RubricQuestion => ({
+  id: uuidv4(),
+  label,
+  question: '',
+  modelAnswer: '',
+  criteria: [createCriterion()],
+});
+
+export const createGradingSession = (): GradingSession => ({
+  id: uuidv4(),
+  title: 'Untitled Grading',
+  rubric: [createRubricQuestion('1')],
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+export const createAnswerScript = (sessionId: string, photos: Blob[]): AnswerScript => ({
+  id: uuidv4(),
+  sessionId,
+  studentName: '',
+  roll: '',
+  photos,
+  status: 'pending',
+  scores: [],
+  createdAt: Date.now(),
+});
+
+export const isRubricComplete = (rubric: RubricQuestion[]) =>
+  rubric.length > 0 && rubric.every(q =>
+    q.label.trim() && q.criteria.length > 0 && q.criteria.every(c => c.description.trim() && c.maxMarks > 0)
+  );
+
+// Marks
+export const questionMaxMarks = (q: RubricQuestion) => q.criteria.reduce((sum, c) => sum + c.maxMarks, 0);
+
+export const rubricMaxMarks = (rubric: RubricQuestion[]) => rubric.reduce((sum, q) => sum + questionMaxMarks(q), 0);
+
+export const findScore = (script: AnswerScript, criterionId: string) =>
+  script.scores.find(s => s.criterionId === criterionId);
+
+export const scriptQuestionMarks = (script: AnswerScript, q: RubricQuestion) =>
+  q.criteria.reduce((sum, c) => sum + (findScore(script, c.id)?.score || 0), 0);
+
+export const scriptTotal = (script: AnswerScript, rubric: RubricQuestion[]) =>
+  rubric.reduce((sum, q) => sum + scriptQuestionMarks(script, q), 0);
+
+// Half marks are allowed; nothing goes below zero or above the criterion's maximum
+export const clampScore = (score: number, maxMarks: number) =>
+  Number.isFinite(score) ? Math.min(maxMarks, Math.max(0, Math.round(score * 2) / 2)) : 0;
+
+// AI marking
+const describeRubric = (rubric: RubricQuestion[]) => rubric.map(q => [
+  `Question ${q.label}${q.question.trim() ? `: ${q.question.trim()}` : ''}`,
+  ...(q.modelAnswer.trim() ? [`Model answer: ${q.modelAnswer.trim()}`] : []),
+  ...q.criteria.map(c => `- criterionId "${c.id}" (max ${c.maxMarks}): ${c.description}`),
+].join('\n')).join('\n\n');
+
+const asText = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+const isScoreReply = (value: unknown): value is { criterionId: string; score?: unknown; justification?: unknown } =>
+  isRecord(value) && typeof value.criterionId === 'string';
+
+/**
+ * Marks one script against the rubric. Every criterion gets a score: criteria the model skipped
+ * score 0 with a note, so the teacher can see what to check by hand.
+ */
+export const gradeScript = async (
+  rubric: RubricQuestion[],
+  script: AnswerScript,
+  signal?: AbortSignal
+): Promise<Pick<AnswerScript, 'studentName' | 'roll' | 'scores'>> => {
+  const images = await Promise.all(script.photos.map(async photo => ({
+    mimeType: photo.type || 'image/jpeg',
+    data: await blobToBase64(photo),
+  })));
+  const prompt = `Mark this student's answer script. The ${images.length} photos that follow are its pages, in order. ` +
+    `Read the student's name and roll number if they are written on the script. ` +
+    `Return one score for every criterionId in the rubric.\n\nRubric:\n${describeRubric(rubric)}`;
+
+  const data = await generateJson(prompt, GRADING_SCHEMA, SYSTEM_INSTRUCTION_GRADING, signal, images);
+  const reply = isRecord(data) ? data : {};
+  if (!Array.isArray(reply.scores)) throw new Error("The reply did not contain any scores.");
+
+  const byId = new Map(reply.scores.filter(isScoreReply).map(s => [s.criterionId, s]));
+  const scores = rubric.flatMap(q => q.criteria).map((c): CriterionScore => {
+    const result = byId.get(c.id);
+    const score = result ? clampScore(Number(result.score), c.maxMarks) : 0;
+    return {
+      criterionId: c.id,
+      score,
+      suggestedScore: score,
+      justification: asText(result?.justification) || 'No score was returned for this criterion; please check it by hand.',
+    };
+  });
+
+  return { studentName: asText(reply.studentName), roll: asText(reply.roll), scores };
+};
+
+// Export
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per student, sorted by roll; scripts that aren't graded yet have empty marks
+export const gradingToCsv = (session: GradingSession, scripts: AnswerScript[]): string => {
+  const header = [
+    'Roll',
+    'Name',
+    ...session.rubric.map(q => `Q${q.label} (${questionMaxMarks(q)})`),
+    `Total (${rubricMaxMarks(session.rubric)})`,
+  ];
+  const rows = [...scripts]
+    .sort((a, b) => a.roll.localeCompare(b.roll, undefined, { numeric: true }))
+    .map(script => {
+      const graded = script.status === 'graded';
+      return [
+        script.roll,
+        script.studentName,
+        ...session.rubric.map(q => graded ? scriptQuestionMarks(script, q) : ''),
+        graded ? scriptTotal(script, session.rubric) : '',
+      ];
+    });
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+};
+
+export const gradingFilename = (session: GradingSession) =>
+  `${session.title.replace(/[^\p{L}\p{M}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'grading'}-marks.csv`;
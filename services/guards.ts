@@ -0,0 +1,90 @@
+import {
+  AnswerScript,
+  ChatMessage,
+  ChatThread,
+  ExamPaper,
+  Flashcard,
+  Folder,
+  GradingSession,
+  Lecture,
+  LectureSegment,
+  MediaItem,
+  Note,
+  NoteTranslation,
+  PaperSection,
+  Quiz,
+  QuizQuestion
+} from "../types";
+
+// Narrowing for JSON that comes from outside: AI replies and imported files
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A string with something other than whitespace in it
+export const isText = (value: unknown): value is string => typeof value === 'string' && !!value.trim();
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isListOf = (value: unknown, check: (item: unknown) => boolean): value is unknown[] =>
+  Array.isArray(value) && value.every(item => check(item));
+
+// atob accepts only the standard alphabet, padded to a multiple of four
+export const isBase64 = (value: unknown): value is string =>
+  isString(value) && value.length % 4 === 0 && /^[A-Za-z0-9+/]*={0,2}$/.test(value);
+
+const hasStrings = (value: unknown, ...keys: string[]): value is Record<string, unknown> =>
+  isRecord(value) && keys.every(key => isString(value[key]));
+
+// Backup archives. Entries are checked for the fields the import and the panels rely on; anything
+// else is left to the app's own defaults.
+
+export const isArchivedNote = (value: unknown): value is Partial<Note> & { id: string } => hasStrings(value, 'id');
+
+export const isFolder = (value: unknown): value is Folder =>
+  hasStrings(value, 'id', 'name') && (value.parentId === null || isString(value.parentId));
+
+const isChatMessage = (value: unknown): value is ChatMessage =>
+  hasStrings(value, 'id', 'text') && (value.role === 'user' || value.role === 'model');
+
+export const isChatThread = (value: unknown): value is ChatThread =>
+  hasStrings(value, 'id', 'noteId') && isListOf(value.messages, isChatMessage);
+
+export const isArchivedMedia = (value: unknown): value is Omit<MediaItem, 'data'> & { data: string } =>
+  hasStrings(value, 'id', 'noteId', 'mimeType') && isBase64(value.data);
+
+const isQuizQuestion = (value: unknown): value is QuizQuestion =>
+  hasStrings(value, 'id', 'question') && isListOf(value.options, isString) && isNumber(value.correctIndex);
+
+export const isQuiz = (value: unknown): value is Quiz =>
+  hasStrings(value, 'id', 'noteId') && isListOf(value.questions, isQuizQuestion);
+
+export const isFlashcard = (value: unknown): value is Flashcard =>
+  hasStrings(value, 'id', 'noteId', 'front', 'back') &&
+  [value.easeFactor, value.interval, value.repetitions, value.dueAt].every(isNumber) &&
+  Array.isArray(value.history);
+
+const isPaperSection = (value: unknown): value is PaperSection =>
+  hasStrings(value, 'id', 'kind') && isListOf(value.questions, item => hasStrings(item, 'id', 'text'));
+
+export const isExamPaper = (value: unknown): value is ExamPaper =>
+  hasStrings(value, 'id', 'title') && isRecord(value.header) && isListOf(value.sections, isPaperSection);
+
+export const isNoteTranslation = (value: unknown): value is NoteTranslation =>
+  hasStrings(value, 'id', 'noteId') && isListOf(value.paragraphs, item => hasStrings(item, 'id', 'source', 'translation'));
+
+const isLectureSegment = (value: unknown): value is LectureSegment =>
+  hasStrings(value, 'mediaId') && isNumber(value.start) && isNumber(value.duration) &&
+  isListOf(value.lines, item => hasStrings(item, 'text') && isNumber(item.start));
+
+export const isLecture = (value: unknown): value is Lecture =>
+  hasStrings(value, 'id', 'noteId') && isListOf(value.segments, isLectureSegment);
+
+export const isGradingSession = (value: unknown): value is GradingSession =>
+  hasStrings(value, 'id', 'title') && isNumber(value.updatedAt) &&
+  isListOf(value.rubric, item => hasStrings(item, 'id') && isListOf(item.criteria, c => hasStrings(c, 'id') && isNumber(c.maxMarks)));
+
+export const isArchivedScript = (value: unknown): value is Omit<AnswerScript, 'photos'> & { photos: { mimeType: string; data: string }[] } =>
+  hasStrings(value, 'id', 'sessionId', 'status') &&
+  isListOf(value.photos, photo => hasStrings(photo, 'mimeType') && isBase64(photo.data)) &&
+  isListOf(value.scores, score => hasStrings(score, 'criterionId') && isNumber(score.score));
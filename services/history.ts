@@ -0,0 +1,66 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Note, NoteVersion } from "../types";
+import { getNoteVersions, putNoteVersion, deleteNoteVersions } from "./storage";
+import { SNAPSHOT_INTERVAL_MS, LARGE_EDIT_CHARS, KEEP_ALL_VERSIONS_MS, MAX_VERSIONS_PER_NOTE } from "../constants";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// When each note was last snapshotted in this session
+const lastSnapshotAt = new Map<string, number>();
+
+/**
+ * Picks the snapshots to drop: everything from the last day is kept, older ones are
+ * thinned to the newest per calendar day, and the total is capped per note.
+ */
+export const selectVersionsToPrune = (versions: NoteVersion[], now = Date.now()): NoteVersion[] => {
+  const newestFirst = [...versions].sort((a, b) => b.createdAt - a.createdAt);
+  const keptDays = new Set<number>();
+  const kept: NoteVersion[] = [];
+  const pruned: NoteVersion[] = [];
+
+  newestFirst.forEach(v => {
+    const day = Math.floor(v.createdAt / DAY_MS);
+    const isRecent = now - v.createdAt < KEEP_ALL_VERSIONS_MS;
+    if (kept.length < MAX_VERSIONS_PER_NOTE && (isRecent || !keptDays.has(day))) {
+      kept.push(v);
+      keptDays.add(day);
+    } else {
+      pruned.push(v);
+    }
+  });
+  return pruned;
+};
+
+export const saveSnapshot = async (
+  note: Pick<Note, 'id' | 'title' | 'content'>,
+  reason: NoteVersion['reason']
+): Promise<void> => {
+  const createdAt = Date.now();
+  lastSnapshotAt.set(note.id, createdAt);
+
+  const versions = await getNoteVersions(note.id);
+  if (versions[0]?.content === note.content) return;
+
+  await putNoteVersion({ id: uuidv4(), noteId: note.id, title: note.title, content: note.content, createdAt, reason });
+  await deleteNoteVersions(selectVersionsToPrune(versions, createdAt).map(v => v.id));
+};
+
+/**
+ * Called on every edit. Keeps the text a big change replaced (a select-all delete, a large paste)
+ * and otherwise snapshots periodically. The first edit of a session always snapshots the text it
+ * started from, so whatever was there on load can be recovered.
+ */
+export const recordEdit = (previous: Note, next: Note) => {
+  if (previous.content === next.content) return;
+
+  const last = lastSnapshotAt.get(previous.id);
+  const isLargeEdit = Math.abs(next.content.length - previous.content.length) >= LARGE_EDIT_CHARS;
+
+  let snapshot: Promise<void> | null = null;
+  if (last === undefined || isLargeEdit) {
+    snapshot = saveSnapshot(previous, isLargeEdit ? 'large-edit' : 'auto');
+  } else if (Date.now() - last >= SNAPSHOT_INTERVAL_MS) {
+    snapshot = saveSnapshot(next, 'auto');
+  }
+  snapshot?.catch(err => console.error("Failed to save note snapshot", err));
+};
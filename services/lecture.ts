@@ -0,0 +1,137 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Schema, Type } from "@google/genai";
+import { Lecture, LectureSegment, TranscriptLine } from "../types";
+import { SYSTEM_INSTRUCTION_TRANSCRIBE, SYSTEM_INSTRUCTION_LECTURE } from "../constants";
+import { generateJson, generateText } from "./ai";
+import { isRecord, isText } from "./guards";
+import { blobToBase64 } from "./fileUtils";
+
+const TRANSCRIPT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    lines: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          start: { type: Type.NUMBER, description: 'Seconds from the start of this recording' },
+          text: { type: Type.STRING },
+        },
+        required: ['start', 'text'],
+        propertyOrdering: ['start', 'text'],
+      },
+    },
+  },
+  required: ['lines'],
+};
+
+// Recorder formats in order of preference; Chromium only records WebM
+const RECORDING_TYPES = ['audio/ogg;codecs=opus', 'audio/webm;codecs=opus', 'audio/webm', 'audio/mp4'];
+
+export const createLecture = (noteId: string): Lecture => ({
+  id: uuidv4(),
+  noteId,
+  title: `Lecture, ${new Date().toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}`,
+  segments: [],
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+export const formatTimestamp = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+export const lectureDuration = (lecture: Lecture) =>
+  lecture.segments.reduce((end, s) => Math.max(end, s.start + s.duration), 0);
+
+export const lectureLines = (lecture: Lecture): TranscriptLine[] =>
+  lecture.segments.flatMap(s => s.lines);
+
+// Recording
+export interface RecordedSegment {
+  blob: Blob;
+  start: number;
+  duration: number;
+}
+
+export interface SegmentedRecording {
+  stop: () => void;
+}
+
+/**
+ * Records the stream as a series of standalone audio files of segmentMs each. A recorder's chunks
+ * can't be played or transcribed apart from its first one, so a fresh recorder starts every segment.
+ */
+export const recordInSegments = (
+  stream: MediaStream,
+  segmentMs: number,
+  onSegment: (segment: RecordedSegment) => void
+): SegmentedRecording => {
+  const mimeType = RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  const startedAt = performance.now();
+  const elapsed = () => (performance.now() - startedAt) / 1000;
+  let recorder: MediaRecorder;
+  let timer: ReturnType<typeof setTimeout>;
+
+  const startSegment = () => {
+    const chunks: Blob[] = [];
+    const start = elapsed();
+    const current = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    current.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+    current.onstop = () => {
+      if (chunks.length === 0) return;
+      const type = (current.mimeType || mimeType || 'audio/webm').split(';')[0];
+      onSegment({ blob: new Blob(chunks, { type }), start, duration: elapsed() - start });
+    };
+    current.start();
+    recorder = current;
+    timer = setTimeout(() => {
+      current.stop();
+      startSegment();
+    }, segmentMs);
+  };
+
+  startSegment();
+  return {
+    stop: () => {
+      clearTimeout(timer);
+      recorder.stop();
+      stream.getTracks().forEach(track => track.stop());
+    },
+  };
+};
+
+// Transcribing
+const isLineReply = (value: unknown): value is { text: string; start?: unknown } => isRecord(value) && isText(value.text);
+
+export const transcribeSegment = async (
+  audio: Blob,
+  segment: LectureSegment,
+  signal?: AbortSignal
+): Promise<TranscriptLine[]> => {
+  const media = [{ mimeType: audio.type || 'audio/webm', data: await blobToBase64(audio) }];
+  const prompt = `Transcribe this ${formatTimestamp(segment.duration)} long part of a class recording.`;
+  const data = await generateJson(prompt, TRANSCRIPT_SCHEMA, SYSTEM_INSTRUCTION_TRANSCRIBE, signal, media);
+  const lines = isRecord(data) ? data.lines : undefined;
+  if (!Array.isArray(lines)) throw new Error("The reply did not contain a transcript.");
+
+  return lines
+    .filter(isLineReply)
+    .map(l => ({
+      start: segment.start + Math.min(segment.duration, Math.max(0, Number(l.start) || 0)),
+      text: l.text.trim(),
+    }))
+    .sort((a, b) => a.start - b.start);
+};
+
+export const structureLecture = async (lecture: Lecture, signal?: AbortSignal): Promise<string> => {
+  const transcript = lectureLines(lecture).map(l => `[${formatTimestamp(l.start)}] ${l.text}`).join('\n');
+  const prompt = `Write class notes from this lecture transcript.\n\n${transcript}`;
+  const notes = await generateText(prompt, SYSTEM_INSTRUCTION_LECTURE, signal);
+  if (!notes.trim()) throw new Error("The reply was empty.");
+  return notes.trim();
+};
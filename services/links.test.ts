@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { Note } from '../types';
+import { extractLinks, findNoteByTitle, getBacklinks, getLinkQueryAtCaret, parseLinkHref, rewriteLinks, toMarkdownLinks } from './links';
+
+const note = (id: string, title: string, content: string, updatedAt = 0): Note =>
+  ({ id, title, content, updatedAt, folderId: null, tags: [], deletedAt: null });
+
+describe('extractLinks', () => {
+  it('reads targets, aliases and where they are', () => {
+    expect(extractLinks('See [[Rain]] and [[Water cycle|the cycle]].')).toEqual([
+      { target: 'Rain', alias: undefined, start: 4, end: 12 },
+      { target: 'Water cycle', alias: 'the cycle', start: 17, end: 42 },
+    ]);
+  });
+});
+
+describe('findNoteByTitle', () => {
+  it('ignores case and heading markers, and prefers the newest note', () => {
+    const notes = [note('a', '# Rain', '', 1), note('b', 'rain', '', 2), note('c', 'Snow', '')];
+
+    expect(findNoteByTitle(notes, 'RAIN')?.id).toBe('b');
+    expect(findNoteByTitle(notes, '  ')).toBeUndefined();
+  });
+});
+
+describe('getBacklinks', () => {
+  it('lists notes that link here, with the line they link from', () => {
+    const rain = note('a', 'Rain', '');
+    const notes = [rain, note('b', 'Clouds', 'Intro\nThey bring [[rain]].\nEnd', 2), note('c', 'Soil', 'No links')];
+
+    expect(getBacklinks(rain, notes).map(b => [b.note.id, b.snippet])).toEqual([['b', 'They bring [[rain]].']]);
+  });
+
+  it('lists nothing when another note with the same title wins', () => {
+    const older = note('a', 'Rain', '', 1);
+    const notes = [older, note('b', 'Rain', '', 2), note('c', 'Clouds', '[[Rain]]')];
+
+    expect(getBacklinks(older, notes)).toEqual([]);
+  });
+});
+
+describe('rewriteLinks', () => {
+  it('renames matching links and keeps their aliases', () => {
+    expect(rewriteLinks('[[rain]] and [[Rain|showers]] but not [[Snow]]', 'Rain', 'Rainfall'))
+      .toBe('[[Rainfall]] and [[Rainfall|showers]] but not [[Snow]]');
+  });
+});
+
+describe('toMarkdownLinks', () => {
+  it('turns links into hrefs that round-trip through parseLinkHref', () => {
+    const markdown = toMarkdownLinks('[[Rain (2024)|rain]]');
+    const href = /\((#wikilink\/[^)]+)\)/.exec(markdown)![1];
+
+    expect(markdown).toBe(`[rain](${href})`);
+    expect(parseLinkHref(href)).toBe('Rain (2024)');
+    expect(parseLinkHref('https://example.com')).toBeNull();
+  });
+});
+
+describe('getLinkQueryAtCaret', () => {
+  it('finds an unfinished link before the caret', () => {
+    expect(getLinkQueryAtCaret('See [[Ra', 8)).toEqual({ query: 'Ra', start: 4 });
+    expect(getLinkQueryAtCaret('See [[Rain]] now', 16)).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+import { Note } from "../types";
+
+// [[Target]] or [[Target|shown text]]
+const WIKI_LINK_REGEX = /\[\[([^[\]\n|]+?)(?:\|([^[\]\n]+?))?\]\]/g;
+
+export const LINK_HREF_PREFIX = '#wikilink/';
+
+export interface WikiLink {
+  target: string;
+  alias?: string;
+  start: number;
+  end: number;
+}
+
+export interface Backlink {
+  note: Note;
+  snippet: string;
+}
+
+// Titles are taken from the first line, so a Markdown heading marker is not part of the link name
+export const linkTitle = (note: Pick<Note, 'title'>) => note.title.replace(/^#+\s*/, '').trim();
+
+const normalizeLinkTitle = (title: string) => title.trim().toLowerCase();
+
+export const findNoteByTitle = (notes: Note[], title: string): Note | undefined => {
+  const wanted = normalizeLinkTitle(title);
+  if (!wanted) return undefined;
+  return notes
+    .filter(n => normalizeLinkTitle(linkTitle(n)) === wanted)
+    .sort((a, b) => b.updatedAt - a.updatedAt)[0];
+};
+
+export const extractLinks = (content: string): WikiLink[] =>
+  Array.from(content.matchAll(WIKI_LINK_REGEX), m => ({
+    target: m[1].trim(),
+    alias: m[2]?.trim(),
+    start: m.index!,
+    end: m.index! + m[0].length
+  }));
+
+export const getBacklinks = (note: Note, notes: Note[]): Backlink[] => {
+  const backlinks: Backlink[] = [];
+  // Links resolve by title, so if another note with the same title wins, nothing links here
+  if (findNoteByTitle(notes, linkTitle(note))?.id !== note.id) return backlinks;
+  const wanted = normalizeLinkTitle(linkTitle(note));
+
+  notes.forEach(other => {
+    if (other.id === note.id) return;
+    const link = extractLinks(other.content).find(l => normalizeLinkTitle(l.target) === wanted);
+    if (!link) return;
+
+    const lineStart = other.content.lastIndexOf('\n', link.start) + 1;
+    const lineEnd = other.content.indexOf('\n', link.end);
+    backlinks.push({
+      note: other,
+      snippet: other.content.slice(lineStart, lineEnd === -1 ? undefined : lineEnd).trim()
+    });
+  });
+  return backlinks.sort((a, b) => b.note.updatedAt - a.note.updatedAt);
+};
+
+// Points [[oldTitle]] links at newTitle, keeping any alias. Returns the content unchanged if nothing matched.
+export const rewriteLinks = (content: string, oldTitle: string, newTitle: string): string => {
+  const wanted = normalizeLinkTitle(oldTitle);
+  return content.replace(WIKI_LINK_REGEX, (match, target: string, alias?: string) =>
+    normalizeLinkTitle(target) === wanted ? `[[${newTitle}${alias ? `|${alias}` : ''}]]` : match
+  );
+};
+
+// Turns wiki links into ordinary Markdown links the preview can intercept
+export const toMarkdownLinks = (content: string): string =>
+  content.replace(WIKI_LINK_REGEX, (_match, target: string, alias?: string) => {
+    const href = LINK_HREF_PREFIX + encodeURIComponent(target.trim()).replace(/\(/g, '%28').replace(/\)/g, '%29');
+    const text = (alias || target).trim().replace(/([[\]])/g, '\\$1');
+    return `[${text}](${href})`;
+  });
+
+export const parseLinkHref = (href: string | undefined): string | null =>
+  href?.startsWith(LINK_HREF_PREFIX) ? decodeURIComponent(href.slice(LINK_HREF_PREFIX.length)) : null;
+
+// The unfinished "[[query" right before the caret, if the user is typing a link
+export const getLinkQueryAtCaret = (content: string, caret: number): { query: string; start: number } | null => {
+  const lineStart = content.lastIndexOf('\n', caret - 1) + 1;
+  const before = content.slice(lineStart, caret);
+  const open = before.lastIndexOf('[[');
+  if (open === -1 || before.indexOf(']]', open) !== -1) return null;
+  const query = before.slice(open + 2);
+  if (/[[\]|]/.test(query)) return null;
+  return { query, start: lineStart + open };
+};
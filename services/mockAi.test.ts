@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Type } from '@google/genai';
+import { AI_SETTINGS_KEY } from '../constants';
+import { Note } from '../types';
+import { streamChat } from './ai';
+import { createMockProvider } from './mockAi';
+import { generateQuiz } from './quiz';
+
+const note: Note = {
+  id: 'note-1',
+  title: 'Photosynthesis',
+  content: 'Plants turn light, water and carbon dioxide into sugar and oxygen.',
+  updatedAt: 0,
+  folderId: null,
+  tags: [],
+  deletedAt: null,
+};
+
+// The app reads its provider from localStorage on every call
+beforeEach(() => {
+  const stored = new Map([[AI_SETTINGS_KEY, JSON.stringify({ provider: 'mock' })]]);
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => stored.set(key, value),
+    removeItem: (key: string) => stored.delete(key),
+  });
+});
+
+describe('mock provider', () => {
+  it('streams a reply that grows word by word', async () => {
+    const chunks: string[] = [];
+    const reply = await streamChat([], 'What is photosynthesis?', undefined, text => chunks.push(text));
+
+    expect(reply).toContain('What is photosynthesis?');
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[chunks.length - 1]).toBe(reply);
+  });
+
+  it('gives the same reply to the same input', async () => {
+    const provider = createMockProvider();
+    const schema = { type: Type.ARRAY, items: { type: Type.STRING } };
+    const first = await provider.generateJson('Write 2 cards', schema, '');
+    expect(first).toHaveLength(2);
+    expect(await provider.generateJson('Write 2 cards', schema, '')).toEqual(first);
+  });
+
+  it('fills a quiz that passes validation', async () => {
+    const quiz = await generateQuiz(note, 5);
+
+    expect(quiz.noteId).toBe(note.id);
+    expect(quiz.questions).toHaveLength(5);
+    quiz.questions.forEach(q => {
+      expect(q.options).toHaveLength(4);
+      expect(q.correctIndex).toBeLessThan(q.options.length);
+    });
+  });
+});
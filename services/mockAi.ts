@@ -0,0 +1,88 @@
+import { Schema, Type } from "@google/genai";
+import { AiProvider } from "./ai";
+
+// Offline stand-in: replies depend only on the input, so runs are repeatable
+const STREAM_DELAY_MS = 30;
+const DEFAULT_ARRAY_LENGTH = 3;
+const SPEECH_SAMPLE_RATE = 24000;
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const done = () => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', done);
+    resolve();
+  };
+  const timer = setTimeout(done, ms);
+  signal?.addEventListener('abort', done, { once: true });
+});
+
+// The count a prompt asks for, e.g. "Write 10 questions" or "Return exactly 4 translations"
+const requestedCount = (prompt: string) => {
+  const match = /\b(?:exactly|write)\s+(\d+)\b/i.exec(prompt);
+  return match ? Number(match[1]) : DEFAULT_ARRAY_LENGTH;
+};
+
+/**
+ * Fills a schema with placeholder values. The first list found takes the count the prompt asks for;
+ * nested lists use their minItems. Enums take their first value and numbers are 1.
+ */
+const fillSchema = (schema: Schema, path: string, count: { value: number | null }): unknown => {
+  switch (schema.type) {
+    case Type.OBJECT:
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([key, value]) =>
+        [key, fillSchema(value, path ? `${path} ${key}` : key, count)]
+      ));
+    case Type.ARRAY: {
+      const length = count.value ?? (Number(schema.minItems) || DEFAULT_ARRAY_LENGTH);
+      count.value = null;
+      return Array.from({ length }, (_, i) => fillSchema(schema.items || { type: Type.STRING }, `${path} ${i + 1}`, count));
+    }
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return 1;
+    case Type.BOOLEAN:
+      return false;
+    default:
+      return schema.enum?.[0] ?? `Mock ${path}`.trim();
+  }
+};
+
+// The passage being worked on usually comes last, after a blank line
+const lastParagraph = (prompt: string) => prompt.trim().split(/\n\s*\n/).pop() || prompt;
+
+// A quiet tone whose length follows the text, as 16-bit PCM
+const toneBase64 = (text: string) => {
+  const samples = Math.round(SPEECH_SAMPLE_RATE * Math.min(3, 0.3 + text.length * 0.02));
+  const bytes = new Uint8Array(samples * 2);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < samples; i++) {
+    view.setInt16(i * 2, Math.round(Math.sin((2 * Math.PI * 440 * i) / SPEECH_SAMPLE_RATE) * 3000), true);
+  }
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+export const createMockProvider = (): AiProvider => ({
+  streamChat: async (history, newMessage, image, onChunk, signal) => {
+    const question = newMessage.trim().split('\n').pop()!.slice(0, 120);
+    const reply = `**Mock reply** (offline mode, turn ${history.filter(h => h.role === 'user').length + 1})\n\n` +
+      `You asked: "${question}"${image ? ' and attached an image' : ''}. ` +
+      `Switch to Gemini or an OpenAI-compatible server for real answers.`;
+    let text = '';
+    for (const word of reply.split(/(?<=\s)/)) {
+      if (signal?.aborted) break;
+      await wait(STREAM_DELAY_MS, signal);
+      text += word;
+      onChunk(text);
+    }
+    return text;
+  },
+
+  generateText: async (prompt) => lastParagraph(prompt),
+
+  generateJson: async (prompt, schema) => fillSchema(schema, '', { value: requestedCount(prompt) }),
+
+  generateSpeech: async (text) => toneBase64(text),
+});
+
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { appendUnderHeading, changedRegion, insertAtCursor, revertRegion } from './noteEdits';
+
+describe('insertAtCursor', () => {
+  it('keeps a block apart from the paragraphs around it', () => {
+    const edit = insertAtCursor('First.\nSecond.', 7, 'Inserted.');
+
+    expect(edit.content).toBe('First.\n\nInserted.\n\nSecond.');
+    expect(edit.content.slice(...edit.inserted)).toBe('Inserted.');
+  });
+});
+
+describe('appendUnderHeading', () => {
+  it('adds to the end of the section under the heading', () => {
+    const edit = appendUnderHeading('# Rain\n\nDrops.\n\n# Snow\n\nFlakes.', 'Rain', 'More drops.');
+
+    expect(edit.content).toBe('# Rain\n\nDrops.\n\nMore drops.\n\n# Snow\n\nFlakes.');
+    expect(edit.content.slice(...edit.inserted)).toBe('More drops.');
+  });
+
+  it('adds the heading at the end when the note lacks it', () => {
+    const edit = appendUnderHeading('Intro.\n', 'Answers', 'Forty-two.');
+
+    expect(edit.content).toBe('Intro.\n\n## Answers\n\nForty-two.\n');
+    expect(edit.content.slice(...edit.inserted)).toBe('Forty-two.');
+  });
+});
+
+describe('changedRegion', () => {
+  it('undoes one edit without touching typing elsewhere', () => {
+    const before = 'Rain falls. Snow falls.';
+    const after = 'Rain falls from clouds. Snow falls.';
+    const region = changedRegion(before, after);
+
+    expect(region).toEqual({ start: 10, removed: '', added: ' from clouds' });
+    expect(revertRegion(after + ' Hail too.', region)).toBe(before + ' Hail too.');
+  });
+
+  it('gives up once the changed text has been edited', () => {
+    const region = changedRegion('Rain.', 'Rain and snow.');
+
+    expect(revertRegion('Rain and sleet.', region)).toBeNull();
+  });
+});
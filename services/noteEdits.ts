@@ -0,0 +1,92 @@
+import { TextRange } from "./search";
+
+export type AnswerInsertMode = 'cursor' | 'append' | 'replace';
+
+export interface NoteEdit {
+  content: string;
+  inserted: TextRange; // Where the new text ended up, for selecting it afterwards
+}
+
+// The span an edit changed: what was there before and what took its place
+export interface EditRegion {
+  start: number;
+  removed: string;
+  added: string;
+}
+
+const HEADING_REGEX = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+
+// Adds blank lines so an inserted block does not run into the surrounding paragraphs
+const padBlock = (before: string, after: string): { prefix: string; suffix: string } => ({
+  prefix: before === '' || before.endsWith('\n\n') ? '' : before.endsWith('\n') ? '\n' : '\n\n',
+  suffix: after === '' || after.startsWith('\n\n') ? '' : after.startsWith('\n') ? '\n' : '\n\n'
+});
+
+export const replaceRange = (content: string, start: number, end: number, text: string): NoteEdit => ({
+  content: content.slice(0, start) + text + content.slice(end),
+  inserted: [start, start + text.length]
+});
+
+export const insertAtCursor = (content: string, position: number, text: string): NoteEdit => {
+  const before = content.slice(0, position);
+  const after = content.slice(position);
+  const { prefix, suffix } = padBlock(before, after);
+  const start = position + prefix.length;
+  return {
+    content: before + prefix + text + suffix + after,
+    inserted: [start, start + text.length]
+  };
+};
+
+/**
+ * Appends text at the end of the section under the given heading. The heading is added
+ * at the end of the note if the note does not have it yet.
+ */
+export const appendUnderHeading = (content: string, heading: string, text: string): NoteEdit => {
+  const lines = content.split('\n');
+  const headingIndex = lines.findIndex(line => HEADING_REGEX.exec(line)?.[2] === heading);
+
+  if (headingIndex === -1) {
+    const base = content.replace(/\s+$/, '');
+    const block = `## ${heading}\n\n`;
+    const separator = base ? '\n\n' : '';
+    const start = base.length + separator.length + block.length;
+    return {
+      content: `${base}${separator}${block}${text}\n`,
+      inserted: [start, start + text.length]
+    };
+  }
+
+  // The section ends at the next heading of the same or a higher level
+  const level = HEADING_REGEX.exec(lines[headingIndex])![1].length;
+  let endIndex = lines.length;
+  for (let i = headingIndex + 1; i < lines.length; i++) {
+    const match = HEADING_REGEX.exec(lines[i]);
+    if (match && match[1].length <= level) {
+      endIndex = i;
+      break;
+    }
+  }
+  // Insert after the last non-empty line of the section
+  while (endIndex > headingIndex + 1 && lines[endIndex - 1].trim() === '') endIndex--;
+  const position = lines.slice(0, endIndex).join('\n').length;
+  return insertAtCursor(content, position, text);
+};
+
+export const changedRegion = (before: string, after: string): EditRegion => {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let end = 0;
+  while (
+    end < before.length - start && end < after.length - start &&
+    before[before.length - 1 - end] === after[after.length - 1 - end]
+  ) end++;
+  return { start, removed: before.slice(start, before.length - end), added: after.slice(start, after.length - end) };
+};
+
+// Puts the removed text back, or returns null once the added text has been edited or moved
+export const revertRegion = (content: string, region: EditRegion): string | null => {
+  const { start, removed, added } = region;
+  if (content.slice(start, start + added.length) !== added) return null;
+  return content.slice(0, start) + removed + content.slice(start + added.length);
+};
@@ -0,0 +1,203 @@
+import { Schema } from "@google/genai";
+import { OpenAiCompatibleSettings, TtsVoice } from "../types";
+import { AiProvider, ChatHistory, InlineData } from "./ai";
+import { cleanSpeechText, decodeBase64, encodeWav } from "./audioUtils";
+import { blobToBase64 } from "./fileUtils";
+import { AiError, errorKindForStatus } from "./aiErrors";
+
+type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+  | { type: 'input_audio'; input_audio: { data: string; format: string } };
+
+interface Message {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ContentPart[];
+}
+
+// Gemini voices mapped to the closest built-in OpenAI voice
+const VOICES: Record<TtsVoice, string> = {
+  [TtsVoice.Puck]: 'alloy',
+  [TtsVoice.Charon]: 'onyx',
+  [TtsVoice.Kore]: 'nova',
+  [TtsVoice.Fenrir]: 'echo',
+  [TtsVoice.Zephyr]: 'shimmer',
+};
+
+const AUDIO_FORMATS: Record<string, string> = { 'audio/wav': 'wav', 'audio/x-wav': 'wav', 'audio/mpeg': 'mp3', 'audio/mp3': 'mp3' };
+
+// Gemini schemas use upper-case type names and a propertyOrdering extension
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const { type, properties, items, propertyOrdering, minItems, maxItems, ...rest } = schema;
+  return {
+    ...rest,
+    ...(type ? { type: type.toLowerCase() } : {}),
+    ...(properties ? { properties: Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toJsonSchema(value)])) } : {}),
+    ...(items ? { items: toJsonSchema(items) } : {}),
+    ...(minItems !== undefined ? { minItems: Number(minItems) } : {}),
+    ...(maxItems !== undefined ? { maxItems: Number(maxItems) } : {}),
+  };
+};
+
+const toContentPart = (media: InlineData): ContentPart => {
+  if (media.mimeType.startsWith('image/')) {
+    return { type: 'image_url', image_url: { url: `data:${media.mimeType};base64,${media.data}` } };
+  }
+  const format = AUDIO_FORMATS[media.mimeType];
+  if (!format) throw new AiError('unsupported-media', `Can't send ${media.mimeType} input`);
+  return { type: 'input_audio', input_audio: { data: media.data, format } };
+};
+
+// input_audio only takes WAV and MP3, and the lecture recorder makes WebM or Ogg Opus
+const toSupportedMedia = async (media: InlineData): Promise<InlineData> => {
+  if (!media.mimeType.startsWith('audio/') || AUDIO_FORMATS[media.mimeType]) return media;
+  try {
+    const wav = await encodeWav(decodeBase64(media.data));
+    return { mimeType: 'audio/wav', data: await blobToBase64(new Blob([wav])) };
+  } catch (error) {
+    throw new AiError('unsupported-media', `Couldn't convert ${media.mimeType} to WAV: ${error}`);
+  }
+};
+
+const toMessages = (history: ChatHistory): Message[] => history.map(h => ({
+  role: h.role === 'model' ? 'assistant' : 'user',
+  content: h.parts.map(p => p.text || '').join(''),
+}));
+
+// Structured output, then plain JSON mode, then just the instruction in the prompt: many local servers
+// reject the stricter modes with a 400. The first mode a server takes is remembered for the session.
+const JSON_MODES = ['json_schema', 'json_object', 'prompt'] as const;
+type JsonMode = typeof JSON_MODES[number];
+const acceptedJsonModes = new Map<string, JsonMode>();
+
+// Local models don't always honour response_format, so the JSON is dug out of any surrounding prose
+const parseJsonReply = (text: string): unknown => {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/.exec(text);
+  const body = (fenced ? fenced[1] : text).trim();
+  const start = body.search(/[[{]/);
+  if (start === -1) return JSON.parse(body || 'null');
+  const end = Math.max(body.lastIndexOf('}'), body.lastIndexOf(']'));
+  return JSON.parse(body.slice(start, end + 1));
+};
+
+// Local servers usually don't need an API key
+export const createOpenAiCompatibleProvider = (
+  settings: OpenAiCompatibleSettings,
+  apiKey: string | null,
+  chatInstruction: string
+): AiProvider => {
+  const baseUrl = settings.baseUrl.replace(/\/+$/, '');
+
+  const post = async (path: string, body: unknown, signal?: AbortSignal) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      const message = `${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 300)}` : ''}`;
+      throw new AiError(errorKindForStatus(response.status, detail), message, response.status);
+    }
+    return response;
+  };
+
+  const complete = async (messages: Message[], signal?: AbortSignal, extra: Record<string, unknown> = {}) => {
+    const response = await post('/chat/completions', { model: settings.chatModel, messages, ...extra }, signal);
+    const data = await response.json();
+    if (data?.choices?.[0]?.finish_reason === 'content_filter') throw new AiError('safety', 'content_filter');
+    return (data?.choices?.[0]?.message?.content as string) || '';
+  };
+
+  return {
+    streamChat: async (history, newMessage, image, onChunk, signal) => {
+      const content: ContentPart[] = [{ type: 'text', text: newMessage }];
+      if (image) content.push(toContentPart({ mimeType: 'image/jpeg', data: image }));
+      const messages: Message[] = [
+        { role: 'system', content: chatInstruction },
+        ...toMessages(history),
+        { role: 'user', content },
+      ];
+
+      let text = '';
+      try {
+        const response = await post('/chat/completions', { model: settings.chatModel, messages, stream: true }, signal);
+        const reader = response.body!.getReader();
+        const decoder = new TextDecoder();
+        let buffered = '';
+
+        // Server-sent events: one "data: {...}" line per delta, ending with "data: [DONE]"
+        const readLine = (line: string) => {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data || data === '[DONE]') return;
+          const choice = JSON.parse(data)?.choices?.[0];
+          if (choice?.finish_reason === 'content_filter') throw new AiError('safety', 'content_filter');
+          const delta = choice?.delta?.content;
+          if (delta) {
+            text += delta;
+            onChunk(text);
+          }
+        };
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done || signal?.aborted) break;
+          buffered += decoder.decode(value, { stream: true });
+          const lines = buffered.split('\n');
+          buffered = lines.pop() || '';
+          lines.forEach(readLine);
+        }
+        // Some servers don't end the last event with a newline
+        if (!signal?.aborted) readLine(buffered + decoder.decode());
+        return text;
+      } catch (error) {
+        if (signal?.aborted) return text;
+        throw error;
+      }
+    },
+
+    generateText: (prompt, systemInstruction, signal) =>
+      complete([{ role: 'system', content: systemInstruction }, { role: 'user', content: prompt }], signal),
+
+    generateJson: async (prompt, schema, systemInstruction, signal, media = []) => {
+      const parts = (await Promise.all(media.map(toSupportedMedia))).map(toContentPart);
+      const messages: Message[] = [
+        { role: 'system', content: `${systemInstruction}\nReply with JSON only, matching this schema: ${JSON.stringify(toJsonSchema(schema))}` },
+        { role: 'user', content: [{ type: 'text', text: prompt }, ...parts] },
+      ];
+      const serverKey = `${baseUrl} ${settings.chatModel}`;
+
+      const attempt = async (mode: JsonMode): Promise<unknown> => {
+        const responseFormat =
+          mode === 'json_schema' ? { type: 'json_schema', json_schema: { name: 'reply', schema: toJsonSchema(schema) } }
+          : mode === 'json_object' ? { type: 'json_object' }
+          : null;
+        try {
+          const text = await complete(messages, signal, responseFormat ? { response_format: responseFormat } : {});
+          acceptedJsonModes.set(serverKey, mode);
+          return parseJsonReply(text);
+        } catch (error) {
+          if (mode === 'prompt' || !(error instanceof AiError) || error.status !== 400) throw error;
+          return attempt(JSON_MODES[JSON_MODES.indexOf(mode) + 1]);
+        }
+      };
+      return attempt(acceptedJsonModes.get(serverKey) || 'json_schema');
+    },
+
+    generateSpeech: async (text, voice, signal) => {
+      // "pcm" is raw 16-bit mono at 24 kHz, the same as Gemini's speech output
+      const response = await post('/audio/speech', {
+        model: settings.ttsModel,
+        voice: VOICES[voice],
+        input: cleanSpeechText(text),
+        response_format: 'pcm',
+      }, signal);
+      const audio = await response.blob();
+      if (audio.size === 0) throw new AiError('empty-audio', "No audio data returned");
+      return blobToBase64(audio);
+    },
+  };
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { ExamPaper, PaperQuestion } from '../types';
+import { paperMarks, paperVariant, sectionMarksSummary } from './paper';
+
+const mcq = (i: number): PaperQuestion => ({
+  id: `q${i}`,
+  text: `Question ${i}`,
+  marks: 1,
+  answer: '',
+  options: [`A${i}`, `B${i}`, `C${i}`, `D${i}`],
+  correctIndex: i % 4,
+});
+
+const paper: ExamPaper = {
+  id: 'paper-1',
+  title: 'Science',
+  language: 'en',
+  header: { school: '', exam: '', className: '', subject: '', duration: '' },
+  sections: [
+    { id: 's1', kind: 'mcq', title: 'MCQ', instructions: '', questions: Array.from({ length: 8 }, (_, i) => mcq(i)) },
+    {
+      id: 's2', kind: 'creative', title: 'Creative', instructions: '', questions: [{
+        id: 'c1', text: 'Stem', marks: 0, answer: '',
+        parts: [1, 2, 3, 4].map(marks => ({ id: `p${marks}`, text: '', marks, answer: '' })),
+      }],
+    },
+  ],
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+describe('paperVariant', () => {
+  it('leaves set A as written', () => {
+    expect(paperVariant(paper, 'A')).toBe(paper);
+  });
+
+  it('shuffles set B the same way every time', () => {
+    expect(paperVariant(paper, 'B')).toEqual(paperVariant(paper, 'B'));
+    expect(paperVariant(paper, 'B').sections[0].questions.map(q => q.id)).not.toEqual(paper.sections[0].questions.map(q => q.id));
+  });
+
+  it('keeps each correct answer with its option', () => {
+    paperVariant(paper, 'B').sections[0].questions.forEach(q => {
+      const original = paper.sections[0].questions.find(o => o.id === q.id)!;
+      expect(q.options![q.correctIndex!]).toBe(original.options![original.correctIndex!]);
+      expect([...q.options!].sort()).toEqual([...original.options!].sort());
+    });
+  });
+});
+
+describe('marks', () => {
+  it('totals creative questions by their parts', () => {
+    expect(paperMarks(paper)).toBe(18);
+  });
+
+  it('spells out equal marks as a product', () => {
+    expect(sectionMarksSummary(paper.sections[0], 'en')).toBe('1 × 8 = 8');
+    expect(sectionMarksSummary(paper.sections[0], 'bn')).toBe('১ × ৮ = ৮');
+  });
+});
@@ -0,0 +1,312 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Schema, Type } from "@google/genai";
+import { Note, QuizQuestion, ExamPaper, PaperSection, PaperSectionKind, PaperQuestion, PaperQuestionPart } from "../types";
+import { SYSTEM_INSTRUCTION_PAPER } from "../constants";
+import { generateJson } from "./ai";
+import { isRecord, isText } from "./guards";
+import { parseCardSyntax } from "./flashcards";
+import { loadPlaceholderValues } from "./templates";
+
+export type PaperLanguage = ExamPaper['language'];
+export type PaperSet = 'A' | 'B';
+
+export const PAPER_SETS: PaperSet[] = ['A', 'B'];
+export const PAPER_SECTION_KINDS: PaperSectionKind[] = ['mcq', 'short', 'creative'];
+
+const DEFAULT_MARKS: Record<PaperSectionKind, number> = { mcq: 1, short: 2, creative: 0 };
+// Board-style creative questions: knowledge, comprehension, application, higher-order
+const CREATIVE_PART_MARKS = [1, 2, 3, 4];
+
+// Everything printed on the paper that isn't typed by the teacher
+export const PAPER_LABELS = {
+  en: {
+    sections: { mcq: 'Multiple Choice Questions', short: 'Short Answer Questions', creative: 'Creative Questions' },
+    instructions: {
+      mcq: 'Choose the correct answer.',
+      short: 'Answer the following questions briefly.',
+      creative: 'Read the passage and answer the questions that follow.',
+    },
+    sectionPrefix: 'Section',
+    className: 'Class',
+    subject: 'Subject',
+    time: 'Time',
+    fullMarks: 'Full Marks',
+    set: 'Set',
+    answerKey: 'Answer Key',
+    name: 'Name',
+    roll: 'Roll',
+    setNames: { A: 'A', B: 'B' },
+    optionLetters: ['A', 'B', 'C', 'D', 'E', 'F'],
+    partLetters: ['a', 'b', 'c', 'd', 'e', 'f'],
+    sectionLetters: ['A', 'B', 'C', 'D'],
+  },
+  bn: {
+    sections: { mcq: 'বহুনির্বাচনি প্রশ্ন', short: 'সংক্ষিপ্ত প্রশ্ন', creative: 'সৃজনশীল প্রশ্ন' },
+    instructions: {
+      mcq: 'সঠিক উত্তরটি বেছে নাও।',
+      short: 'নিচের প্রশ্নগুলোর সংক্ষিপ্ত উত্তর দাও।',
+      creative: 'উদ্দীপকটি পড়ো এবং প্রশ্নগুলোর উত্তর দাও।',
+    },
+    sectionPrefix: 'বিভাগ',
+    className: 'শ্রেণি',
+    subject: 'বিষয়',
+    time: 'সময়',
+    fullMarks: 'পূর্ণমান',
+    set: 'সেট',
+    answerKey: 'উত্তরমালা',
+    name: 'নাম',
+    roll: 'রোল',
+    setNames: { A: 'ক', B: 'খ' },
+    optionLetters: ['ক', 'খ', 'গ', 'ঘ', 'ঙ', 'চ'],
+    partLetters: ['ক', 'খ', 'গ', 'ঘ', 'ঙ', 'চ'],
+    sectionLetters: ['ক', 'খ', 'গ', 'ঘ'],
+  },
+};
+
+export const formatNumber = (n: number, language: PaperLanguage) =>
+  language === 'bn' ? n.toLocaleString('bn-BD') : String(n);
+
+// Creating
+export const createPaperQuestion = (kind: PaperSectionKind): PaperQuestion => ({
+  id: uuidv4(),
+  text: '',
+  marks: DEFAULT_MARKS[kind],
+  answer: '',
+  ...(kind === 'mcq' && { options: ['', '', '', ''], correctIndex: 0 }),
+  ...(kind === 'creative' && {
+    parts: CREATIVE_PART_MARKS.map((marks): PaperQuestionPart => ({ id: uuidv4(), text: '', marks, answer: '' }))
+  }),
+});
+
+export const createPaperSection = (kind: PaperSectionKind, language: PaperLanguage): PaperSection => ({
+  id: uuidv4(),
+  kind,
+  title: PAPER_LABELS[language].sections[kind],
+  instructions: PAPER_LABELS[language].instructions[kind],
+  questions: [],
+});
+
+// The header starts from what was last typed into a template, since school and class rarely change
+export const createPaper = (language: PaperLanguage): ExamPaper => {
+  const values = loadPlaceholderValues();
+  return {
+    id: uuidv4(),
+    title: values.exam || 'Untitled Paper',
+    language,
+    header: {
+      school: values.school || '',
+      exam: values.exam || '',
+      className: values.class || '',
+      subject: values.subject || '',
+      duration: values.duration || '',
+    },
+    sections: PAPER_SECTION_KINDS.map(kind => createPaperSection(kind, language)),
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  };
+};
+
+// Marks
+export const questionMarks = (q: PaperQuestion) =>
+  q.parts ? q.parts.reduce((sum, p) => sum + (p.marks || 0), 0) : (q.marks || 0);
+
+export const sectionMarks = (section: PaperSection) =>
+  section.questions.reduce((sum, q) => sum + questionMarks(q), 0);
+
+export const paperMarks = (paper: ExamPaper) =>
+  paper.sections.reduce((sum, s) => sum + sectionMarks(s), 0);
+
+// "1 × 10 = 10" when every question carries the same marks, otherwise just the total
+export const sectionMarksSummary = (section: PaperSection, language: PaperLanguage) => {
+  const total = formatNumber(sectionMarks(section), language);
+  const marks = section.questions.map(questionMarks);
+  if (marks.length > 1 && marks.every(m => m === marks[0])) {
+    return `${formatNumber(marks[0], language)} × ${formatNumber(marks.length, language)} = ${total}`;
+  }
+  return total;
+};
+
+// Sources
+export const quizQuestionToPaper = (q: QuizQuestion): PaperQuestion => ({
+  id: uuidv4(),
+  text: q.question,
+  marks: DEFAULT_MARKS.mcq,
+  answer: q.explanation,
+  options: [...q.options],
+  correctIndex: q.correctIndex,
+});
+
+// A numbered or bulleted line ending in a question mark; numbers may be Bangla digits
+const QUESTION_LINE_REGEX = /^\s*(?:[-*+]|[\d\u09E6-\u09EF]+[.)\u0964])\s+(.+\?)\s*$/;
+
+/**
+ * Short-answer questions already written in a note: "Q:: A" flashcard lines (with their answers)
+ * and numbered or bulleted lines that end in a question mark.
+ */
+export const collectNoteQuestions = (note: Note): PaperQuestion[] => {
+  const questions: PaperQuestion[] = parseCardSyntax(note.content).map(({ front, back }) => ({
+    ...createPaperQuestion('short'),
+    text: front,
+    answer: back,
+  }));
+  const seen = new Set(questions.map(q => q.text));
+
+  note.content.split('\n').forEach(line => {
+    const match = QUESTION_LINE_REGEX.exec(line);
+    if (!match || match[1].includes(':: ') || seen.has(match[1])) return;
+    seen.add(match[1]);
+    questions.push({ ...createPaperQuestion('short'), text: match[1] });
+  });
+  return questions;
+};
+
+const SHORT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    questions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          question: { type: Type.STRING },
+          answer: { type: Type.STRING },
+        },
+        required: ['question', 'answer'],
+        propertyOrdering: ['question', 'answer'],
+      },
+    },
+  },
+  required: ['questions'],
+};
+
+const CREATIVE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    questions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          stem: { type: Type.STRING, description: 'The scenario (uddipok) the parts refer to' },
+          parts: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                question: { type: Type.STRING },
+                answer: { type: Type.STRING },
+              },
+              required: ['question', 'answer'],
+              propertyOrdering: ['question', 'answer'],
+            },
+            minItems: '4',
+            maxItems: '4',
+          },
+        },
+        required: ['stem', 'parts'],
+        propertyOrdering: ['stem', 'parts'],
+      },
+    },
+  },
+  required: ['questions'],
+};
+
+interface ReturnedPart {
+  question: string;
+  answer?: unknown;
+}
+
+const isShortReply = (value: unknown): value is ReturnedPart => isRecord(value) && isText(value.question);
+
+const isCreativeReply = (value: unknown): value is { stem: string; parts: ReturnedPart[] } =>
+  isRecord(value) && isText(value.stem) &&
+  Array.isArray(value.parts) && value.parts.length > 0 && value.parts.every(isShortReply);
+
+export const generatePaperQuestions = async (
+  note: Note,
+  kind: Exclude<PaperSectionKind, 'mcq'>,
+  count: number,
+  signal?: AbortSignal
+): Promise<PaperQuestion[]> => {
+  const request = kind === 'short'
+    ? `Write ${count} short-answer questions with model answers`
+    : `Write ${count} creative questions, each with a scenario and four parts`;
+  const prompt = `${request}, based only on this note. Write them in the same language as the note.` +
+    `\n\nNote title: ${note.title}\n\n${note.content}`;
+  const data = await generateJson(prompt, kind === 'short' ? SHORT_SCHEMA : CREATIVE_SCHEMA, SYSTEM_INSTRUCTION_PAPER, signal);
+  const items = isRecord(data) ? data.questions : undefined;
+  if (!Array.isArray(items)) throw new Error("The reply did not contain any questions.");
+
+  const questions = kind === 'short'
+    ? items
+      .filter(isShortReply)
+      .map((q): PaperQuestion => ({
+        ...createPaperQuestion('short'),
+        text: q.question.trim(),
+        answer: isText(q.answer) ? q.answer.trim() : '',
+      }))
+    : items
+      .filter(isCreativeReply)
+      .map((q): PaperQuestion => ({
+        ...createPaperQuestion('creative'),
+        text: q.stem.trim(),
+        parts: q.parts.map((p, i): PaperQuestionPart => ({
+          id: uuidv4(),
+          text: p.question.trim(),
+          marks: CREATIVE_PART_MARKS[i] ?? CREATIVE_PART_MARKS[CREATIVE_PART_MARKS.length - 1],
+          answer: isText(p.answer) ? p.answer.trim() : '',
+        })),
+      }));
+
+  if (questions.length === 0) throw new Error("None of the generated questions were usable. Please try again.");
+  return questions;
+};
+
+// Set variants
+// Seeded so a set always prints the same way, and its answer key matches the paper
+const seededRandom = (seed: string) => {
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  // mulberry32
+  return () => {
+    h = (h + 0x6D2B79F5) | 0;
+    let t = Math.imul(h ^ (h >>> 15), 1 | h);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Set A is the paper as written. Other sets shuffle the questions within each section and the
+ * options of every MCQ, keeping the correct answer with its option.
+ */
+export const paperVariant = (paper: ExamPaper, set: PaperSet): ExamPaper => {
+  if (set === PAPER_SETS[0]) return paper;
+  const random = seededRandom(`${paper.id}:${set}`);
+
+  return {
+    ...paper,
+    sections: paper.sections.map(section => ({
+      ...section,
+      questions: shuffle(section.questions, random).map(q => {
+        if (!q.options) return q;
+        const order = shuffle(q.options.map((_, i) => i), random);
+        return { ...q, options: order.map(i => q.options![i]), correctIndex: order.indexOf(q.correctIndex ?? 0) };
+      }),
+    })),
+  };
+};
+
+export const isPaperEmpty = (paper: ExamPaper) => paper.sections.every(s => s.questions.length === 0);
@@ -0,0 +1,96 @@
+import { v4 as uuidv4 } from 'uuid';
+import { QuickAction } from "../types";
+import { QUICK_ACTIONS, QUICK_ACTIONS_KEY } from "../constants";
+import { isRecord, isText } from "./guards";
+
+const EXPORT_FORMAT = 'smart-teacher-notepad-quick-actions';
+const EXPORT_VERSION = 1;
+
+const VARIABLE_REGEX = /\{\{\s*(\w+)\s*\}\}/g;
+
+export type PromptVariable = 'selection' | 'note' | 'title' | 'language' | 'grade';
+
+export const PROMPT_VARIABLES: { name: PromptVariable; description: string }[] = [
+  { name: 'selection', description: 'Selected text, or the whole note if nothing is selected' },
+  { name: 'note', description: 'Full text of the note' },
+  { name: 'title', description: 'Note title' },
+  { name: 'language', description: 'Main language of the note (English or Bangla)' },
+  { name: 'grade', description: 'Class level chosen in the editor' },
+];
+
+export interface QuickActionExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  actions: Omit<QuickAction, 'id'>[];
+}
+
+export const loadQuickActions = (): QuickAction[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(QUICK_ACTIONS_KEY) || 'null');
+    return Array.isArray(saved) ? saved : QUICK_ACTIONS;
+  } catch {
+    return QUICK_ACTIONS;
+  }
+};
+
+export const saveQuickActions = (actions: QuickAction[]) => {
+  localStorage.setItem(QUICK_ACTIONS_KEY, JSON.stringify(actions));
+};
+
+export const usesVariable = (prompt: string, name: PromptVariable) =>
+  Array.from(prompt.matchAll(VARIABLE_REGEX)).some(m => m[1].toLowerCase() === name);
+
+// Unknown variables are left as typed so mistakes are visible in the chat
+export const expandPrompt = (prompt: string, values: Record<PromptVariable, string>): string =>
+  prompt.replace(VARIABLE_REGEX, (match, rawName: string) => {
+    const name = rawName.toLowerCase();
+    return name in values ? values[name as PromptVariable] : match;
+  });
+
+export const moveQuickAction = (actions: QuickAction[], index: number, offset: number): QuickAction[] => {
+  const target = index + offset;
+  if (target < 0 || target >= actions.length) return actions;
+  const next = [...actions];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+// Sharing
+export const serializeQuickActions = (actions: QuickAction[]): string => {
+  const data: QuickActionExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    actions: actions.map(({ label, prompt, icon }) => ({ label, prompt, icon })),
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+const isImportedAction = (value: unknown): value is { label: string; prompt: string; icon?: unknown } =>
+  isRecord(value) && isText(value.label) && isText(value.prompt);
+
+// Imported actions get fresh ids, so importing the same file twice never overwrites anything
+export const parseQuickActions = (text: string): QuickAction[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("This is not valid JSON.");
+  }
+  if (!isRecord(data) || data.format !== EXPORT_FORMAT || !Array.isArray(data.actions)) {
+    throw new Error("This is not a quick actions file.");
+  }
+  if (typeof data.version === 'number' && data.version > EXPORT_VERSION) {
+    throw new Error("These quick actions were made by a newer version of the app.");
+  }
+
+  const actions: QuickAction[] = data.actions
+    .filter(isImportedAction)
+    .map(a => ({
+      id: uuidv4(),
+      label: a.label.trim(),
+      prompt: a.prompt,
+      icon: typeof a.icon === 'string' && a.icon.startsWith('fa-') ? a.icon : 'fa-bolt',
+    }));
+  if (actions.length === 0) throw new Error("The file does not contain any quick actions.");
+  return actions;
+};
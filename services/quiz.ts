@@ -0,0 +1,132 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Schema, Type } from "@google/genai";
+import { Note, Quiz, QuizQuestion, QuizDifficulty } from "../types";
+import { SYSTEM_INSTRUCTION_QUIZ } from "../constants";
+import { generateJson } from "./ai";
+import { isRecord, isText } from "./guards";
+
+export const QUIZ_DIFFICULTIES: QuizDifficulty[] = ['easy', 'medium', 'hard'];
+export const OPTION_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F'];
+const MIN_OPTIONS = 2;
+
+const QUIZ_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    questions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          question: { type: Type.STRING },
+          options: { type: Type.ARRAY, items: { type: Type.STRING }, minItems: '4', maxItems: '4' },
+          correctIndex: { type: Type.INTEGER, description: 'Zero-based index of the correct option' },
+          explanation: { type: Type.STRING },
+          difficulty: { type: Type.STRING, enum: QUIZ_DIFFICULTIES },
+        },
+        required: ['question', 'options', 'correctIndex', 'explanation', 'difficulty'],
+        propertyOrdering: ['question', 'options', 'correctIndex', 'explanation', 'difficulty'],
+      },
+    },
+  },
+  required: ['title', 'questions'],
+};
+
+interface ReturnedQuestion {
+  question: string;
+  options: string[];
+  correctIndex: number;
+  explanation?: unknown;
+  difficulty?: unknown;
+}
+
+const isUsableQuestion = (value: unknown): value is ReturnedQuestion =>
+  isRecord(value) && isText(value.question) &&
+  Array.isArray(value.options) && value.options.length >= MIN_OPTIONS && value.options.every(isText) &&
+  typeof value.correctIndex === 'number' && Number.isInteger(value.correctIndex) &&
+  value.correctIndex >= 0 && value.correctIndex < value.options.length;
+
+const isDifficulty = (value: unknown): value is QuizDifficulty => QUIZ_DIFFICULTIES.includes(value as QuizDifficulty);
+
+/**
+ * The schema constrains the model, but the reply is still checked here: questions with
+ * missing options or an out-of-range answer are dropped rather than shown to students.
+ */
+export const validateQuizQuestions = (data: unknown): QuizQuestion[] => {
+  const questions = isRecord(data) ? data.questions : undefined;
+  if (!Array.isArray(questions)) throw new Error("The reply did not contain any questions.");
+
+  const valid = questions
+    .filter(isUsableQuestion)
+    .map((q): QuizQuestion => ({
+      id: uuidv4(),
+      question: q.question.trim(),
+      options: q.options.map(o => o.trim()),
+      correctIndex: q.correctIndex,
+      explanation: typeof q.explanation === 'string' ? q.explanation.trim() : '',
+      difficulty: isDifficulty(q.difficulty) ? q.difficulty : 'medium',
+    }));
+
+  if (valid.length === 0) throw new Error("None of the generated questions were usable. Please try again.");
+  return valid;
+};
+
+export const generateQuiz = async (note: Note, count: number, signal?: AbortSignal): Promise<Quiz> => {
+  const prompt = `Write ${count} multiple-choice questions with exactly four options each, based only on this note. ` +
+    `Mix easy, medium and hard questions. Write them in the same language as the note.\n\nNote title: ${note.title}\n\n${note.content}`;
+  const data = await generateJson(prompt, QUIZ_SCHEMA, SYSTEM_INSTRUCTION_QUIZ, signal);
+  const title = isRecord(data) && isText(data.title) && data.title.trim();
+
+  return {
+    id: uuidv4(),
+    noteId: note.id,
+    title: title || `${note.title} Quiz`,
+    questions: validateQuizQuestions(data),
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  };
+};
+
+export const createEmptyQuestion = (): QuizQuestion => ({
+  id: uuidv4(),
+  question: '',
+  options: ['', '', '', ''],
+  correctIndex: 0,
+  explanation: '',
+  difficulty: 'medium',
+});
+
+export const isQuestionComplete = (q: QuizQuestion) =>
+  !!q.question.trim() && q.options.length >= MIN_OPTIONS && q.options.every(o => o.trim()) &&
+  q.correctIndex >= 0 && q.correctIndex < q.options.length;
+
+// Practice
+export const scoreQuiz = (questions: QuizQuestion[], answers: Record<string, number>) => {
+  const correct = questions.filter(q => answers[q.id] === q.correctIndex).length;
+  return { correct, total: questions.length, percent: questions.length ? Math.round(correct / questions.length * 100) : 0 };
+};
+
+// Export
+export const quizToQuestionPaper = (quiz: Quiz): string => [
+  `# ${quiz.title}`,
+  '',
+  ...quiz.questions.flatMap((q, i) => [
+    `**${i + 1}. ${q.question}**`,
+    '',
+    ...q.options.map((o, j) => `   ${OPTION_LETTERS[j]}) ${o}`),
+    '',
+  ]),
+].join('\n');
+
+export const quizToAnswerKey = (quiz: Quiz): string => [
+  `# ${quiz.title} — Answer Key`,
+  '',
+  ...quiz.questions.flatMap((q, i) => [
+    `**${i + 1}. ${OPTION_LETTERS[q.correctIndex]}) ${q.options[q.correctIndex]}**`,
+    ...(q.explanation ? [`   ${q.explanation}`] : []),
+    '',
+  ]),
+].join('\n');
+
+export const quizFilename = (quiz: Quiz, suffix: string) =>
+  `${quiz.title.replace(/[^\p{L}\p{M}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'quiz'}-${suffix}.md`;
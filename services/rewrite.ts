@@ -0,0 +1,71 @@
+import { generateText } from "./ai";
+import { SYSTEM_INSTRUCTION_REWRITE, TEACHING_GRADE_KEY, DEFAULT_GRADE } from "../constants";
+
+export type RewriteAction = 'rewrite' | 'simplify' | 'translate' | 'expand' | 'grammar';
+
+export const REWRITE_ACTIONS: { action: RewriteAction; label: string; icon: string }[] = [
+  { action: 'rewrite', label: 'Rewrite', icon: 'fa-pen-fancy' },
+  { action: 'simplify', label: 'Simplify', icon: 'fa-child' },
+  { action: 'translate', label: 'Translate', icon: 'fa-language' },
+  { action: 'expand', label: 'Expand', icon: 'fa-up-right-and-down-left-from-center' },
+  { action: 'grammar', label: 'Fix grammar', icon: 'fa-spell-check' },
+];
+
+// Mostly Bangla text is translated to English, everything else to Bangla
+export const isMostlyBangla = (text: string) => {
+  const bangla = (text.match(/[\u0980-\u09FF]/g) || []).length;
+  const latin = (text.match(/[A-Za-z]/g) || []).length;
+  return bangla > latin;
+};
+
+export const loadGrade = (): number => {
+  const saved = Number(localStorage.getItem(TEACHING_GRADE_KEY));
+  return saved > 0 ? saved : DEFAULT_GRADE;
+};
+
+export const saveGrade = (grade: number) => {
+  localStorage.setItem(TEACHING_GRADE_KEY, String(grade));
+};
+
+const instructionFor = (action: RewriteAction, text: string, grade: number): string => {
+  switch (action) {
+    case 'rewrite':
+      return 'Rewrite this passage so it reads more clearly and naturally. Keep the meaning.';
+    case 'simplify':
+      return `Simplify this passage so a Class ${grade} student can understand it. Use short sentences and everyday words.`;
+    case 'translate':
+      return isMostlyBangla(text)
+        ? 'Translate this passage into clear English.'
+        : 'Translate this passage into natural, fluent Bangla. Keep technical terms in English in brackets where helpful.';
+    case 'expand':
+      return 'Expand this passage with more explanation and one example suitable for a classroom.';
+    case 'grammar':
+      return 'Fix the grammar, spelling and punctuation of this passage. Change nothing else.';
+  }
+};
+
+// Models sometimes wrap the answer in a code fence or quotes despite the instructions
+const cleanResult = (result: string): string =>
+  result
+    .trim()
+    .replace(/^```[\w-]*\n([\s\S]*?)\n```$/, '$1')
+    .replace(/^"([\s\S]*)"$/, '$1');
+
+/**
+ * Returns the rewritten passage. Whitespace around the selection is kept as it was,
+ * so replacing it does not merge or split paragraphs.
+ */
+export const rewriteSelection = async (
+  action: RewriteAction,
+  text: string,
+  grade: number,
+  signal?: AbortSignal
+): Promise<string> => {
+  const prompt = `${instructionFor(action, text, grade)}\n\nPassage:\n${text.trim()}`;
+  const result = cleanResult(await generateText(prompt, SYSTEM_INSTRUCTION_REWRITE, signal));
+  if (!result) throw new Error("The model returned an empty rewrite");
+
+  const leading = text.match(/^\s*/)![0];
+  const trailing = text.match(/\s*$/)![0];
+  return leading + result + trailing;
+};
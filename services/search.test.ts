@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { Note } from '../types';
+import { createSearchIndex, normalizeToken, tokenize } from './search';
+
+const note = (id: string, title: string, content: string, updatedAt = 0): Note =>
+  ({ id, title, content, updatedAt, folderId: null, tags: [], deletedAt: null });
+
+describe('normalizeToken', () => {
+  it('folds common Bangla spelling slips together', () => {
+    expect(normalizeToken('নদী')).toBe(normalizeToken('নদি'));
+    expect(normalizeToken('চাঁদ')).toBe(normalizeToken('চাদ'));
+    expect(normalizeToken('ঈদ')).toBe(normalizeToken('ইদ'));
+  });
+
+  it('matches split vowel signs with their precomposed form', () => {
+    expect(normalizeToken('\u0995\u09C7\u09BE')).toBe(normalizeToken('\u0995\u09CB')); // ক + ে + া, কো
+  });
+
+  it('drops zero-width joiners and turns a trailing hasanta ta into khanda ta', () => {
+    expect(normalizeToken('\u09B0\u200D\u09CD\u09AF\u09BE\u09AC')).toBe(normalizeToken('\u09B0\u09CD\u09AF\u09BE\u09AC')); // র‍্যাব
+    expect(normalizeToken('\u09B9\u09A0\u09BE\u09A4\u09CD')).toBe(normalizeToken('\u09B9\u09A0\u09BE\u09CE')); // হঠাত্, হঠাৎ
+  });
+
+  it('maps Bengali digits to ASCII and lowercases', () => {
+    expect(normalizeToken('২০২৪')).toBe('2024');
+    expect(normalizeToken('Rain')).toBe('rain');
+  });
+});
+
+describe('tokenize', () => {
+  it('keeps a word with a joiner in it whole', () => {
+    expect(tokenize('\u09B0\u200D\u09CD\u09AF\u09BE\u09AC \u098F\u09B8\u09C7\u099B\u09C7').map(t => t.range)).toEqual([[0, 6], [7, 12]]);
+  });
+});
+
+describe('createSearchIndex', () => {
+  it('finds notes containing every query term, titles first', () => {
+    const index = createSearchIndex();
+    index.sync([
+      note('a', 'Weather', 'Rain falls from clouds.'),
+      note('b', 'Rain', 'Clouds bring rain to the fields.'),
+      note('c', 'Soil', 'Rain soaks in.'),
+    ]);
+
+    expect(index.search('rain clouds').map(r => r.note.id)).toEqual(['b', 'a']);
+  });
+
+  it('matches prefixes and Bengali digits', () => {
+    const index = createSearchIndex();
+    index.sync([note('a', 'Calendar', 'The exam is in ২০২৪.'), note('b', 'Photosynthesis', 'Light and water.')]);
+
+    expect(index.search('2024').map(r => r.note.id)).toEqual(['a']);
+    expect(index.search('photo').map(r => r.note.id)).toEqual(['b']);
+  });
+
+  it('marks where the match is in the snippet', () => {
+    const index = createSearchIndex();
+    index.sync([note('a', 'Weather', 'Rain falls from clouds.')]);
+
+    const [result] = index.search('clouds');
+    expect(result.contentRanges).toEqual([[16, 22]]);
+    expect(result.snippet?.ranges).toEqual([[16, 22]]);
+  });
+
+  it('forgets notes that are gone or changed', () => {
+    const index = createSearchIndex();
+    index.sync([note('a', 'Weather', 'Rain'), note('b', 'Soil', 'Rain')]);
+    index.sync([note('a', 'Weather', 'Snow')]);
+
+    expect(index.search('rain')).toEqual([]);
+    expect(index.search('snow').map(r => r.note.id)).toEqual(['a']);
+  });
+});
@@ -0,0 +1,194 @@
+import { Note } from "../types";
+
+export type TextRange = [start: number, end: number];
+
+export interface SearchResult {
+  note: Note;
+  score: number;
+  titleRanges: TextRange[];
+  contentRanges: TextRange[]; // Offsets into note.content, in document order
+  snippet: { text: string; offset: number; ranges: TextRange[] } | null;
+}
+
+export interface SearchIndex {
+  sync: (notes: Note[]) => void;
+  search: (query: string, limit?: number) => SearchResult[];
+}
+
+interface Posting {
+  title: TextRange[];
+  content: TextRange[];
+}
+
+const TOKEN_REGEX = /[\p{L}\p{M}\p{N}\u200C\u200D]+/gu; // Joiners stay inside a word until normalizeToken drops them
+const TITLE_WEIGHT = 3;
+const PREFIX_WEIGHT = 0.6;
+const SNIPPET_BEFORE = 40;
+const SNIPPET_LENGTH = 140;
+
+// Bangla normalization
+const BENGALI_DIGIT_ZERO = 0x09E6;
+
+/**
+ * Folds a token into the form used as an index key:
+ * - Unicode NFC, so split vowel signs (ে + া) match their precomposed form (ো)
+ * - zero-width joiners removed; a trailing ত্ (hasanta) becomes khanda ta ৎ
+ * - long/short vowel variants and chandrabindu folded, since they are the most common spelling slips
+ * - Bengali digits mapped to ASCII, so ২০২৪ and 2024 match
+ */
+export const normalizeToken = (token: string): string =>
+  token
+    .replace(/[\u200C\u200D]/g, '')
+    .normalize('NFC')
+    .replace(/\u09A4\u09CD$/, '\u09CE') // ত্ → ৎ
+    .replace(/\u09C0/g, '\u09BF') // ী → ি
+    .replace(/\u09C2/g, '\u09C1') // ূ → ু
+    .replace(/\u0988/g, '\u0987') // ঈ → ই
+    .replace(/\u098A/g, '\u0989') // ঊ → উ
+    .replace(/\u0981/g, '') // ঁ
+    .replace(/[\u09E6-\u09EF]/g, d => String(d.charCodeAt(0) - BENGALI_DIGIT_ZERO))
+    .toLowerCase();
+
+export const tokenize = (text: string): { term: string; range: TextRange }[] => {
+  const tokens: { term: string; range: TextRange }[] = [];
+  for (const match of text.matchAll(TOKEN_REGEX)) {
+    const term = normalizeToken(match[0]);
+    if (term) tokens.push({ term, range: [match.index!, match.index! + match[0].length] });
+  }
+  return tokens;
+};
+
+const mergeRanges = (ranges: TextRange[]): TextRange[] => {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: TextRange[] = [];
+  sorted.forEach(r => {
+    const last = merged[merged.length - 1];
+    if (last && r[0] <= last[1]) last[1] = Math.max(last[1], r[1]);
+    else merged.push([r[0], r[1]]);
+  });
+  return merged;
+};
+
+const buildSnippet = (content: string, ranges: TextRange[]): SearchResult['snippet'] => {
+  if (ranges.length === 0) return null;
+  let start = Math.max(0, ranges[0][0] - SNIPPET_BEFORE);
+  // Start on a word boundary where possible
+  const space = start > 0 ? content.indexOf(' ', start) : -1;
+  if (space !== -1 && space < ranges[0][0]) start = space + 1;
+  const end = Math.min(content.length, start + SNIPPET_LENGTH);
+
+  return {
+    text: content.slice(start, end).replace(/\s/g, ' '), // Same length, so ranges stay valid
+    offset: start,
+    ranges: ranges
+      .filter(r => r[0] >= start && r[1] <= end)
+      .map(r => [r[0] - start, r[1] - start] as TextRange)
+  };
+};
+
+// In-memory inverted index over note titles and content
+export const createSearchIndex = (): SearchIndex => {
+  const postings = new Map<string, Map<string, Posting>>();
+  const indexedNotes = new Map<string, Note>();
+
+  const removeNote = (id: string) => {
+    const note = indexedNotes.get(id);
+    if (!note) return;
+    new Set([...tokenize(note.title), ...tokenize(note.content)].map(t => t.term)).forEach(term => {
+      const byNote = postings.get(term);
+      byNote?.delete(id);
+      if (byNote && byNote.size === 0) postings.delete(term);
+    });
+    indexedNotes.delete(id);
+  };
+
+  const addNote = (note: Note) => {
+    const getPosting = (term: string) => {
+      let byNote = postings.get(term);
+      if (!byNote) postings.set(term, byNote = new Map());
+      let posting = byNote.get(note.id);
+      if (!posting) byNote.set(note.id, posting = { title: [], content: [] });
+      return posting;
+    };
+    tokenize(note.title).forEach(t => getPosting(t.term).title.push(t.range));
+    tokenize(note.content).forEach(t => getPosting(t.term).content.push(t.range));
+    indexedNotes.set(note.id, note);
+  };
+
+  // Re-index only notes whose object identity changed since the last sync
+  const sync = (notes: Note[]) => {
+    const ids = new Set(notes.map(n => n.id));
+    Array.from(indexedNotes.keys()).forEach(id => {
+      if (!ids.has(id)) removeNote(id);
+    });
+    notes.forEach(note => {
+      if (indexedNotes.get(note.id) === note) return;
+      removeNote(note.id);
+      addNote(note);
+    });
+  };
+
+  const search = (query: string, limit = 50): SearchResult[] => {
+    const queryTerms = Array.from(new Set(tokenize(query).map(t => t.term)));
+    if (queryTerms.length === 0) return [];
+
+    const totalNotes = Math.max(indexedNotes.size, 1);
+    let candidates: Map<string, { score: number; title: TextRange[]; content: TextRange[] }> | null = null;
+
+    for (const queryTerm of queryTerms) {
+      const termHits = new Map<string, { score: number; title: TextRange[]; content: TextRange[] }>();
+
+      postings.forEach((byNote, term) => {
+        const weight = term === queryTerm ? 1 : term.startsWith(queryTerm) ? PREFIX_WEIGHT : 0;
+        if (weight === 0) return;
+        const idf = Math.log(1 + totalNotes / byNote.size);
+
+        byNote.forEach((posting, noteId) => {
+          const hit = termHits.get(noteId) || { score: 0, title: [], content: [] };
+          hit.score += weight * idf * (posting.title.length * TITLE_WEIGHT + Math.sqrt(posting.content.length));
+          hit.title.push(...posting.title);
+          hit.content.push(...posting.content);
+          termHits.set(noteId, hit);
+        });
+      });
+
+      // Every query term must match
+      if (candidates === null) {
+        candidates = termHits;
+      } else {
+        const next: typeof termHits = new Map();
+        candidates.forEach((acc, noteId) => {
+          const hit = termHits.get(noteId);
+          if (hit) {
+            next.set(noteId, {
+              score: acc.score + hit.score,
+              title: [...acc.title, ...hit.title],
+              content: [...acc.content, ...hit.content]
+            });
+          }
+        });
+        candidates = next;
+      }
+      if (candidates.size === 0) return [];
+    }
+
+    const results: SearchResult[] = [];
+    candidates!.forEach((hit, noteId) => {
+      const note = indexedNotes.get(noteId)!;
+      const contentRanges = mergeRanges(hit.content);
+      results.push({
+        note,
+        score: hit.score,
+        titleRanges: mergeRanges(hit.title),
+        contentRanges,
+        snippet: buildSnippet(note.content, contentRanges)
+      });
+    });
+
+    return results
+      .sort((a, b) => b.score - a.score || b.note.updatedAt - a.note.updatedAt)
+      .slice(0, limit);
+  };
+
+  return { sync, search };
+};
@@ -0,0 +1,650 @@
+import { Note, Folder, ChatThread, MediaItem, NoteVersion, NoteTemplate, Quiz, Flashcard, ExamPaper, GradingSession, AnswerScript, NoteTranslation, Lecture } from "../types";
+import { LEGACY_NOTES_KEY, NOTE_SAVE_DEBOUNCE_MS, NOTE_SAVE_RETRY_MS } from "../constants";
+
+const DB_NAME = 'smart_teacher_notepad';
+
+export const STORE_NOTES = 'notes';
+export const STORE_CHAT_THREADS = 'chatThreads';
+export const STORE_MEDIA = 'media';
+export const STORE_META = 'meta';
+export const STORE_FOLDERS = 'folders';
+export const STORE_NOTE_VERSIONS = 'noteVersions';
+export const STORE_TEMPLATES = 'templates';
+export const STORE_QUIZZES = 'quizzes';
+export const STORE_FLASHCARDS = 'flashcards';
+export const STORE_PAPERS = 'papers';
+export const STORE_GRADING_SESSIONS = 'gradingSessions';
+export const STORE_ANSWER_SCRIPTS = 'answerScripts';
+export const STORE_TRANSLATIONS = 'translations';
+export const STORE_LECTURES = 'lectures';
+
+// Stores whose records belong to a note (indexed by noteId) and go away with it
+const NOTE_ATTACHMENT_STORES = [STORE_CHAT_THREADS, STORE_MEDIA, STORE_NOTE_VERSIONS, STORE_QUIZZES, STORE_FLASHCARDS, STORE_TRANSLATIONS, STORE_LECTURES];
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+// Schema migrations. Entry N upgrades the database from version N to N + 1.
+// Never edit a shipped migration; append a new one instead.
+const MIGRATIONS: Migration[] = [
+  // v1: initial stores
+  (db) => {
+    const notes = db.createObjectStore(STORE_NOTES, { keyPath: 'id' });
+    notes.createIndex('updatedAt', 'updatedAt');
+
+    const threads = db.createObjectStore(STORE_CHAT_THREADS, { keyPath: 'id' });
+    threads.createIndex('noteId', 'noteId');
+
+    const media = db.createObjectStore(STORE_MEDIA, { keyPath: 'id' });
+    media.createIndex('noteId', 'noteId');
+
+    db.createObjectStore(STORE_META);
+  },
+  // v2: folders, and folder/tag fields on existing notes
+  (db, tx) => {
+    db.createObjectStore(STORE_FOLDERS, { keyPath: 'id' });
+
+    const cursorRequest = tx.objectStore(STORE_NOTES).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        cursor.update(normalizeNote(cursor.value));
+        cursor.continue();
+      }
+    };
+  },
+  // v3: note version history
+  (db) => {
+    const versions = db.createObjectStore(STORE_NOTE_VERSIONS, { keyPath: 'id' });
+    versions.createIndex('noteId', 'noteId');
+  },
+  // v4: user-saved note templates
+  (db) => {
+    db.createObjectStore(STORE_TEMPLATES, { keyPath: 'id' });
+  },
+  // v5: quizzes generated from notes
+  (db) => {
+    const quizzes = db.createObjectStore(STORE_QUIZZES, { keyPath: 'id' });
+    quizzes.createIndex('noteId', 'noteId');
+  },
+  // v6: flashcards with their review schedule
+  (db) => {
+    const cards = db.createObjectStore(STORE_FLASHCARDS, { keyPath: 'id' });
+    cards.createIndex('noteId', 'noteId');
+  },
+  // v7: exam papers assembled from several notes
+  (db) => {
+    db.createObjectStore(STORE_PAPERS, { keyPath: 'id' });
+  },
+  // v8: grading sessions and the photographed scripts marked in them
+  (db) => {
+    db.createObjectStore(STORE_GRADING_SESSIONS, { keyPath: 'id' });
+    const scripts = db.createObjectStore(STORE_ANSWER_SCRIPTS, { keyPath: 'id' });
+    scripts.createIndex('sessionId', 'sessionId');
+  },
+  // v9: paragraph-by-paragraph translations for the bilingual view
+  (db) => {
+    const translations = db.createObjectStore(STORE_TRANSLATIONS, { keyPath: 'id' });
+    translations.createIndex('noteId', 'noteId');
+  },
+  // v10: recorded lectures and their transcripts; the audio itself is in media
+  (db) => {
+    const lectures = db.createObjectStore(STORE_LECTURES, { keyPath: 'id' });
+    lectures.createIndex('noteId', 'noteId');
+  },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+// Helpers
+// Fill in fields added after a note was first saved
+export const normalizeNote = (note: Partial<Note> & { id: string }): Note => ({
+  title: 'Untitled Note',
+  content: '',
+  updatedAt: Date.now(),
+  ...note,
+  folderId: note.folderId ?? null,
+  tags: Array.isArray(note.tags) ? note.tags : [],
+  deletedAt: note.deletedAt ?? null,
+});
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error("IndexedDB is not supported in this browser."));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let v = event.oldVersion; v < DB_VERSION; v++) {
+        MIGRATIONS[v](db, tx);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; let it proceed and reopen lazily
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+// Meta
+export const getMeta = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_META, 'readonly');
+  return requestToPromise(tx.objectStore(STORE_META).get(key));
+};
+
+export const setMeta = async (key: string, value: unknown): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_META, 'readwrite');
+  tx.objectStore(STORE_META).put(value, key);
+  await transactionDone(tx);
+};
+
+// Notes
+export const getAllNotes = async (): Promise<Note[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_NOTES, 'readonly');
+  const notes: Note[] = await requestToPromise(tx.objectStore(STORE_NOTES).getAll());
+  return notes.map(normalizeNote).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const putNotes = async (notes: Note[]): Promise<void> => {
+  if (notes.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(STORE_NOTES, 'readwrite');
+  const store = tx.objectStore(STORE_NOTES);
+  notes.forEach(note => store.put(note));
+  await transactionDone(tx);
+};
+
+export const putNote = (note: Note): Promise<void> => putNotes([note]);
+
+// One-time import of notes saved by earlier versions under a single localStorage key
+const importLegacyNotes = async (): Promise<void> => {
+  const imported = await getMeta<boolean>('legacyNotesImported');
+  if (imported) return;
+
+  const saved = localStorage.getItem(LEGACY_NOTES_KEY);
+  if (saved) {
+    try {
+      const legacyNotes: Note[] = JSON.parse(saved);
+      await putNotes(legacyNotes.filter(n => n && typeof n.id === 'string').map(normalizeNote));
+    } catch (e) {
+      console.error("Failed to import legacy notes", e);
+      return; // Keep the localStorage copy so nothing is lost; retry next load
+    }
+  }
+
+  await setMeta('legacyNotesImported', true);
+  localStorage.removeItem(LEGACY_NOTES_KEY);
+};
+
+export const loadNotes = async (): Promise<Note[]> => {
+  await importLegacyNotes();
+  return getAllNotes();
+};
+
+// Debounced note writes: typing only touches memory, the store is updated once the user pauses
+const pendingNotes = new Map<string, Note>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+const saveStatusListeners = new Set<(failed: boolean) => void>();
+let lastSaveFailed = false;
+
+const setSaveFailed = (failed: boolean) => {
+  if (failed === lastSaveFailed) return;
+  lastSaveFailed = failed;
+  saveStatusListeners.forEach(listener => listener(failed));
+};
+
+// Told when note writes start failing, and again once they go through
+export const onNoteSaveStatus = (listener: (failed: boolean) => void): (() => void) => {
+  saveStatusListeners.add(listener);
+  return () => saveStatusListeners.delete(listener);
+};
+
+export const flushPendingNotes = async (): Promise<void> => {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  if (pendingNotes.size === 0) return;
+
+  // Notes stay queued until written, so a failed write is tried again rather than lost
+  const batch = Array.from(pendingNotes.values());
+  try {
+    await putNotes(batch);
+  } catch (e) {
+    console.error("Failed to save notes", e);
+    setSaveFailed(true);
+    if (!flushTimer) flushTimer = setTimeout(flushPendingNotes, NOTE_SAVE_RETRY_MS);
+    return;
+  }
+  // A newer version queued during the write still needs saving
+  batch.forEach(note => {
+    if (pendingNotes.get(note.id) === note) pendingNotes.delete(note.id);
+  });
+  setSaveFailed(false);
+};
+
+export const scheduleNoteSave = (note: Note) => {
+  pendingNotes.set(note.id, note);
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = setTimeout(flushPendingNotes, NOTE_SAVE_DEBOUNCE_MS);
+};
+
+export const deleteNote = async (id: string): Promise<void> => {
+  pendingNotes.delete(id);
+  const db = await openDb();
+  const tx = db.transaction([STORE_NOTES, ...NOTE_ATTACHMENT_STORES], 'readwrite');
+  tx.objectStore(STORE_NOTES).delete(id);
+
+  // Cascade to everything attached to the note
+  NOTE_ATTACHMENT_STORES.forEach(storeName => {
+    const cursorRequest = tx.objectStore(storeName).index('noteId').openCursor(IDBKeyRange.only(id));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+  });
+
+  await transactionDone(tx);
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('pagehide', () => { flushPendingNotes(); });
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flushPendingNotes();
+  });
+}
+
+// Folders
+export const getAllFolders = async (): Promise<Folder[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_FOLDERS, 'readonly');
+  return requestToPromise(tx.objectStore(STORE_FOLDERS).getAll());
+};
+
+export const putFolders = async (folders: Folder[]): Promise<void> => {
+  if (folders.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(STORE_FOLDERS, 'readwrite');
+  const store = tx.objectStore(STORE_FOLDERS);
+  folders.forEach(folder => store.put(folder));
+  await transactionDone(tx);
+};
+
+export const deleteFolder = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_FOLDERS, 'readwrite');
+  tx.objectStore(STORE_FOLDERS).delete(id);
+  await transactionDone(tx);
+};
+
+// Note versions
+export const getNoteVersions = async (noteId: string): Promise<NoteVersion[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_NOTE_VERSIONS, 'readonly');
+  const versions: NoteVersion[] = await requestToPromise(
+    tx.objectStore(STORE_NOTE_VERSIONS).index('noteId').getAll(IDBKeyRange.only(noteId))
+  );
+  return versions.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const putNoteVersion = async (version: NoteVersion): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_NOTE_VERSIONS, 'readwrite');
+  tx.objectStore(STORE_NOTE_VERSIONS).put(version);
+  await transactionDone(tx);
+};
+
+export const deleteNoteVersions = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(STORE_NOTE_VERSIONS, 'readwrite');
+  const store = tx.objectStore(STORE_NOTE_VERSIONS);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
+
+// Templates
+export const getAllTemplates = async (): Promise<NoteTemplate[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_TEMPLATES, 'readonly');
+  const templates: NoteTemplate[] = await requestToPromise(tx.objectStore(STORE_TEMPLATES).getAll());
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const putTemplate = async (template: NoteTemplate): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_TEMPLATES, 'readwrite');
+  tx.objectStore(STORE_TEMPLATES).put(template);
+  await transactionDone(tx);
+};
+
+export const deleteTemplate = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_TEMPLATES, 'readwrite');
+  tx.objectStore(STORE_TEMPLATES).delete(id);
+  await transactionDone(tx);
+};
+
+// Quizzes
+export const getQuizzesForNote = async (noteId: string): Promise<Quiz[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_QUIZZES, 'readonly');
+  const quizzes: Quiz[] = await requestToPromise(
+    tx.objectStore(STORE_QUIZZES).index('noteId').getAll(IDBKeyRange.only(noteId))
+  );
+  return quizzes.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getAllQuizzes = async (): Promise<Quiz[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_QUIZZES, 'readonly');
+  return requestToPromise(tx.objectStore(STORE_QUIZZES).getAll());
+};
+
+export const putQuizzes = async (quizzes: Quiz[]): Promise<void> => {
+  if (quizzes.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(STORE_QUIZZES, 'readwrite');
+  const store = tx.objectStore(STORE_QUIZZES);
+  quizzes.forEach(quiz => store.put(quiz));
+  await transactionDone(tx);
+};
+
+export const putQuiz = (quiz: Quiz): Promise<void> => putQuizzes([quiz]);
+
+export const deleteQuiz = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_QUIZZES, 'readwrite');
+  tx.objectStore(STORE_QUIZZES).delete(id);
+  await transactionDone(tx);
+};
+
+// Flashcards
+export const getAllFlashcards = async (): Promise<Flashcard[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_FLASHCARDS, 'readonly');
+  return requestToPromise(tx.objectStore(STORE_FLASHCARDS).getAll());
+};
+
+export const putFlashcards = async (cards: Flashcard[]): Promise<void> => {
+  if (cards.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(STORE_FLASHCARDS, 'readwrite');
+  const store = tx.objectStore(STORE_FLASHCARDS);
+  cards.forEach(card => store.put(card));
+  await transactionDone(tx);
+};
+
+export const deleteFlashcards = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(STORE_FLASHCARDS, 'readwrite');
+  const store = tx.objectStore(STORE_FLASHCARDS);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
+
+// Translations
+export const getTranslation = async (noteId: string): Promise<NoteTranslation | undefined> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_TRANSLATIONS, 'readonly');
+  return requestToPromise(tx.objectStore(STORE_TRANSLATIONS).get(noteId));
+};
+
+export const getAllTranslations = async (): Promise<NoteTranslation[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_TRANSLATIONS, 'readonly');
+  return requestToPromise(tx.objectStore(STORE_TRANSLATIONS).getAll());
+};
+
+export const putTranslations = async (translations: NoteTranslation[]): Promise<void> => {
+  if (translations.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(STORE_TRANSLATIONS, 'readwrite');
+  const store = tx.objectStore(STORE_TRANSLATIONS);
+  translations.forEach(translation => store.put(translation));
+  await transactionDone(tx);
+};
+
+export const putTranslation = (translation: NoteTranslation): Promise<void> => putTranslations([translation]);
+
+// Chat threads
+export const getChatThreadsForNote = async (noteId: string): Promise<ChatThread[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_CHAT_THREADS, 'readonly');
+  const threads: ChatThread[] = await requestToPromise(
+    tx.objectStore(STORE_CHAT_THREADS).index('noteId').getAll(IDBKeyRange.only(noteId))
+  );
+  return threads.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getAllChatThreads = async (): Promise<ChatThread[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_CHAT_THREADS, 'readonly');
+  return requestToPromise(tx.objectStore(STORE_CHAT_THREADS).getAll());
+};
+
+export const putChatThreads = async (threads: ChatThread[]): Promise<void> => {
+  if (threads.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(STORE_CHAT_THREADS, 'readwrite');
+  const store = tx.objectStore(STORE_CHAT_THREADS);
+  threads.forEach(thread => store.put(thread));
+  await transactionDone(tx);
+};
+
+export const putChatThread = (thread: ChatThread): Promise<void> => putChatThreads([thread]);
+
+export const deleteChatThread = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_CHAT_THREADS, 'readwrite');
+  tx.objectStore(STORE_CHAT_THREADS).delete(id);
+  await transactionDone(tx);
+};
+
+// Media
+export const getMedia = async (id: string): Promise<MediaItem | undefined> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_MEDIA, 'readonly');
+  return requestToPromise(tx.objectStore(STORE_MEDIA).get(id));
+};
+
+export const getMediaForNote = async (noteId: string): Promise<MediaItem[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_MEDIA, 'readonly');
+  return requestToPromise(tx.objectStore(STORE_MEDIA).index('noteId').getAll(IDBKeyRange.only(noteId)));
+};
+
+export const getAllMedia = async (): Promise<MediaItem[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_MEDIA, 'readonly');
+  return requestToPromise(tx.objectStore(STORE_MEDIA).getAll());
+};
+
+export const putMediaItems = async (items: MediaItem[]): Promise<void> => {
+  if (items.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(STORE_MEDIA, 'readwrite');
+  const store = tx.objectStore(STORE_MEDIA);
+  items.forEach(item => store.put(item));
+  await transactionDone(tx);
+};
+
+export const putMedia = (item: MediaItem): Promise<void> => putMediaItems([item]);
+
+export const deleteMedia = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_MEDIA, 'readwrite');
+  tx.objectStore(STORE_MEDIA).delete(id);
+  await transactionDone(tx);
+};
+
+// Lectures
+export const getLecturesForNote = async (noteId: string): Promise<Lecture[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_LECTURES, 'readonly');
+  const lectures: Lecture[] = await requestToPromise(
+    tx.objectStore(STORE_LECTURES).index('noteId').getAll(IDBKeyRange.only(noteId))
+  );
+  return lectures.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getAllLectures = async (): Promise<Lecture[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_LECTURES, 'readonly');
+  return requestToPromise(tx.objectStore(STORE_LECTURES).getAll());
+};
+
+export const putLectures = async (lectures: Lecture[]): Promise<void> => {
+  if (lectures.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(STORE_LECTURES, 'readwrite');
+  const store = tx.objectStore(STORE_LECTURES);
+  lectures.forEach(lecture => store.put(lecture));
+  await transactionDone(tx);
+};
+
+export const putLecture = (lecture: Lecture): Promise<void> => putLectures([lecture]);
+
+// Removes the recording's audio along with it
+export const deleteLecture = async (lecture: Lecture): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([STORE_LECTURES, STORE_MEDIA], 'readwrite');
+  tx.objectStore(STORE_LECTURES).delete(lecture.id);
+  const media = tx.objectStore(STORE_MEDIA);
+  lecture.segments.forEach(segment => media.delete(segment.mediaId));
+  await transactionDone(tx);
+};
+
+// Exam papers
+export const getAllPapers = async (): Promise<ExamPaper[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_PAPERS, 'readonly');
+  const papers: ExamPaper[] = await requestToPromise(tx.objectStore(STORE_PAPERS).getAll());
+  return papers.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const putPapers = async (papers: ExamPaper[]): Promise<void> => {
+  if (papers.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(STORE_PAPERS, 'readwrite');
+  const store = tx.objectStore(STORE_PAPERS);
+  papers.forEach(paper => store.put(paper));
+  await transactionDone(tx);
+};
+
+export const putPaper = (paper: ExamPaper): Promise<void> => putPapers([paper]);
+
+export const deletePaper = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_PAPERS, 'readwrite');
+  tx.objectStore(STORE_PAPERS).delete(id);
+  await transactionDone(tx);
+};
+
+// Grading
+export const getAllGradingSessions = async (): Promise<GradingSession[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_GRADING_SESSIONS, 'readonly');
+  const sessions: GradingSession[] = await requestToPromise(tx.objectStore(STORE_GRADING_SESSIONS).getAll());
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const putGradingSessions = async (sessions: GradingSession[]): Promise<void> => {
+  if (sessions.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(STORE_GRADING_SESSIONS, 'readwrite');
+  const store = tx.objectStore(STORE_GRADING_SESSIONS);
+  sessions.forEach(session => store.put(session));
+  await transactionDone(tx);
+};
+
+export const putGradingSession = (session: GradingSession): Promise<void> => putGradingSessions([session]);
+
+// Removes the session together with its scripts
+export const deleteGradingSession = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([STORE_GRADING_SESSIONS, STORE_ANSWER_SCRIPTS], 'readwrite');
+  tx.objectStore(STORE_GRADING_SESSIONS).delete(id);
+  const cursorRequest = tx.objectStore(STORE_ANSWER_SCRIPTS).index('sessionId').openCursor(IDBKeyRange.only(id));
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (cursor) {
+      cursor.delete();
+      cursor.continue();
+    }
+  };
+  await transactionDone(tx);
+};
+
+export const getScriptsForSession = async (sessionId: string): Promise<AnswerScript[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_ANSWER_SCRIPTS, 'readonly');
+  const scripts: AnswerScript[] = await requestToPromise(
+    tx.objectStore(STORE_ANSWER_SCRIPTS).index('sessionId').getAll(IDBKeyRange.only(sessionId))
+  );
+  return scripts.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const getAllAnswerScripts = async (): Promise<AnswerScript[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_ANSWER_SCRIPTS, 'readonly');
+  return requestToPromise(tx.objectStore(STORE_ANSWER_SCRIPTS).getAll());
+};
+
+export const putAnswerScripts = async (scripts: AnswerScript[]): Promise<void> => {
+  if (scripts.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(STORE_ANSWER_SCRIPTS, 'readwrite');
+  const store = tx.objectStore(STORE_ANSWER_SCRIPTS);
+  scripts.forEach(script => store.put(script));
+  await transactionDone(tx);
+};
+
+export const putAnswerScript = (script: AnswerScript): Promise<void> => putAnswerScripts([script]);
+
+export const deleteAnswerScript = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_ANSWER_SCRIPTS, 'readwrite');
+  tx.objectStore(STORE_ANSWER_SCRIPTS).delete(id);
+  await transactionDone(tx);
+};
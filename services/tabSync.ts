@@ -0,0 +1,121 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Note, Folder } from "../types";
+import { SYNC_BROADCAST_DEBOUNCE_MS } from "../constants";
+
+const CHANNEL_NAME = 'smart_teacher_notepad_sync';
+const STORAGE_FALLBACK_KEY = 'smart_teacher_notepad_sync_message';
+
+export interface SyncedNote {
+  note: Note;
+  // updatedAt of the version the sender's edits were based on; null if the note is new
+  baseUpdatedAt: number | null;
+}
+
+export type SyncPayload =
+  | { type: 'notes'; upserts: SyncedNote[]; deletes: string[] }
+  | { type: 'folders'; upserts: Folder[]; deletes: string[] };
+
+type SyncMessage = SyncPayload & { tabId: string };
+
+export type IncomingNoteAction = 'apply' | 'conflict' | 'ignore';
+
+const TAB_ID = uuidv4();
+
+// updatedAt of the last version of each note this tab has sent or received
+const syncedVersions = new Map<string, number>();
+
+// Transport: BroadcastChannel where available, otherwise storage events
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+const post = (payload: SyncPayload) => {
+  const message: SyncMessage = { ...payload, tabId: TAB_ID };
+  if (channel) {
+    channel.postMessage(message);
+  } else {
+    try {
+      localStorage.setItem(STORAGE_FALLBACK_KEY, JSON.stringify(message));
+      localStorage.removeItem(STORAGE_FALLBACK_KEY);
+    } catch (e) {
+      console.warn("Tab sync message too large for storage fallback", e);
+    }
+  }
+};
+
+export const subscribe = (handler: (payload: SyncPayload) => void): (() => void) => {
+  const receive = (message: SyncMessage) => {
+    if (message && message.tabId !== TAB_ID) handler(message);
+  };
+
+  if (channel) {
+    const onMessage = (e: MessageEvent<SyncMessage>) => receive(e.data);
+    channel.addEventListener('message', onMessage);
+    return () => channel.removeEventListener('message', onMessage);
+  }
+
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === STORAGE_FALLBACK_KEY && e.newValue) receive(JSON.parse(e.newValue));
+  };
+  window.addEventListener('storage', onStorage);
+  return () => window.removeEventListener('storage', onStorage);
+};
+
+// Notes
+export const markNotesSynced = (notes: Note[]) => {
+  notes.forEach(n => syncedVersions.set(n.id, n.updatedAt));
+};
+
+export const forgetNotes = (ids: string[]) => {
+  ids.forEach(id => syncedVersions.delete(id));
+};
+
+// A note is dirty while it has local edits no other tab has seen yet
+export const isNoteDirty = (note: Note) => syncedVersions.get(note.id) !== note.updatedAt;
+
+/**
+ * Incoming edits fast-forward a note that has no unsent local changes. If both tabs changed
+ * the same note since they last agreed on it, the user has to pick a side.
+ */
+export const classifyIncomingNote = (local: Note | undefined, incoming: SyncedNote): IncomingNoteAction => {
+  if (!local) return 'apply';
+  if (local.updatedAt === incoming.note.updatedAt && local.content === incoming.note.content) return 'ignore';
+  if (!isNoteDirty(local) || local.updatedAt === incoming.baseUpdatedAt) return 'apply';
+  return 'conflict';
+};
+
+const pendingUpserts = new Map<string, Note>();
+const pendingDeletes = new Set<string>();
+let broadcastTimer: ReturnType<typeof setTimeout> | null = null;
+
+const flushNoteBroadcast = () => {
+  broadcastTimer = null;
+  const upserts: SyncedNote[] = Array.from(pendingUpserts.values()).map(note => {
+    const baseUpdatedAt = syncedVersions.get(note.id) ?? null;
+    syncedVersions.set(note.id, note.updatedAt);
+    return { note, baseUpdatedAt };
+  });
+  const deletes = Array.from(pendingDeletes);
+  pendingUpserts.clear();
+  pendingDeletes.clear();
+
+  if (upserts.length > 0 || deletes.length > 0) post({ type: 'notes', upserts, deletes });
+};
+
+// Batches local note changes; notes that only changed because another tab sent them are skipped
+export const broadcastNoteChanges = (changed: Note[], deletedIds: string[]) => {
+  changed.forEach(note => {
+    if (isNoteDirty(note)) pendingUpserts.set(note.id, note);
+  });
+  deletedIds.forEach(id => {
+    pendingUpserts.delete(id);
+    if (syncedVersions.delete(id)) pendingDeletes.add(id);
+  });
+
+  if (pendingUpserts.size === 0 && pendingDeletes.size === 0) return;
+  if (broadcastTimer) clearTimeout(broadcastTimer);
+  broadcastTimer = setTimeout(flushNoteBroadcast, SYNC_BROADCAST_DEBOUNCE_MS);
+};
+
+// Folders are small and change rarely, so they are sent right away
+export const broadcastFolderChanges = (upserts: Folder[], deletes: string[] = []) => {
+  if (upserts.length > 0 || deletes.length > 0) post({ type: 'folders', upserts, deletes });
+};
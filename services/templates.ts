@@ -0,0 +1,56 @@
+import { NoteTemplate } from "../types";
+import { TEMPLATE_VALUES_KEY } from "../constants";
+
+const PLACEHOLDER_REGEX = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+// Filled in automatically when the note is created
+const AUTO_PLACEHOLDERS: Record<string, (locale: string, now: Date) => string> = {
+  date: (locale, now) => now.toLocaleDateString(locale, { day: 'numeric', month: 'long', year: 'numeric' }),
+  time: (locale, now) => now.toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' }),
+  weekday: (locale, now) => now.toLocaleDateString(locale, { weekday: 'long' }),
+  year: (locale, now) => now.toLocaleDateString(locale, { year: 'numeric' }),
+};
+
+export const PLACEHOLDER_LABELS: Record<string, string> = {
+  class: 'Class',
+  subject: 'Subject',
+  topic: 'Topic / Chapter',
+  duration: 'Duration',
+  school: 'School Name',
+  exam: 'Exam Name',
+  marks: 'Full Marks',
+  teacher: 'Teacher',
+};
+
+export const isAutoPlaceholder = (name: string) => name in AUTO_PLACEHOLDERS;
+
+// Placeholder names in order of first appearance
+export const extractPlaceholders = (content: string): string[] =>
+  Array.from(new Set(Array.from(content.matchAll(PLACEHOLDER_REGEX), m => m[1].toLowerCase())));
+
+export const fillTemplate = (
+  template: Pick<NoteTemplate, 'content' | 'language'>,
+  values: Record<string, string>,
+  now = new Date()
+): string => {
+  const locale = template.language === 'bn' ? 'bn-BD' : 'en-GB';
+  return template.content.replace(PLACEHOLDER_REGEX, (match, rawName: string) => {
+    const name = rawName.toLowerCase();
+    if (values[name]?.trim()) return values[name].trim();
+    if (AUTO_PLACEHOLDERS[name]) return AUTO_PLACEHOLDERS[name](locale, now);
+    return match; // Leave unfilled placeholders visible so they can be completed by hand
+  });
+};
+
+// Remember what was typed last time, since class and subject rarely change between notes
+export const loadPlaceholderValues = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(TEMPLATE_VALUES_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const savePlaceholderValues = (values: Record<string, string>) => {
+  localStorage.setItem(TEMPLATE_VALUES_KEY, JSON.stringify({ ...loadPlaceholderValues(), ...values }));
+};
@@ -0,0 +1,58 @@
+// Measures the pixel offset of a character by rendering the text before it
+// into an invisible clone with the same width and typography.
+export const getOffsetTop = (textarea: HTMLTextAreaElement, offset: number): number => {
+  const clone = textarea.cloneNode() as HTMLTextAreaElement;
+  clone.removeAttribute('id');
+  clone.style.position = 'absolute';
+  clone.style.visibility = 'hidden';
+  clone.style.pointerEvents = 'none';
+  clone.style.height = '0';
+  clone.style.width = `${textarea.clientWidth}px`;
+  clone.value = textarea.value.slice(0, offset);
+  textarea.parentElement?.appendChild(clone);
+  const top = clone.scrollHeight;
+  clone.remove();
+  return top;
+};
+
+// Selects a range and scrolls it into the upper third of the textarea
+export const selectAndReveal = (textarea: HTMLTextAreaElement, start: number, end: number = start) => {
+  textarea.focus({ preventScroll: true });
+  textarea.setSelectionRange(start, end);
+  const top = getOffsetTop(textarea, start);
+  textarea.scrollTop = Math.max(0, top - textarea.clientHeight / 3);
+};
+
+const MIRRORED_STYLES = [
+  'boxSizing', 'width', 'borderTopWidth', 'borderRightWidth', 'borderBottomWidth', 'borderLeftWidth',
+  'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft',
+  'fontStyle', 'fontVariant', 'fontWeight', 'fontStretch', 'fontSize', 'lineHeight', 'fontFamily',
+  'textAlign', 'textTransform', 'textIndent', 'letterSpacing', 'wordSpacing', 'tabSize'
+] as const;
+
+// Caret position in pixels relative to the textarea's visible area, via a styled mirror div
+export const getCaretCoordinates = (textarea: HTMLTextAreaElement, position: number) => {
+  const mirror = document.createElement('div');
+  const computed = window.getComputedStyle(textarea);
+  MIRRORED_STYLES.forEach(prop => { mirror.style[prop] = computed[prop]; });
+  mirror.style.position = 'absolute';
+  mirror.style.visibility = 'hidden';
+  mirror.style.whiteSpace = 'pre-wrap';
+  mirror.style.overflowWrap = 'break-word';
+  mirror.style.top = '0';
+  mirror.style.left = '-9999px';
+
+  mirror.textContent = textarea.value.slice(0, position);
+  const marker = document.createElement('span');
+  marker.textContent = textarea.value.slice(position) || '.';
+  mirror.appendChild(marker);
+  document.body.appendChild(mirror);
+
+  const coordinates = {
+    top: marker.offsetTop - textarea.scrollTop,
+    left: marker.offsetLeft - textarea.scrollLeft,
+    height: parseInt(computed.lineHeight) || parseInt(computed.fontSize) * 1.5
+  };
+  mirror.remove();
+  return coordinates;
+};
@@ -0,0 +1,25 @@
+import { Note } from "../types";
+import { TRASH_RETENTION_KEY, DEFAULT_TRASH_RETENTION_DAYS } from "../constants";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isTrashed = (note: Note) => note.deletedAt !== null;
+
+// 0 means "keep forever"
+export const loadTrashRetentionDays = (): number => {
+  const saved = localStorage.getItem(TRASH_RETENTION_KEY);
+  const days = saved === null ? NaN : Number(saved);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+export const saveTrashRetentionDays = (days: number) => {
+  localStorage.setItem(TRASH_RETENTION_KEY, String(days));
+};
+
+export const isExpired = (note: Note, retentionDays: number, now = Date.now()) =>
+  retentionDays > 0 && note.deletedAt !== null && now - note.deletedAt >= retentionDays * DAY_MS;
+
+export const daysUntilPurge = (note: Note, retentionDays: number, now = Date.now()): number | null => {
+  if (retentionDays <= 0 || note.deletedAt === null) return null;
+  return Math.max(0, Math.ceil((note.deletedAt + retentionDays * DAY_MS - now) / DAY_MS));
+};
@@ -3,6 +3,43 @@ export interface Note {
   title: string;
   content: string;
   updatedAt: number;
+  folderId: string | null; // null = top level
+  tags: string[];
+  deletedAt: number | null; // Set while the note is in Trash
+}
+
+export interface NoteVersion {
+  id: string;
+  noteId: string;
+  title: string;
+  content: string;
+  createdAt: number;
+  reason: 'auto' | 'large-edit' | 'restore' | 'import' | 'sync';
+}
+
+export interface Folder {
+  id: string;
+  name: string;
+  parentId: string | null;
+  createdAt: number;
+}
+
+// Asks the Editor to select (and scroll to) a range of the open note
+export interface EditorSelectionRequest {
+  start: number;
+  end: number;
+  requestId: number;
+  keepScroll?: boolean; // Just move the caret, e.g. while dictating
+}
+
+export interface NoteTemplate {
+  id: string;
+  name: string;
+  description: string;
+  content: string; // May contain {{placeholders}}
+  language: 'en' | 'bn';
+  builtIn?: boolean;
+  createdAt: number;
 }
 
 export interface ChatMessage {
@@ -11,7 +48,204 @@ export interface ChatMessage {
   text: string;
   image?: string; // base64
   timestamp: number;
-  isLoading?: boolean;
+  isLoading?: boolean; // Reply is still streaming in
+  stopped?: boolean; // Reply was cut short by the user
+  actionLabel?: string; // Quick action that produced this prompt
+  historyText?: string; // Sent instead of text with later questions, e.g. a quick action without the note it pasted in
+  error?: AiErrorKind; // Reply failed; Chat shows what to do about it
+  context?: ChatContextStats; // On questions: what was sent along with them
+}
+
+export interface ChatContextStats {
+  tokens: number; // Estimate for the whole request
+  noteSections: { sent: number; total: number } | null; // null when the note wasn't included
+  recentMessages: number;
+  summarizedMessages: number;
+  trimmedMessages?: number; // Older messages left out because they couldn't be summarized
+}
+
+export interface ChatThread {
+  id: string;
+  noteId: string;
+  title: string;
+  messages: ChatMessage[];
+  summary?: { text: string; throughId: string; messageCount: number }; // Condensed messages up to and including throughId
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface MediaItem {
+  id: string;
+  noteId: string;
+  mimeType: string;
+  data: Blob;
+  createdAt: number;
+}
+
+export type QuizDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface QuizQuestion {
+  id: string;
+  question: string;
+  options: string[];
+  correctIndex: number;
+  explanation: string;
+  difficulty: QuizDifficulty;
+}
+
+export interface Quiz {
+  id: string;
+  noteId: string;
+  title: string;
+  questions: QuizQuestion[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface FlashcardReview {
+  reviewedAt: number;
+  grade: number; // SM-2 quality, 0-5
+}
+
+export interface Flashcard {
+  id: string;
+  noteId: string;
+  front: string;
+  back: string;
+  source: 'note' | 'ai'; // 'note' cards come from "Q:: A" lines and follow the note text
+  // SM-2 scheduling
+  easeFactor: number;
+  interval: number; // days
+  repetitions: number;
+  dueAt: number;
+  history: FlashcardReview[];
+  createdAt: number;
+}
+
+export type PaperSectionKind = 'mcq' | 'short' | 'creative';
+
+export interface PaperQuestionPart {
+  id: string;
+  text: string;
+  marks: number;
+  answer: string;
+}
+
+export interface PaperQuestion {
+  id: string;
+  text: string; // The stem ("uddipok") for creative questions
+  marks: number; // Creative questions use the sum of their parts instead
+  answer: string; // For the answer key
+  options?: string[]; // MCQ only
+  correctIndex?: number; // MCQ only
+  parts?: PaperQuestionPart[]; // Creative questions only
+}
+
+export interface PaperSection {
+  id: string;
+  kind: PaperSectionKind;
+  title: string;
+  instructions: string;
+  questions: PaperQuestion[];
+}
+
+export interface PaperHeader {
+  school: string;
+  exam: string;
+  className: string;
+  subject: string;
+  duration: string;
+}
+
+export interface ExamPaper {
+  id: string;
+  title: string;
+  language: 'en' | 'bn'; // Labels, numerals and option letters on the printout
+  header: PaperHeader;
+  sections: PaperSection[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface RubricCriterion {
+  id: string;
+  description: string;
+  maxMarks: number;
+}
+
+export interface RubricQuestion {
+  id: string;
+  label: string; // As numbered on the script, e.g. "1" or "2(b)"
+  question: string;
+  modelAnswer: string;
+  criteria: RubricCriterion[];
+}
+
+export interface GradingSession {
+  id: string;
+  title: string;
+  rubric: RubricQuestion[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface CriterionScore {
+  criterionId: string;
+  score: number;
+  suggestedScore: number; // What the AI gave, kept when the teacher adjusts the score
+  justification: string;
+}
+
+export interface AnswerScript {
+  id: string;
+  sessionId: string;
+  studentName: string;
+  roll: string;
+  photos: Blob[]; // One per page
+  status: 'pending' | 'graded' | 'error';
+  scores: CriterionScore[];
+  error?: string;
+  createdAt: number;
+}
+
+export interface ParallelParagraph {
+  id: string;
+  source: string;
+  translation: string;
+  translatedFrom: string | null; // Source text the translation was made from; differs from source once it's edited
+  locked: boolean; // Edited by hand: kept as is and never re-translated
+}
+
+export interface NoteTranslation {
+  id: string; // Same as noteId: one translation per note
+  noteId: string;
+  targetLanguage: 'en' | 'bn';
+  paragraphs: ParallelParagraph[];
+  updatedAt: number;
+}
+
+export interface TranscriptLine {
+  start: number; // Seconds from the start of the lecture
+  text: string;
+}
+
+// Recordings are split into separate audio files so each can be transcribed while the class goes on
+export interface LectureSegment {
+  mediaId: string;
+  start: number; // Seconds from the start of the lecture
+  duration: number;
+  status: 'pending' | 'done' | 'error';
+  lines: TranscriptLine[];
+  error?: string;
+}
+
+export interface Lecture {
+  id: string;
+  noteId: string;
+  title: string;
+  segments: LectureSegment[];
+  createdAt: number;
+  updatedAt: number;
 }
 
 export enum TtsVoice {
@@ -30,8 +264,45 @@ export interface TtsState {
   textToRead: string;
 }
 
+export type AiProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface OpenAiCompatibleSettings {
+  baseUrl: string; // e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+  chatModel: string;
+  ttsModel: string;
+}
+
+export interface GeminiSettings {
+  chatModel: string;
+  ttsModel: string;
+}
+
+// Provider API keys are kept apart from these, each optionally encrypted
+export interface AiSettings {
+  provider: AiProviderId;
+  gemini: GeminiSettings;
+  openai: OpenAiCompatibleSettings;
+  systemInstruction: string; // Chat persona, shared by all providers
+  defaultVoice: TtsVoice;
+}
+
 export interface QuickAction {
+  id: string;
   label: string;
   prompt: string;
   icon: string;
-}
\ No newline at end of file
+}
+
+export type AiErrorKind =
+  | 'missing-key'
+  | 'key-locked'
+  | 'invalid-key'
+  | 'quota'
+  | 'safety'
+  | 'network'
+  | 'timeout'
+  | 'server'
+  | 'bad-request'
+  | 'unsupported-media'
+  | 'empty-audio'
+  | 'unknown';